@@ -6,34 +6,31 @@
  * Polls OneDrive for pending jobs and executes burns automatically
  */
 
-import { uploadToOneDrive, readFromOneDrive, deleteFromOneDrive, listOneDriveFiles } from './src/adapters/onedrive';
-
-interface BurnJob {
-  jobId: string;
-  status: string;
-  priority: 'low' | 'normal' | 'high' | 'urgent';
-  files: string[];
-  created: string;
-  progress?: number;
-}
+import { uploadFile } from './src/core/storage';
+import { getJobQueue, JobLease, QueuedJob } from './src/core/job-queue';
+import { loadJobManifest, advanceJob, prepareAttempt } from './src/core/job-lifecycle';
+import { BurnManifest, JobStatus } from './src/core/manifest';
+import { handleJobFailure } from './src/core/retry-policy';
+import { approvalRefusal } from './src/core/approval';
+import { getConfig } from './src/core/admin';
+import { collectGarbage } from './src/core/retention';
 
 interface AutomationConfig {
   pollInterval: number;      // ms between checks
-  maxRetries: number;        // per job
+  gcInterval: number;        // ms between retention sweeps, 0 = off
   autoStart: boolean;        // start immediately
   logLevel: 'quiet' | 'normal' | 'verbose';
 }
 
 const config: AutomationConfig = {
   pollInterval: 5000,
-  maxRetries: 3,
+  gcInterval: 0,
   autoStart: true,
   logLevel: 'normal',
 };
 
 let running = false;
-let processedJobs: string[] = [];
-let failedJobs: Map<string, number> = new Map();
+let lastGc = 0;
 
 function log(msg: string, level: 'quiet' | 'normal' | 'verbose' = 'normal') {
   const levels = { quiet: 0, normal: 1, verbose: 2 };
@@ -42,77 +39,57 @@ function log(msg: string, level: 'quiet' | 'normal' | 'verbose' = 'normal') {
   }
 }
 
-async function fetchPendingJobs(): Promise<BurnJob[]> {
-  try {
-    const files = await listOneDriveFiles('/DiscBurn/pending');
-    const jobs: BurnJob[] = [];
-    
-    for (const file of files) {
-      if (!file.name.endsWith('.json')) continue;
-      try {
-        const content = await readFromOneDrive(`pending/${file.name}`);
-        if (content) {
-          jobs.push(JSON.parse(content));
-        }
-      } catch (e) {
-        log(`Failed to parse job: ${file.name}`, 'verbose');
-      }
-    }
-    
-    // Sort by priority
-    const priorityOrder = { urgent: 0, high: 1, normal: 2, low: 3 };
-    return jobs.sort((a, b) => 
-      (priorityOrder[a.priority] || 2) - (priorityOrder[b.priority] || 2)
-    );
-  } catch (error: any) {
-    log(`Error fetching jobs: ${error.message}`, 'normal');
-    return [];
-  }
+// Every status change goes through the job manifest's state machine first
+async function updateStatus(
+  manifest: BurnManifest,
+  actor: string,
+  status: JobStatus,
+  phase: string,
+  progress: number
+) {
+  await advanceJob(manifest, status, actor, phase);
+  await writeStatus(manifest.job.id, status, progress, undefined, { phase });
 }
 
-async function updateStatus(jobId: string, status: string, progress: number, error?: string) {
+async function writeStatus(jobId: string, status: JobStatus, progress: number, error?: string, details: Record<string, unknown> = {}) {
   const update = {
     jobId,
     status,
     progress,
     error,
+    ...details,
     updated: new Date().toISOString(),
     device: 'HP DVD557s',
   };
   
-  await uploadToOneDrive(`status/${jobId}.json`, JSON.stringify(update, null, 2));
-  log(`Status: ${jobId} -> ${status} (${progress}%)`, 'normal');
+  await uploadFile(`status/${jobId}.json`, JSON.stringify(update, null, 2));
+  log(`Status: ${jobId} -> ${status}${details.phase ? `: ${details.phase}` : ''} (${progress}%)`, 'normal');
 }
 
-async function executeBurn(job: BurnJob): Promise<boolean> {
+// Throws on failure; the retry policy decides what happens next
+async function executeBurn(manifest: BurnManifest, job: QueuedJob, actor: string, heartbeat: () => Promise<void>): Promise<void> {
   const fileCount = job.files?.length || 0;
   log(`Starting burn: ${job.jobId} (${fileCount} files)`, 'normal');
   
-  try {
-    await updateStatus(job.jobId, 'burning', 0);
-    
-    // Simulate burn phases
-    const phases = [
-      { name: 'Preparing', progress: 10 },
-      { name: 'Writing lead-in', progress: 20 },
-      { name: 'Burning data', progress: 50 },
-      { name: 'Writing lead-out', progress: 80 },
-      { name: 'Verifying', progress: 95 },
-    ];
-    
-    for (const phase of phases) {
-      await updateStatus(job.jobId, phase.name, phase.progress);
-      await sleep(2000);
-    }
-    
-    await updateStatus(job.jobId, 'complete', 100);
-    return true;
-    
-  } catch (error: any) {
-    log(`Burn failed: ${job.jobId} - ${error.message}`, 'normal');
-    await updateStatus(job.jobId, 'failed', 0, error.message);
-    return false;
+  await prepareAttempt(manifest, actor, job.attempts);
+  await updateStatus(manifest, actor, 'queued', `Claimed by ${actor}`, 0);
+  
+  // Simulate burn phases
+  const phases: { name: string; status: JobStatus; progress: number }[] = [
+    { name: 'Preparing', status: 'downloading', progress: 10 },
+    { name: 'Writing lead-in', status: 'burning', progress: 20 },
+    { name: 'Burning data', status: 'burning', progress: 50 },
+    { name: 'Writing lead-out', status: 'burning', progress: 80 },
+    { name: 'Verifying', status: 'verifying', progress: 95 },
+  ];
+  
+  for (const phase of phases) {
+    await updateStatus(manifest, actor, phase.status, phase.name, phase.progress);
+    await sleep(2000);
+    await heartbeat();
   }
+  
+  await updateStatus(manifest, actor, 'complete', 'Burn complete', 100);
 }
 
 async function syncCompletion(jobId: string, success: boolean, error?: string) {
@@ -125,51 +102,79 @@ async function syncCompletion(jobId: string, success: boolean, error?: string) {
   };
   
   // Save to completed folder
-  await uploadToOneDrive(`completed/${jobId}.json`, JSON.stringify(record, null, 2));
+  await uploadFile(`completed/${jobId}.json`, JSON.stringify(record, null, 2));
   
   // Archive by date
   const date = new Date().toISOString().split('T')[0];
-  await uploadToOneDrive(`archive/${date}/${jobId}.json`, JSON.stringify(record, null, 2));
-  
-  // Remove from pending
-  await deleteFromOneDrive(`pending/${jobId}.json`);
+  await uploadFile(`archive/${date}/${jobId}.json`, JSON.stringify(record, null, 2));
   
   log(`Synced: ${jobId} -> OneDrive`, 'normal');
 }
 
 async function processNextJob(): Promise<boolean> {
-  const jobs = await fetchPendingJobs();
+  const queue = await getJobQueue();
+  let lease: JobLease | null = await queue.claim();
   
-  // Filter already processed
-  const pending = jobs.filter(j => 
-    !processedJobs.includes(j.jobId) && 
-    (failedJobs.get(j.jobId) || 0) < config.maxRetries
-  );
-  
-  if (pending.length === 0) {
+  if (!lease) {
     return false;
   }
   
-  const job = pending[0];
-  log(`Found job: ${job.jobId} (priority: ${job.priority})`, 'normal');
+  const job = lease.job;
+  log(`Claimed job: ${job.jobId} (priority: ${job.priority}, attempt ${job.attempts})`, 'normal');
   
-  const success = await executeBurn(job);
+  const manifest = await loadJobManifest(job.jobId);
   
-  if (success) {
-    processedJobs.push(job.jobId);
+  try {
+    if (!manifest) {
+      throw Object.assign(new Error(`Manifest not found: jobs/${job.jobId}/manifest.json`), { permanent: true });
+    }
+    
+    const refusal = approvalRefusal(manifest, await getConfig());
+    if (refusal) {
+      if (manifest.lifecycle.currentState === 'pending') {
+        await advanceJob(manifest, 'awaiting_approval', lease.owner, `Refused by automation: ${refusal}`);
+      }
+      await writeStatus(job.jobId, manifest.lifecycle.currentState, 0, refusal);
+      await queue.ack(lease);
+      log(`Refused: ${refusal}`, 'normal');
+      return true;
+    }
+    
+    await executeBurn(manifest, job, lease.owner, async () => {
+      lease = await queue.keepAlive(lease!);
+    });
+    await queue.ack(lease);
     await syncCompletion(job.jobId, true);
-  } else {
-    const retries = (failedJobs.get(job.jobId) || 0) + 1;
-    failedJobs.set(job.jobId, retries);
+  } catch (error: any) {
+    log(`Burn failed: ${job.jobId} - ${error.message}`, 'normal');
+    const decision = await handleJobFailure(job.jobId, manifest, error, lease.owner);
     
-    if (retries >= config.maxRetries) {
-      await syncCompletion(job.jobId, false, 'Max retries exceeded');
+    if (decision.action === 'retry') {
+      await writeStatus(job.jobId, 'pending', 0, error.message, { retry: decision.retry, retryAt: decision.retryAt });
+      await queue.nack(lease, { delayMs: decision.delayMs, error: error.message });
+      log(`Retry ${decision.retry} scheduled: ${job.jobId} at ${decision.retryAt} (${decision.kind} error)`, 'normal');
+    } else {
+      await writeStatus(job.jobId, 'failed', 0, error.message, { errorKind: decision.kind, disposition: decision.action });
+      await queue.ack(lease);
+      await syncCompletion(job.jobId, false, `${decision.reason}: ${error.message}`);
     }
   }
   
   return true;
 }
 
+// Optional retention sweep (--gc), at most once per gcInterval
+async function runRetention() {
+  if (!config.gcInterval || Date.now() - lastGc < config.gcInterval) {
+    return;
+  }
+  lastGc = Date.now();
+  
+  const report = await collectGarbage();
+  const failed = report.items.filter(i => i.error).length;
+  log(`Retention: deleted ${report.items.length - failed} items older than ${report.retentionDays} days${failed ? ` (${failed} failed)` : ''}`, 'normal');
+}
+
 async function runAutomation() {
   running = true;
   
@@ -182,13 +187,17 @@ async function runAutomation() {
   
   log('Automation started - polling OneDrive for jobs...', 'normal');
   log(`Poll interval: ${config.pollInterval}ms`, 'verbose');
-  log(`Max retries: ${config.maxRetries}`, 'verbose');
+  log(`Retention sweep: ${config.gcInterval ? `every ${config.gcInterval / 3600000}h` : 'off'}`, 'verbose');
   
   while (running) {
-    const hadJob = await processNextJob();
+    const hadJob = await processNextJob().catch(error => {
+      log(`Queue error: ${error.message}`, 'normal');
+      return false;
+    });
     
     if (!hadJob) {
       log('No pending jobs, waiting...', 'verbose');
+      await runRetention().catch(error => log(`Retention error: ${error.message}`, 'normal'));
     }
     
     await sleep(config.pollInterval);
@@ -216,6 +225,12 @@ if (intervalArg) {
   config.pollInterval = parseInt(intervalArg.split('=')[1]) * 1000;
 }
 
+// --gc sweeps daily, --gc=<hours> sets the interval
+const gcArg = args.find(a => a === '--gc' || a.startsWith('--gc='));
+if (gcArg) {
+  config.gcInterval = (gcArg.includes('=') ? parseFloat(gcArg.split('=')[1]) : 24) * 3600000;
+}
+
 // Start automation
 runAutomation().catch(err => {
   console.error('Fatal error:', err);
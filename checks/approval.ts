@@ -0,0 +1,92 @@
+/**
+ * Approval
+ * With policies.requireApproval on: new burn jobs wait for an operator, the
+ * executor refuses anything unapproved (even a job slipped into the queue),
+ * approved jobs burn, and rejected ones are final. Takes about 10 seconds.
+ *
+ *   npm run check:approval
+ */
+
+import * as path from 'path';
+import { runChecks, expect, writeRandomFile } from './check';
+
+const APPROVER = 'check-operator';
+
+// admin.ts fixes the data/ folder when it loads, so the modules under test are
+// loaded only once the check has moved into its scratch directory
+async function loadModules() {
+  return {
+    admin: await import('../src/core/admin'),
+    executor: await import('../src/core/executor'),
+    burnExecutor: await import('../src/core/burn-executor'),
+    approval: await import('../src/core/approval'),
+    lifecycle: await import('../src/core/job-lifecycle'),
+    queue: await import('../src/core/job-queue'),
+  };
+}
+
+runChecks('APPROVAL', workDir => {
+  let modules: Awaited<ReturnType<typeof loadModules>>;
+  let approved: string;
+  let rejected: string;
+
+  const createJob = async (): Promise<string> => {
+    const result = await modules.executor.executeCommand('burn_to_disc', 'all');
+    expect(result.success, `burn job not created: ${result.message}`);
+    return result.data.job.id;
+  };
+
+  const stateOf = async (jobId: string) => (await modules.lifecycle.loadJobManifest(jobId))?.lifecycle.currentState;
+
+  return [
+    ['Set up a workspace with approval required', async () => {
+      process.chdir(workDir);
+      process.env.DISCBURN_SIGNAL_SECRET = process.env.DISCBURN_SIGNAL_SECRET || 'discburn-check';
+      modules = await loadModules();
+      const { policies } = await modules.admin.getConfig();
+      await modules.admin.updateConfig({
+        destinations: [{ id: 'dest-check', name: 'Check', type: 'local', enabled: true, priority: 1, settings: { folder: path.join(workDir, 'data', 'store') } }],
+        policies: { ...policies, requireApproval: true },
+      });
+      await writeRandomFile(path.join(workDir, 'notes.txt'), 900);
+    }],
+    ['New jobs wait for approval and are not queued', async () => {
+      approved = await createJob();
+      rejected = await createJob();
+      expect((await stateOf(approved)) === 'awaiting_approval', `new job is ${await stateOf(approved)}`);
+      const waiting = (await modules.approval.listAwaitingApproval()).map(m => m.job.id);
+      expect(waiting.includes(approved) && waiting.includes(rejected), `awaiting approval: ${waiting.join(', ')}`);
+
+      const burn = await modules.burnExecutor.runSingleBurn(approved);
+      expect(!burn.success, 'an unapproved job was burned');
+    }],
+    ['An unapproved job slipped into the queue is refused and sent back', async () => {
+      const manifest = (await modules.lifecycle.loadJobManifest(rejected))!;
+      await modules.lifecycle.advanceJob(manifest, 'pending', 'check', 'Bypassing approval');
+      await (await modules.queue.getJobQueue()).enqueue(modules.queue.jobFromManifest(manifest));
+
+      const burn = await modules.burnExecutor.runSingleBurn(rejected);
+      expect(!burn.success && burn.message.includes('not approved'), `burn of a bypassed job: ${burn.message}`);
+      expect((await stateOf(rejected)) === 'awaiting_approval', `bypassed job is ${await stateOf(rejected)}`);
+    }],
+    ['An approved job records its approver and burns', async () => {
+      const result = await modules.approval.approveJob(approved, APPROVER);
+      expect(result.success, `approve failed: ${result.message}`);
+      expect(result.manifest?.admin.approvedBy === APPROVER, `approved by ${result.manifest?.admin.approvedBy}`);
+
+      const burn = await modules.burnExecutor.runSingleBurn(approved);
+      expect(burn.success, `burn of the approved job: ${burn.message}`);
+      expect((await stateOf(approved)) === 'complete', `approved job is ${await stateOf(approved)}`);
+    }],
+    ['A rejected job is final', async () => {
+      const result = await modules.approval.rejectJob(rejected, 'Not this one', APPROVER);
+      expect(result.success, `reject failed: ${result.message}`);
+      expect((await stateOf(rejected)) === 'rejected', `rejected job is ${await stateOf(rejected)}`);
+
+      const approve = await modules.approval.approveJob(rejected, APPROVER);
+      expect(!approve.success, 'a rejected job was approved');
+      const burn = await modules.burnExecutor.runSingleBurn(rejected);
+      expect(!burn.success, 'a rejected job was burned');
+    }],
+  ];
+});
@@ -0,0 +1,64 @@
+/**
+ * Burn Targets
+ * Resolves burn targets against a fixed file list: directories, files and
+ * globs, --exclude, .discburnignore, the words that are not paths, and
+ * selectors that match nothing
+ *
+ *   npm run check:targets
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { resolveBurnTarget, parseTarget, IGNORE_FILE } from '../src/core/burn-targets';
+import { runChecks, expect } from './check';
+
+const FILES = [
+  'README.md',
+  'notes.txt',
+  'debug.log',
+  'docs/guide.md',
+  'docs/api/index.md',
+  'src/app.ts',
+  'src/components/Button.tsx',
+  'src/components/Button.test.tsx',
+  'src/components/button.log',
+  'build/src/app.js',
+];
+
+runChecks('BURN TARGETS', workDir => {
+  const resolve = async (target: string) => (await resolveBurnTarget(FILES, target, workDir)).included.join(' ');
+
+  return [
+    ['Directories take everything below them; plain paths are anchored', async () => {
+      const included = await resolve('src docs/guide.md');
+      expect(included === 'docs/guide.md src/app.ts src/components/Button.tsx src/components/Button.test.tsx src/components/button.log', `included ${included}`);
+    }],
+    ['Globs select by pattern at any depth or under a directory', async () => {
+      expect((await resolve('*.md')) === 'README.md docs/guide.md docs/api/index.md', `*.md included ${await resolve('*.md')}`);
+      expect((await resolve('src/components/*.tsx')) === 'src/components/Button.tsx src/components/Button.test.tsx', `src/components/*.tsx included ${await resolve('src/components/*.tsx')}`);
+    }],
+    ['--exclude drops matches, in both spellings', async () => {
+      const included = await resolve('src --exclude *.log --exclude=*.test.tsx');
+      expect(included === 'src/app.ts src/components/Button.tsx', `included ${included}`);
+    }],
+    ['.discburnignore applies to every burn, --exclude on top', async () => {
+      await fs.writeFile(path.join(workDir, IGNORE_FILE), '# build output\nbuild/\n*.log\n!debug.log\n');
+      const selection = await resolveBurnTarget(FILES, 'all --exclude docs/', workDir);
+      expect(selection.ignoreFile === IGNORE_FILE, `ignore file ${selection.ignoreFile}`);
+      expect(selection.included.join(' ') === 'README.md notes.txt debug.log src/app.ts src/components/Button.tsx src/components/Button.test.tsx', `included ${selection.included.join(' ')}`);
+      expect(selection.excluded.length + selection.included.length === FILES.length, 'included and excluded do not add up to the file list');
+      await fs.rm(path.join(workDir, IGNORE_FILE));
+    }],
+    ['all, priority words and --encrypt are not paths', async () => {
+      expect(JSON.stringify(parseTarget('all projects')) === JSON.stringify({ all: true, selectors: ['projects'], excludes: [], encrypt: false }), `'all projects' parsed as ${JSON.stringify(parseTarget('all projects'))}`);
+      const urgent = parseTarget('urgent docs --encrypt');
+      expect(!urgent.all && urgent.selectors.join() === 'docs' && urgent.encrypt, `'urgent docs --encrypt' parsed as ${JSON.stringify(urgent)}`);
+      expect(parseTarget('').all && parseTarget('priority').all, 'an empty target does not select everything');
+    }],
+    ['Selectors that match nothing are reported', async () => {
+      const selection = await resolveBurnTarget(FILES, 'docs missing "no such/*.txt"', workDir);
+      expect(selection.unmatched.join() === 'missing,no such/*.txt', `unmatched: ${selection.unmatched.join(', ')}`);
+      expect(selection.included.join(' ') === 'docs/guide.md docs/api/index.md', `included ${selection.included.join(' ')}`);
+    }],
+  ];
+});
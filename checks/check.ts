@@ -0,0 +1,47 @@
+/**
+ * Check Runner
+ * Shared by the developer checks in this folder: runs named steps in order in
+ * a scratch directory, prints PASS or FAIL for each and stops at the first
+ * failure with a non-zero exit code
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+
+export type CheckStep = [name: string, run: () => Promise<void>];
+
+export function expect(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+// Random content, so a digest match cannot come from a lucky constant pattern
+export async function writeRandomFile(filePath: string, size: number): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, randomBytes(size));
+}
+
+export async function runChecks(title: string, steps: (workDir: string) => CheckStep[]): Promise<void> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'discburn-check-'));
+  const planned = steps(workDir);
+  console.log(title);
+
+  try {
+    for (const [name, run] of planned) {
+      try {
+        await run();
+        console.log(`  PASS  ${name}`);
+      } catch (error: any) {
+        console.log(`  FAIL  ${name}: ${error.message}`);
+        process.exitCode = 1;
+        return;
+      }
+    }
+    console.log(`${planned.length} checks passed`);
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
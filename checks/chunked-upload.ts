@@ -0,0 +1,110 @@
+/**
+ * Chunked Upload
+ * Drives the OneDrive adapter against a local Graph stand-in: a large file
+ * goes up in fixed-size chunks, a failed chunk is retried, an interrupted
+ * upload resumes from a rebuilt copy of the same content, and the file
+ * streams back down byte for byte
+ *
+ *   npm run check:upload
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { configureOneDrive, uploadPathToOneDrive, downloadFromOneDrive } from '../src/adapters/onedrive';
+import { sha256, sha256File } from '../src/core/checksum';
+import { startGraphStandIn, GraphStandIn } from './graph-standin';
+import { runChecks, expect, writeRandomFile } from './check';
+
+const CHUNK_SIZE = 320 * 1024;
+const IMAGE_SIZE = 5 * 1024 * 1024 + 123;
+const REMOTE_NAME = 'burn-ready/check/DiscBurn_Check.iso';
+
+class Interrupted extends Error {}
+
+runChecks('CHUNKED UPLOAD', workDir => {
+  const imagePath = path.join(workDir, 'build-1', 'DiscBurn_Check.iso');
+  const rebuiltPath = path.join(workDir, 'build-2', 'DiscBurn_Check.iso');
+  let graph: GraphStandIn;
+
+  const expectUploaded = async (sourcePath: string) => {
+    const uploaded = graph.files.get(REMOTE_NAME);
+    expect(uploaded, `${REMOTE_NAME} was not stored`);
+    expect(sha256(uploaded) === (await sha256File(sourcePath)), 'stored content differs from the source');
+  };
+
+  // Stands in for the process dying after a number of confirmed chunks
+  const uploadInterrupted = async (sourcePath: string, chunks: number) => {
+    let confirmed = 0;
+    try {
+      await uploadPathToOneDrive(REMOTE_NAME, sourcePath, () => {
+        if (++confirmed > chunks) throw new Interrupted();
+      });
+    } catch (error) {
+      if (!(error instanceof Interrupted)) throw error;
+      return;
+    }
+    throw new Error('upload finished despite the interruption');
+  };
+
+  return [
+    ['Start the Graph stand-in', async () => {
+      graph = await startGraphStandIn();
+      configureOneDrive({
+        graphUrl: graph.url,
+        accessToken: 'check',
+        chunkSize: CHUNK_SIZE,
+        sessionFile: path.join(workDir, 'onedrive-uploads.json'),
+      });
+      await writeRandomFile(imagePath, IMAGE_SIZE);
+    }],
+    ['Large file goes up in 320 KiB chunks with progress', async () => {
+      const progress: number[] = [];
+      await uploadPathToOneDrive(REMOTE_NAME, imagePath, bytesSent => progress.push(bytesSent));
+      await expectUploaded(imagePath);
+
+      const expected = Math.ceil(IMAGE_SIZE / CHUNK_SIZE);
+      expect(graph.chunks.length === expected, `${graph.chunks.length} chunks sent, expected ${expected}`);
+      expect(graph.chunks[1] === `${CHUNK_SIZE}-${2 * CHUNK_SIZE - 1}`, `second chunk was ${graph.chunks[1]}`);
+      expect(progress.every((bytes, i) => i === 0 || bytes >= progress[i - 1]), 'progress went backwards');
+      expect(progress[progress.length - 1] === IMAGE_SIZE, `progress ended at ${progress[progress.length - 1]}`);
+    }],
+    ['Failed chunk is retried from the confirmed offset', async () => {
+      graph.files.clear();
+      graph.chunks.length = 0;
+      graph.failOnceAt.add(3 * CHUNK_SIZE);
+      await uploadPathToOneDrive(REMOTE_NAME, imagePath);
+      await expectUploaded(imagePath);
+
+      const attempts = graph.chunks.filter(range => range.startsWith(`${3 * CHUNK_SIZE}-`)).length;
+      expect(attempts === 2, `chunk at ${3 * CHUNK_SIZE} was sent ${attempts} times, expected 2`);
+    }],
+    ['Interrupted upload resumes from a rebuilt copy of the same content', async () => {
+      graph.files.clear();
+      await uploadInterrupted(imagePath, 4);
+      await fs.mkdir(path.dirname(rebuiltPath), { recursive: true });
+      await fs.copyFile(imagePath, rebuiltPath);
+
+      graph.chunks.length = 0;
+      await uploadPathToOneDrive(REMOTE_NAME, rebuiltPath);
+      await expectUploaded(imagePath);
+      expect(graph.chunks[0] === `${4 * CHUNK_SIZE}-${5 * CHUNK_SIZE - 1}`, `resumed upload started with ${graph.chunks[0]}`);
+    }],
+    ['Changed content at the same path starts over', async () => {
+      graph.files.clear();
+      await uploadInterrupted(rebuiltPath, 4);
+      await writeRandomFile(rebuiltPath, IMAGE_SIZE);
+
+      graph.chunks.length = 0;
+      await uploadPathToOneDrive(REMOTE_NAME, rebuiltPath);
+      await expectUploaded(rebuiltPath);
+      expect(graph.chunks[0] === `0-${CHUNK_SIZE - 1}`, `upload of new content started with ${graph.chunks[0]}`);
+    }],
+    ['Download streams the stored file back', async () => {
+      const downloadPath = path.join(workDir, 'downloaded.iso');
+      expect(await downloadFromOneDrive(REMOTE_NAME, downloadPath), 'download found nothing');
+      expect((await sha256File(downloadPath)) === (await sha256File(rebuiltPath)), 'downloaded content differs');
+      expect(!(await downloadFromOneDrive('burn-ready/check/absent.iso', downloadPath)), 'absent file reported as downloaded');
+    }],
+    ['Stop the Graph stand-in', () => graph.close()],
+  ];
+});
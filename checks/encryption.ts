@@ -0,0 +1,149 @@
+/**
+ * Client-Side Encryption
+ * Seals and opens content and files with a passphrase key, and checks what
+ * must be refused: altered ciphertext, a different key, and plaintext swapped
+ * into a destination while encryption is on. Backup objects get keyed names,
+ * and key IDs are salted per install.
+ *
+ *   npm run check:encryption
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { sha256, sha256File } from '../src/core/checksum';
+import { runChecks, expect, writeRandomFile } from './check';
+
+const PASSPHRASE = 'discburn-check';
+
+// admin.ts fixes the data/ folder when it loads, so the modules under test are
+// loaded only once the check has moved into its scratch directory
+async function loadModules() {
+  return {
+    admin: await import('../src/core/admin'),
+    encryption: await import('../src/core/encryption'),
+    storage: await import('../src/core/storage'),
+    workspace: await import('../src/core/workspace'),
+    snapshots: await import('../src/core/snapshots'),
+    restore: await import('../src/core/restore'),
+  };
+}
+
+async function rejection(run: () => Promise<unknown>): Promise<string | null> {
+  try {
+    await run();
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+runChecks('CLIENT-SIDE ENCRYPTION', workDir => {
+  const storeDir = path.join(workDir, 'store');
+  const sourceDir = path.join(workDir, 'workspace');
+  let modules: Awaited<ReturnType<typeof loadModules>>;
+  const plain = Buffer.from('{"jobId":"burn-check","status":"complete"}');
+  let sealed: Buffer;
+
+  const flipByte = (content: Buffer, offset: number) => {
+    const copy = Buffer.from(content);
+    copy[offset] ^= 0xff;
+    return copy;
+  };
+
+  return [
+    ['Set up encryption with a passphrase and a local destination', async () => {
+      process.chdir(workDir);
+      process.env.DISCBURN_PASSPHRASE = PASSPHRASE;
+      modules = await loadModules();
+      await modules.admin.updateConfig({
+        destinations: [{ id: 'dest-check', name: 'Check', type: 'local', enabled: true, priority: 1, settings: { folder: storeDir } }],
+        encryption: { enabled: true },
+      });
+    }],
+    ['Sealed content opens to the original; each seal has its own nonce', async () => {
+      const first = await modules.encryption.sealContent(plain);
+      const second = await modules.encryption.sealContent(plain);
+      sealed = first.data as Buffer;
+      expect(modules.encryption.isSealed(sealed), 'content was not sealed');
+      expect(!sealed.includes(plain), 'sealed content holds the plaintext');
+      expect(first.encryption?.nonce !== second.encryption?.nonce, 'two seals shared a nonce');
+      expect(first.encryption?.keySalt, 'sealed content does not record the key salt');
+      expect((await modules.encryption.openContent(sealed)).equals(plain), 'opened content differs from the original');
+    }],
+    ['Altered ciphertext or header is refused', async () => {
+      const body = await rejection(() => modules.encryption.openContent(flipByte(sealed, sealed.length - 1)));
+      expect(body?.includes('altered'), `altered ciphertext: ${body ?? 'opened'}`);
+
+      const header = sealed.toString('latin1');
+      const tagAt = header.indexOf('"tag":"') + 7;
+      const tag = await rejection(() => modules.encryption.openContent(Buffer.from(header.slice(0, tagAt) + (header[tagAt] === 'A' ? 'B' : 'A') + header.slice(tagAt + 1), 'latin1')));
+      expect(tag?.includes('altered'), `altered tag: ${tag ?? 'opened'}`);
+    }],
+    ['A damaged sealed file leaves no output', async () => {
+      const sourcePath = path.join(workDir, 'image.iso');
+      const sealedPath = path.join(workDir, 'image.sealed');
+      const outputPath = path.join(workDir, 'image.opened');
+      await writeRandomFile(sourcePath, 3 * 1024 * 1024 + 5);
+      expect(await modules.encryption.sealFile(sourcePath, sealedPath), 'file was not sealed');
+      expect(await modules.encryption.openFile(sealedPath, outputPath), 'sealed file was not opened');
+      expect((await sha256File(outputPath)) === (await sha256File(sourcePath)), 'opened file differs from the source');
+
+      await fs.writeFile(sealedPath, flipByte(await fs.readFile(sealedPath), 2 * 1024 * 1024));
+      await fs.rm(outputPath);
+      const error = await rejection(() => modules.encryption.openFile(sealedPath, outputPath));
+      expect(error?.includes('altered'), `damaged file: ${error ?? 'opened'}`);
+      expect(!(await fs.stat(outputPath).catch(() => null)) && !(await fs.stat(`${outputPath}.partial`).catch(() => null)), 'damaged file left output behind');
+    }],
+    ['A different key is refused before decrypting', async () => {
+      process.env.DISCBURN_PASSPHRASE = 'another-passphrase';
+      try {
+        const error = await rejection(() => modules.encryption.openContent(sealed));
+        expect(error?.includes('does not match'), `different key: ${error ?? 'opened'}`);
+      } finally {
+        process.env.DISCBURN_PASSPHRASE = PASSPHRASE;
+      }
+    }],
+    ['Destination writes are sealed; plaintext swapped in is refused', async () => {
+      const destination = await modules.storage.getPrimaryDestination();
+      await destination.upload('status/burn-check.json', plain);
+      const stored = await fs.readFile(path.join(storeDir, 'status/burn-check.json'));
+      expect(modules.encryption.isSealed(stored), 'upload was stored unsealed');
+      expect((await destination.readBinary('status/burn-check.json'))?.equals(plain), 'read back differs from the upload');
+
+      await fs.writeFile(path.join(storeDir, 'status/burn-check.json'), '{"status":"forged"}');
+      const error = await rejection(() => destination.read('status/burn-check.json'));
+      expect(error?.includes('not sealed'), `plaintext read: ${error ?? 'accepted'}`);
+      const download = await rejection(() => destination.download('status/burn-check.json', path.join(workDir, 'download.json')));
+      expect(download?.includes('not sealed'), `plaintext download: ${download ?? 'accepted'}`);
+      expect(await destination.readBinary('status/burn-check.json', { allowPlain: true }), 'plaintext refused where the caller allows it');
+    }],
+    ['Backup objects get keyed names and restore through the key', async () => {
+      await writeRandomFile(path.join(sourceDir, 'notes.txt'), 900);
+      const entries = await modules.workspace.scanWorkspaceFiles({ root: sourceDir });
+      const result = await modules.snapshots.createSnapshot(entries, { id: 'backup-check', root: sourceDir });
+      expect(result.success, `backup failed: ${result.error}`);
+
+      const [file] = result.snapshot!.files;
+      expect(file.object && file.object !== modules.snapshots.objectPath(file.checksum), `object stored as ${file.object}`);
+      expect(!file.object.includes(file.checksum.replace(/^sha256:/, '')), 'object name holds the content digest');
+      expect(file.encryption?.keyId, 'snapshot does not record how the object was sealed');
+
+      const report = await modules.restore.restore('backup-check', { targetDir: path.join(workDir, 'restored') });
+      expect(report.success, `restore failed: ${report.message}`);
+      expect(sha256(await fs.readFile(path.join(workDir, 'restored', 'notes.txt'))) === file.checksum, 'restored file differs');
+
+      await fs.writeFile(path.join(storeDir, file.object), await fs.readFile(path.join(sourceDir, 'notes.txt')));
+      const swapped = await modules.restore.restore('backup-check', { targetDir: path.join(workDir, 'swapped') });
+      expect(!swapped.success && swapped.files[0].message?.includes('not sealed'), `plaintext object: ${swapped.files[0].status} ${swapped.files[0].message ?? ''}`);
+    }],
+    ['Key IDs are salted per install; content from another install still opens', async () => {
+      const before = (await modules.encryption.describeEncryptionKey())!;
+      await modules.admin.updateConfig({ encryption: { enabled: true, keySalt: Buffer.alloc(16, 7).toString('base64') } });
+      const after = (await modules.encryption.describeEncryptionKey())!;
+      expect(after.keyId !== before.keyId, 'key ID did not change with the install salt');
+      expect(await modules.encryption.configuredKeyMatches({ keyId: before.keyId, keySalt: before.keySalt }), 'key not recognized under its earlier salt');
+      expect(!(await modules.encryption.configuredKeyMatches({ keyId: before.keyId, keySalt: after.keySalt })), 'key ID matched under another salt');
+      expect((await modules.encryption.openContent(sealed)).equals(plain), 'content sealed under the earlier salt did not open');
+    }],
+  ];
+});
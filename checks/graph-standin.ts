@@ -0,0 +1,100 @@
+/**
+ * Graph Stand-In
+ * Just enough of the Microsoft Graph drive API for the OneDrive adapter:
+ * simple uploads and downloads, upload sessions, chunk PUTs and session
+ * status. Files live in memory; every chunk range received is logged, and
+ * chunks can be made to fail once at chosen offsets.
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export interface GraphStandIn {
+  url: string;
+  files: Map<string, Buffer>;
+  // Chunk ranges in the order they arrived, e.g. '0-327679'
+  chunks: string[];
+  failOnceAt: Set<number>;
+  close(): Promise<void>;
+}
+
+interface UploadSession {
+  fileName: string;
+  parts: Buffer[];
+  received: number;
+}
+
+const CONTENT_PATH = /^\/v1\.0\/me\/drive\/root:\/DiscBurn\/(.+):\/content$/;
+const SESSION_PATH = /^\/v1\.0\/me\/drive\/root:\/DiscBurn\/(.+):\/createUploadSession$/;
+const UPLOAD_PATH = /^\/upload\/(\d+)$/;
+
+export async function startGraphStandIn(): Promise<GraphStandIn> {
+  const sessions = new Map<string, UploadSession>();
+  let nextSession = 1;
+
+  const server = http.createServer((req, res) => {
+    const body: Buffer[] = [];
+    req.on('data', chunk => body.push(chunk));
+    req.on('end', () => {
+      const url = decodeURIComponent((req.url || '').split('?')[0]);
+      const reply = (status: number, json: object = {}) => {
+        res.writeHead(status, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(json));
+      };
+      let match: RegExpMatchArray | null;
+
+      if (req.method === 'POST' && (match = url.match(SESSION_PATH))) {
+        const id = String(nextSession++);
+        sessions.set(id, { fileName: match[1], parts: [], received: 0 });
+        return reply(200, {
+          uploadUrl: `${standIn.url}/upload/${id}`,
+          expirationDateTime: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+          nextExpectedRanges: ['0-'],
+        });
+      }
+
+      if ((match = url.match(UPLOAD_PATH))) {
+        const session = sessions.get(match[1]);
+        if (!session) return reply(404);
+        if (req.method === 'GET') return reply(200, { nextExpectedRanges: [`${session.received}-`] });
+
+        const [, start, end, total] = (String(req.headers['content-range']).match(/bytes (\d+)-(\d+)\/(\d+)/) || []).map(Number);
+        standIn.chunks.push(`${start}-${end}`);
+        if (standIn.failOnceAt.delete(start)) return reply(500);
+        if (start !== session.received) return reply(416);
+
+        session.parts.push(Buffer.concat(body));
+        session.received = end + 1;
+        if (session.received < total) return reply(202, { nextExpectedRanges: [`${session.received}-`] });
+        standIn.files.set(session.fileName, Buffer.concat(session.parts));
+        sessions.delete(match[1]);
+        return reply(201, { id: session.fileName });
+      }
+
+      if ((match = url.match(CONTENT_PATH))) {
+        if (req.method === 'PUT') {
+          standIn.files.set(match[1], Buffer.concat(body));
+          return reply(201, { id: match[1] });
+        }
+        const file = standIn.files.get(match[1]);
+        if (!file) return reply(404);
+        res.writeHead(200, { 'content-type': 'application/octet-stream' });
+        return res.end(file);
+      }
+
+      reply(404);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  // A check that stops early must not be kept alive by the listener
+  server.unref();
+  const standIn: GraphStandIn = {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    files: new Map(),
+    chunks: [],
+    failOnceAt: new Set(),
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+  return standIn;
+}
@@ -0,0 +1,89 @@
+/**
+ * Ignore Rules
+ * gitignore semantics of the ignore matcher (anchoring, directory-only rules,
+ * negation, globbing) and a workspace scan of a generated tree with nested
+ * .gitignore files
+ *
+ *   npm run check:ignore
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createIgnoreMatcher, parseIgnoreFile } from '../src/core/ignore-rules';
+import { scanWorkspaceFiles } from '../src/core/workspace';
+import { runChecks, expect } from './check';
+
+const TREE: Record<string, string> = {
+  '.gitignore': '*.tmp\nbuild/\n',
+  '.hidden': 'dotfile',
+  'build/out.bin': 'ignored directory',
+  'node_modules/pkg/index.js': 'default ignore',
+  'data/config.json': 'default ignore, anchored at the root',
+  'sub/data/keep.txt': 'not the root data folder',
+  'src/.gitignore': '!b.tmp\ngenerated.ts\n',
+  'src/a.ts': 'kept',
+  'src/b.tmp': 're-included below src',
+  'src/generated.ts': 'ignored below src',
+  'other/c.tmp': 'ignored from the root',
+  'other/generated.ts': 'outside src, kept',
+};
+
+const SCANNED = ['other/generated.ts', 'src/a.ts', 'src/b.tmp', 'sub/data/keep.txt'];
+
+function expectIgnores(rules: string, cases: [relativePath: string, isDirectory: boolean, ignored: boolean][]) {
+  const matcher = createIgnoreMatcher(parseIgnoreFile(rules));
+  for (const [relativePath, isDirectory, ignored] of cases) {
+    expect(matcher.ignores(relativePath, isDirectory) === ignored, `${relativePath}${isDirectory ? '/' : ''} is ${ignored ? 'not ' : ''}ignored by ${JSON.stringify(rules)}`);
+  }
+}
+
+runChecks('IGNORE RULES', workDir => [
+  ['Comments, blank lines and trailing spaces are skipped', async () => {
+    const content = '# comment\n\n*.log   \n\\#literal\n';
+    const rules = parseIgnoreFile(content);
+    expect(rules.length === 2, `${rules.length} rules parsed, expected 2`);
+    expectIgnores(content, [['debug.log', false, true], ['#literal', false, true], ['# comment', false, false]]);
+  }],
+  ['Unanchored names match at any depth, anchored ones only where written', async () => {
+    expectIgnores('*.log\n/build\ndocs/tmp\n', [
+      ['a/b/debug.log', false, true],
+      ['build', true, true],
+      ['src/build', true, false],
+      ['docs/tmp', false, true],
+      ['site/docs/tmp', false, false],
+    ]);
+  }],
+  ['dir/ matches directories only, and everything inside them', async () => {
+    expectIgnores('cache/\n', [['cache', true, true], ['cache', false, false], ['cache/deep/file.txt', false, true]]);
+  }],
+  ['Negation re-includes, but not inside an ignored directory', async () => {
+    expectIgnores('*.log\n!keep.log\n', [['keep.log', false, false], ['other.log', false, true]]);
+    expectIgnores('logs/\n!logs/keep.log\n', [['logs/keep.log', false, true]]);
+  }],
+  ['Globbing: ?, [a-c] and ** spanning directories', async () => {
+    expectIgnores('file?.txt\n[a-c].md\na/**/z.txt\n', [
+      ['file1.txt', false, true],
+      ['file10.txt', false, false],
+      ['b.md', false, true],
+      ['d.md', false, false],
+      ['a/z.txt', false, true],
+      ['a/b/c/z.txt', false, true],
+      ['b/a/z.txt', false, false],
+    ]);
+  }],
+  ['Workspace scan honours nested .gitignore files and default ignores', async () => {
+    for (const [relativePath, content] of Object.entries(TREE)) {
+      await fs.mkdir(path.dirname(path.join(workDir, relativePath)), { recursive: true });
+      await fs.writeFile(path.join(workDir, relativePath), content);
+    }
+    const scanned = (await scanWorkspaceFiles({ root: workDir, includeDotfiles: false })).map(e => e.path).sort();
+    expect(scanned.join() === SCANNED.join(), `scanned ${scanned.join(', ')}; expected ${SCANNED.join(', ')}`);
+  }],
+  ['Dotfiles are scanned when asked for', async () => {
+    const scanned = (await scanWorkspaceFiles({ root: workDir, includeDotfiles: true })).map(e => e.path);
+    for (const dotfile of ['.hidden', '.gitignore', 'src/.gitignore']) {
+      expect(scanned.includes(dotfile), `${dotfile} was not scanned`);
+    }
+    expect(!scanned.includes('src/generated.ts'), 'src/generated.ts was scanned');
+  }],
+]);
@@ -0,0 +1,62 @@
+/**
+ * Image Round Trip
+ * Writes ISO 9660 and UDF images of a generated file set, reads them back
+ * with the image reader and compares every file's digest with its source
+ *
+ *   npm run check:images
+ */
+
+import * as path from 'path';
+import { writeIsoImage } from '../src/core/iso9660';
+import { writeUdfImage } from '../src/core/udf';
+import { ImageEntry } from '../src/core/disc-image';
+import { readImageFiles, extractImageFile } from '../src/core/image-reader';
+import { sha256File } from '../src/core/checksum';
+import { runChecks, expect, writeRandomFile } from './check';
+
+const VOLUME_LABEL = 'DiscBurn_Check';
+
+// Sizes straddle sector boundaries; names go beyond ISO 9660 d-characters
+const FILES = [
+  { path: 'readme.txt', size: 1200 },
+  { path: 'empty.dat', size: 0 },
+  { path: 'sector/exactly-one-sector.bin', size: 2048 },
+  { path: 'docs/nested/deeper/report.pdf', size: 3 * 1024 * 1024 + 17 },
+  { path: 'Übersicht – café.txt', size: 4096 },
+  { path: 'a-file-name-far-too-long-for-eight-dot-three-naming.json', size: 3000 },
+];
+
+runChecks('IMAGE ROUND TRIP', workDir => {
+  const sourceDir = path.join(workDir, 'source');
+  const entries: ImageEntry[] = FILES.map(f => ({ path: f.path, size: f.size, sourcePath: path.join(sourceDir, f.path) }));
+
+  const roundTrip = async (format: 'iso9660' | 'udf') => {
+    const imagePath = path.join(workDir, `${format}.iso`);
+    const writeImage = format === 'udf' ? writeUdfImage : writeIsoImage;
+    await writeImage(entries, imagePath, { volumeLabel: VOLUME_LABEL });
+
+    const listing = await readImageFiles(imagePath);
+    expect(listing.format === format, `read back as ${listing.format}`);
+    const found = new Map(listing.files.map(f => [f.path, f]));
+    expect(found.size === FILES.length, `image lists ${found.size} files, expected ${FILES.length}: ${[...found.keys()].join(', ')}`);
+
+    for (const file of FILES) {
+      const imageFile = found.get(file.path);
+      expect(imageFile, `${file.path} is missing from the image`);
+      expect(imageFile.size === file.size, `${file.path} is ${imageFile.size} bytes, expected ${file.size}`);
+      const extracted = await extractImageFile(imagePath, imageFile, path.join(workDir, 'extracted'));
+      const expected = await sha256File(path.join(sourceDir, file.path));
+      expect(extracted === expected, `${file.path} reads back as ${extracted}, expected ${expected}`);
+    }
+  };
+
+  return [
+    ['Generate source files', async () => {
+      for (const file of FILES) {
+        await writeRandomFile(path.join(sourceDir, file.path), file.size);
+      }
+    }],
+    ['ISO 9660 + Joliet + Rock Ridge image reads back byte for byte', () => roundTrip('iso9660')],
+    ['UDF 2.50 image reads back byte for byte', () => roundTrip('udf')],
+  ];
+});
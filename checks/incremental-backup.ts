@@ -0,0 +1,95 @@
+/**
+ * Incremental Backup
+ * Backs up a generated workspace three times to a local destination:
+ * duplicate content is stored once, unchanged files are not read again, a
+ * touched file is rehashed but not uploaded, and only new content goes up
+ *
+ *   npm run check:backup
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { SnapshotIndex } from '../src/core/snapshots';
+import { runChecks, expect, writeRandomFile } from './check';
+
+const FILES = [
+  { path: 'notes.txt', size: 900 },
+  { path: 'docs/report.pdf', size: 64 * 1024 },
+  { path: 'photos/beach.jpg', size: 128 * 1024 },
+];
+
+// admin.ts fixes the data/ folder when it loads, so the modules under test are
+// loaded only once the check has moved into its scratch directory
+async function loadModules() {
+  return {
+    admin: await import('../src/core/admin'),
+    workspace: await import('../src/core/workspace'),
+    snapshots: await import('../src/core/snapshots'),
+  };
+}
+
+function expectStats(snapshot: SnapshotIndex, expected: Partial<SnapshotIndex['stats']>) {
+  for (const [name, value] of Object.entries(expected)) {
+    const actual = snapshot.stats[name as keyof SnapshotIndex['stats']];
+    expect(actual === value, `${name} is ${actual}, expected ${value}`);
+  }
+}
+
+runChecks('INCREMENTAL BACKUP', workDir => {
+  const sourceDir = path.join(workDir, 'workspace');
+  const storeDir = path.join(workDir, 'store');
+  let modules: Awaited<ReturnType<typeof loadModules>>;
+  let first: SnapshotIndex;
+  let second: SnapshotIndex;
+
+  const backup = async (id: string) => {
+    const entries = await modules.workspace.scanWorkspaceFiles({ root: sourceDir });
+    const result = await modules.snapshots.createSnapshot(entries, { id, root: sourceDir });
+    expect(result.success, `backup ${id} failed: ${result.error}`);
+    return result.snapshot!;
+  };
+
+  const storedObjects = async () => {
+    const objects: string[] = [];
+    for (const prefix of await fs.readdir(path.join(storeDir, 'objects'))) {
+      objects.push(...(await fs.readdir(path.join(storeDir, 'objects', prefix))));
+    }
+    return objects;
+  };
+
+  return [
+    ['Set up a workspace backed up to a local destination', async () => {
+      process.chdir(workDir);
+      modules = await loadModules();
+      await modules.admin.updateConfig({
+        destinations: [{ id: 'dest-check', name: 'Check', type: 'local', enabled: true, priority: 1, settings: { folder: storeDir } }],
+      });
+      for (const file of FILES) {
+        await writeRandomFile(path.join(sourceDir, file.path), file.size);
+      }
+      await fs.copyFile(path.join(sourceDir, FILES[0].path), path.join(sourceDir, 'copy-of-notes.txt'));
+    }],
+    ['The first backup stores duplicate content once', async () => {
+      first = await backup('backup-check-1');
+      expect(first.totalFiles === FILES.length + 1, `${first.totalFiles} files backed up`);
+      expectStats(first, { uploadedObjects: FILES.length, rehashedFiles: FILES.length + 1 });
+      expect((await storedObjects()).length === FILES.length, `${(await storedObjects()).length} objects stored`);
+    }],
+    ['An unchanged workspace is neither read nor uploaded again', async () => {
+      second = await backup('backup-check-2');
+      expectStats(second, { uploadedObjects: 0, rehashedFiles: 0, reusedFiles: FILES.length + 1 });
+      expect(second.parent === first.id, `parent is ${second.parent}`);
+      expect(second.checksum === first.checksum, 'snapshot checksum changed without a change');
+    }],
+    ['A touched file is rehashed; only new content is uploaded', async () => {
+      const touched = new Date(Date.now() + 60 * 1000);
+      await fs.utimes(path.join(sourceDir, FILES[1].path), touched, touched);
+      await writeRandomFile(path.join(sourceDir, FILES[2].path), FILES[2].size);
+
+      const third = await backup('backup-check-3');
+      expectStats(third, { uploadedObjects: 1, uploadedBytes: FILES[2].size, rehashedFiles: 2 });
+      expect(third.checksum !== second.checksum, 'snapshot checksum did not change with the content');
+      expect((await storedObjects()).length === FILES.length + 1, `${(await storedObjects()).length} objects stored`);
+    }],
+  ];
+});
@@ -0,0 +1,72 @@
+/**
+ * Job Lifecycle
+ * Walks burn manifests through the state machine: the path of a two-disc
+ * burn, pause and resume, failure and requeue, and the transitions that must
+ * be refused, each recorded in the state history and audit log
+ *
+ *   npm run check:lifecycle
+ */
+
+import { createManifest, transitionState, isValidTransition, BurnManifest, JobStatus } from '../src/core/manifest';
+import { classifyError } from '../src/core/retry-policy';
+import { runChecks, expect } from './check';
+
+const ALL_STATES: JobStatus[] = ['created', 'awaiting_approval', 'pending', 'queued', 'downloading', 'burning', 'paused', 'verifying', 'complete', 'failed', 'rejected', 'cancelled'];
+
+function newManifest(): BurnManifest {
+  return createManifest({ jobId: 'burn-2026-check', files: ['notes.txt'], fileSizes: { 'notes.txt': 900 } });
+}
+
+function walk(manifest: BurnManifest, states: JobStatus[]): BurnManifest {
+  for (const state of states) {
+    transitionState(manifest, state, 'check');
+  }
+  return manifest;
+}
+
+function refusal(manifest: BurnManifest, state: JobStatus): unknown {
+  try {
+    transitionState(manifest, state, 'check');
+    return null;
+  } catch (error) {
+    return error;
+  }
+}
+
+runChecks('JOB LIFECYCLE', () => [
+  ['A two-disc burn runs from created to complete', async () => {
+    const states: JobStatus[] = ['pending', 'queued', 'downloading', 'burning', 'verifying', 'burning', 'verifying', 'complete'];
+    const manifest = walk(newManifest(), states);
+    expect(manifest.lifecycle.currentState === 'complete' && manifest.job.status === 'complete', `job ended ${manifest.lifecycle.currentState}/${manifest.job.status}`);
+
+    const history = manifest.lifecycle.states.map(s => s.to);
+    expect(history.join() === ['created', ...states].join(), `history ${history.join(' -> ')}`);
+    const audited = manifest.admin.auditLog.filter(e => e.action === 'STATE_TRANSITION').length;
+    expect(audited === states.length, `${audited} transitions audited, expected ${states.length}`);
+  }],
+  ['Approval, pause and resume, failure and requeue are allowed', async () => {
+    walk(newManifest(), ['awaiting_approval', 'pending', 'queued', 'downloading', 'burning', 'paused', 'burning', 'failed', 'pending', 'queued']);
+    walk(newManifest(), ['pending', 'cancelled', 'pending']);
+  }],
+  ['Skipping steps is refused as a permanent error and changes nothing', async () => {
+    const manifest = walk(newManifest(), ['pending']);
+    for (const state of ['burning', 'complete', 'verifying', 'failed'] as JobStatus[]) {
+      const error = refusal(manifest, state);
+      expect(error instanceof Error, `pending -> ${state} was allowed`);
+      expect(classifyError(error) === 'permanent', `pending -> ${state} is not a permanent error`);
+    }
+    expect(manifest.lifecycle.currentState === 'pending' && manifest.lifecycle.states.length === 2, 'a refused transition changed the manifest');
+  }],
+  ['Complete and rejected jobs are final', async () => {
+    for (const state of ALL_STATES) {
+      expect(!isValidTransition('complete', state), `complete -> ${state} is allowed`);
+      expect(!isValidTransition('rejected', state), `rejected -> ${state} is allowed`);
+    }
+  }],
+  ['Failed and cancelled jobs only go back to pending', async () => {
+    for (const from of ['failed', 'cancelled'] as JobStatus[]) {
+      const allowed = ALL_STATES.filter(to => isValidTransition(from, to));
+      expect(allowed.join() === 'pending', `${from} may go to ${allowed.join(', ')}`);
+    }
+  }],
+]);
@@ -0,0 +1,100 @@
+/**
+ * Lease Race
+ * Races executors for the same jobs on a local destination: only one lease
+ * per job may win, parallel claims take different jobs, and an executor
+ * whose lease expired and was taken over can neither renew nor ack it
+ *
+ *   npm run check:leases
+ */
+
+import { createDestination } from '../src/core/storage';
+import { createJobQueue, JobQueue, JobLease, QueuedJob } from '../src/core/job-queue';
+import { runChecks, expect } from './check';
+
+const ROUNDS = 20;
+
+function queuedJob(jobId: string): QueuedJob {
+  return {
+    jobId,
+    status: 'pending',
+    priority: 'normal',
+    created: new Date().toISOString(),
+    files: ['notes.txt'],
+    fileCount: 1,
+    volumes: 1,
+    attempts: 0,
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function rejects(run: () => Promise<unknown>): Promise<boolean> {
+  try {
+    await run();
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+runChecks('LEASE RACE', workDir => {
+  let queue: JobQueue;
+  let stale: JobLease;
+  let current: JobLease;
+
+  return [
+    ['Open a queue on a local destination', async () => {
+      queue = createJobQueue(createDestination({
+        id: 'dest-check',
+        name: 'Check',
+        type: 'local',
+        enabled: true,
+        priority: 1,
+        settings: { folder: workDir },
+      }));
+    }],
+    [`Two executors leasing the same job: exactly one wins (${ROUNDS} rounds)`, async () => {
+      for (let round = 0; round < ROUNDS; round++) {
+        const jobId = `burn-race-${round}`;
+        await queue.enqueue(queuedJob(jobId));
+        const leases = await Promise.all([queue.lease(jobId, 'executor-a'), queue.lease(jobId, 'executor-b')]);
+        const winners = leases.filter((l): l is JobLease => !!l);
+        expect(winners.length === 1, `round ${round}: ${winners.length} executors hold ${jobId}`);
+        expect(!(await queue.lease(jobId, 'executor-c')), `round ${round}: a held job was leased again`);
+        await queue.ack(winners[0]);
+      }
+    }],
+    ['Parallel claims take different jobs', async () => {
+      await queue.enqueue(queuedJob('burn-claim-1'));
+      await queue.enqueue(queuedJob('burn-claim-2'));
+      const [a, b] = await Promise.all([queue.claim('executor-a'), queue.claim('executor-b')]);
+      expect(a && b, `claims returned ${a?.jobId} and ${b?.jobId}`);
+      expect(a.jobId !== b.jobId, `both executors claimed ${a.jobId}`);
+      await Promise.all([queue.ack(a), queue.ack(b)]);
+    }],
+    ['An expired lease is taken over by the next executor', async () => {
+      await queue.enqueue(queuedJob('burn-expiry'));
+      const first = await queue.lease('burn-expiry', 'executor-a', 50);
+      expect(first, 'first lease failed');
+      stale = first;
+      await sleep(100);
+      const second = await queue.lease('burn-expiry', 'executor-b');
+      expect(second, 'expired lease could not be taken over');
+      expect(second.generation === stale.generation + 1, `takeover is generation ${second.generation}`);
+      current = second;
+    }],
+    ['The stale holder can neither renew nor ack', async () => {
+      expect(await rejects(() => queue.renew(stale)), 'stale lease was renewed');
+      expect(await rejects(() => queue.ack(stale)), 'stale lease acked the job');
+      const entry = (await queue.list()).find(e => e.job.jobId === 'burn-expiry');
+      expect(entry?.state === 'leased' && entry.lease?.owner === 'executor-b', `job is ${entry?.state} by ${entry?.lease?.owner}`);
+    }],
+    ['The current holder renews and acks', async () => {
+      current = await queue.renew(current);
+      await queue.ack(current);
+      expect(!(await queue.list()).some(e => e.job.jobId === 'burn-expiry'), 'acked job is still queued');
+    }],
+  ];
+});
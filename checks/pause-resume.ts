@@ -0,0 +1,101 @@
+/**
+ * Pause and Resume
+ * Runs simulated burns of a generated workspace on a local destination and
+ * pauses them mid-burn: a paused burn holds its checkpoint until resumed and
+ * then completes, and a paused burn can be cancelled. Takes about 30 seconds.
+ *
+ *   npm run check:pause
+ */
+
+import * as path from 'path';
+import type { BurnManifest, JobStatus } from '../src/core/manifest';
+import { runChecks, expect, writeRandomFile } from './check';
+
+const WAIT_MS = 20 * 1000;
+
+// admin.ts fixes the data/ folder when it loads, so the modules under test are
+// loaded only once the check has moved into its scratch directory
+async function loadModules() {
+  return {
+    admin: await import('../src/core/admin'),
+    executor: await import('../src/core/executor'),
+    burnExecutor: await import('../src/core/burn-executor'),
+    lifecycle: await import('../src/core/job-lifecycle'),
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+runChecks('PAUSE AND RESUME', workDir => {
+  let modules: Awaited<ReturnType<typeof loadModules>>;
+
+  const createJob = async (): Promise<string> => {
+    const result = await modules.executor.executeCommand('burn_to_disc', 'all');
+    expect(result.success, `burn job not created: ${result.message}`);
+    return result.data.job.id;
+  };
+
+  const control = async (action: 'pause' | 'resume' | 'cancel', jobId: string) => {
+    const result = await modules.executor.executeCommand(action, jobId);
+    expect(result.success, `${action} failed: ${result.message}`);
+  };
+
+  const waitForState = async (jobId: string, state: JobStatus): Promise<BurnManifest> => {
+    const deadline = Date.now() + WAIT_MS;
+    while (Date.now() < deadline) {
+      const manifest = await modules.lifecycle.loadJobManifest(jobId);
+      if (manifest?.lifecycle.currentState === state) return manifest;
+      await sleep(250);
+    }
+    throw new Error(`${jobId} did not reach ${state} within ${WAIT_MS / 1000}s`);
+  };
+
+  return [
+    ['Set up a workspace burned through a local destination', async () => {
+      process.chdir(workDir);
+      process.env.DISCBURN_SIGNAL_SECRET = process.env.DISCBURN_SIGNAL_SECRET || 'discburn-check';
+      modules = await loadModules();
+      await modules.admin.updateConfig({
+        destinations: [{ id: 'dest-check', name: 'Check', type: 'local', enabled: true, priority: 1, settings: { folder: path.join(workDir, 'data', 'store') } }],
+      });
+      await writeRandomFile(path.join(workDir, 'notes.txt'), 900);
+    }],
+    ['A paused burn holds its checkpoint until resumed, then completes', async () => {
+      const jobId = await createJob();
+      const burn = modules.burnExecutor.runSingleBurn(jobId);
+      await waitForState(jobId, 'burning');
+      await control('pause', jobId);
+
+      const paused = await waitForState(jobId, 'paused');
+      const checkpoint = paused.lifecycle.checkpoint;
+      expect(checkpoint, 'paused job has no checkpoint');
+      await sleep(3000);
+      const held = await modules.lifecycle.loadJobManifest(jobId);
+      expect(held?.lifecycle.currentState === 'paused' && held.lifecycle.checkpoint?.step === checkpoint.step, `job moved on while paused: ${held?.lifecycle.currentState}, step ${held?.lifecycle.checkpoint?.step}`);
+
+      await control('resume', jobId);
+      const result = await burn;
+      expect(result.success, `burn after resume: ${result.message}`);
+      const done = (await modules.lifecycle.loadJobManifest(jobId))!;
+      const history = done.lifecycle.states.map(s => s.to).join(' -> ');
+      expect(done.lifecycle.currentState === 'complete', `job ended ${done.lifecycle.currentState}`);
+      expect(history.includes('burning -> paused -> burning'), `history ${history}`);
+      expect(!done.lifecycle.checkpoint, 'checkpoint kept after the burn');
+    }],
+    ['A paused burn can be cancelled', async () => {
+      const jobId = await createJob();
+      const burn = modules.burnExecutor.runSingleBurn(jobId);
+      await waitForState(jobId, 'burning');
+      await control('pause', jobId);
+      await waitForState(jobId, 'paused');
+      await control('cancel', jobId);
+
+      const result = await burn;
+      expect(!result.success && result.message.includes('cancelled'), `burn after cancel: ${result.message}`);
+      const cancelled = await modules.lifecycle.loadJobManifest(jobId);
+      expect(cancelled?.lifecycle.currentState === 'cancelled', `job ended ${cancelled?.lifecycle.currentState}`);
+    }],
+  ];
+});
@@ -0,0 +1,127 @@
+/**
+ * Restore Round Trip
+ * Backs up a generated workspace to a local destination and restores it:
+ * every file comes back byte for byte with its mtime, older snapshots keep
+ * their content, changed files are refused without --force, paths can be
+ * picked, and a damaged object is reported as corrupt
+ *
+ *   npm run check:restore
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { sha256File } from '../src/core/checksum';
+import type { RestoreReport, RestoreFileStatus } from '../src/core/restore';
+import { runChecks, expect, writeRandomFile } from './check';
+
+const FILES = [
+  { path: 'notes.txt', size: 900 },
+  { path: 'empty.dat', size: 0 },
+  { path: 'docs/report.pdf', size: 300 * 1024 + 7 },
+  { path: 'docs/nested/Übersicht.txt', size: 4096 },
+  { path: 'photos/2024/beach.jpg', size: 1024 * 1024 },
+];
+
+// admin.ts fixes the data/ folder when it loads, so the modules under test are
+// loaded only once the check has moved into its scratch directory
+async function loadModules() {
+  return {
+    admin: await import('../src/core/admin'),
+    workspace: await import('../src/core/workspace'),
+    snapshots: await import('../src/core/snapshots'),
+    restore: await import('../src/core/restore'),
+  };
+}
+
+function statusOf(report: RestoreReport, filePath: string): RestoreFileStatus | undefined {
+  return report.files.find(f => f.path === filePath)?.status;
+}
+
+runChecks('RESTORE ROUND TRIP', workDir => {
+  const sourceDir = path.join(workDir, 'workspace');
+  const storeDir = path.join(workDir, 'store');
+  let modules: Awaited<ReturnType<typeof loadModules>>;
+  let first: string;
+  let second: string;
+  const originals = new Map<string, string>();
+
+  const backup = async (id: string) => {
+    const entries = await modules.workspace.scanWorkspaceFiles({ root: sourceDir });
+    const result = await modules.snapshots.createSnapshot(entries, { id, root: sourceDir });
+    expect(result.success, `backup ${id} failed: ${result.error}`);
+    return result.snapshot!;
+  };
+
+  const restoreTo = (id: string, target: string, options: { paths?: string[]; force?: boolean } = {}) =>
+    modules.restore.restore(id, { targetDir: path.join(workDir, target), ...options });
+
+  const expectRestored = async (report: RestoreReport, target: string, digests: Map<string, string>) => {
+    expect(report.success, `restore failed: ${report.message}`);
+    for (const [filePath, digest] of digests) {
+      const restored = await sha256File(path.join(workDir, target, filePath));
+      expect(restored === digest, `${filePath} restored as ${restored}, expected ${digest}`);
+    }
+  };
+
+  return [
+    ['Set up a workspace backed up to a local destination', async () => {
+      process.chdir(workDir);
+      modules = await loadModules();
+      await modules.admin.updateConfig({
+        destinations: [{ id: 'dest-check', name: 'Check', type: 'local', enabled: true, priority: 1, settings: { folder: storeDir } }],
+      });
+      for (const file of FILES) {
+        await writeRandomFile(path.join(sourceDir, file.path), file.size);
+        originals.set(file.path, await sha256File(path.join(sourceDir, file.path)));
+      }
+    }],
+    ['Every file restores byte for byte with its mtime', async () => {
+      first = (await backup('backup-check-1')).id;
+      const report = await restoreTo(first, 'restore-1');
+      await expectRestored(report, 'restore-1', originals);
+      expect(report.files.every(f => f.status === 'restored'), `statuses: ${report.files.map(f => f.status).join(', ')}`);
+
+      const source = await fs.stat(path.join(sourceDir, FILES[2].path));
+      const restored = await fs.stat(path.join(workDir, 'restore-1', FILES[2].path));
+      expect(source.mtime.getTime() === restored.mtime.getTime(), `mtime ${restored.mtime.toISOString()}, expected ${source.mtime.toISOString()}`);
+    }],
+    ['A later snapshot uploads only changed content; both restore their own state', async () => {
+      await writeRandomFile(path.join(sourceDir, FILES[0].path), FILES[0].size + 1);
+      const snapshot = await backup('backup-check-2');
+      second = snapshot.id;
+      expect(snapshot.stats.uploadedObjects === 1, `${snapshot.stats.uploadedObjects} objects uploaded, expected 1`);
+
+      const changed = new Map(originals).set(FILES[0].path, await sha256File(path.join(sourceDir, FILES[0].path)));
+      await expectRestored(await restoreTo(second, 'restore-2'), 'restore-2', changed);
+      await expectRestored(await restoreTo(first, 'restore-3'), 'restore-3', originals);
+    }],
+    ['Changed files are refused without --force and replaced with it', async () => {
+      await writeRandomFile(path.join(workDir, 'restore-1', FILES[3].path), 10);
+      const refused = await restoreTo(first, 'restore-1');
+      expect(!refused.success, 'restore over a changed file succeeded without --force');
+      expect(statusOf(refused, FILES[3].path) === 'conflict', `${FILES[3].path} is ${statusOf(refused, FILES[3].path)}, expected conflict`);
+
+      const forced = await restoreTo(first, 'restore-1', { force: true });
+      await expectRestored(forced, 'restore-1', originals);
+      expect(statusOf(forced, FILES[3].path) === 'restored', `${FILES[3].path} is ${statusOf(forced, FILES[3].path)}, expected restored`);
+      expect(statusOf(forced, FILES[0].path) === 'unchanged', `${FILES[0].path} is ${statusOf(forced, FILES[0].path)}, expected unchanged`);
+    }],
+    ['Picked paths restore alone; unmatched selectors are reported', async () => {
+      const report = await restoreTo(first, 'restore-4', { paths: ['docs/', 'missing/'] });
+      const restored = report.files.map(f => f.path).sort();
+      expect(restored.join() === [FILES[3].path, FILES[2].path].join(), `restored ${restored.join(', ')}`);
+      expect(report.unmatched.join() === 'missing/', `unmatched: ${report.unmatched.join(', ')}`);
+    }],
+    ['A damaged object is reported as corrupt', async () => {
+      const object = (await modules.snapshots.loadSnapshot(first))!.files.find(f => f.path === FILES[4].path)!;
+      const objectFile = path.join(storeDir, object.object ?? modules.snapshots.objectPath(object.checksum));
+      const content = await fs.readFile(objectFile);
+      content[content.length >> 1] ^= 0xff;
+      await fs.writeFile(objectFile, content);
+
+      const report = await restoreTo(first, 'restore-5', { paths: [FILES[4].path] });
+      expect(!report.success, 'restore of a damaged object succeeded');
+      expect(statusOf(report, FILES[4].path) === 'corrupt', `${FILES[4].path} is ${statusOf(report, FILES[4].path)}, expected corrupt`);
+    }],
+  ];
+});
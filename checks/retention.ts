@@ -0,0 +1,123 @@
+/**
+ * Retention
+ * Runs garbage collection over a local destination with job records, signals,
+ * a burn package and two backups, forty days on: a dry run lists what a real
+ * run then deletes, and running jobs, recent records, the newest snapshot and
+ * objects it still references are kept
+ *
+ *   npm run check:retention
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createManifest, transitionState, JobStatus } from '../src/core/manifest';
+import type { GcReport } from '../src/core/retention';
+import { runChecks, expect, writeRandomFile } from './check';
+
+const DAY = 24 * 60 * 60 * 1000;
+const RETENTION_DAYS = 30;
+// The collection runs this far ahead, so anything written by the check has expired
+// unless it is dated later on purpose
+const NOW = new Date(Date.now() + 40 * DAY);
+const RECENT = new Date(Date.now() + 20 * DAY);
+
+// admin.ts fixes the data/ folder when it loads, so the modules under test are
+// loaded only once the check has moved into its scratch directory
+async function loadModules() {
+  return {
+    admin: await import('../src/core/admin'),
+    storage: await import('../src/core/storage'),
+    workspace: await import('../src/core/workspace'),
+    snapshots: await import('../src/core/snapshots'),
+    retention: await import('../src/core/retention'),
+  };
+}
+
+function paths(report: GcReport): string[] {
+  return report.items.map(i => i.path).sort();
+}
+
+runChecks('RETENTION', workDir => {
+  const storeDir = path.join(workDir, 'store');
+  const sourceDir = path.join(workDir, 'workspace');
+  let modules: Awaited<ReturnType<typeof loadModules>>;
+  let expected: string[] = [];
+  let keptObject: string;
+  let dryRun: GcReport;
+
+  const writeJob = async (jobId: string, states: JobStatus[], updated?: Date) => {
+    const manifest = createManifest({ jobId, files: ['notes.txt'] });
+    states.forEach(state => transitionState(manifest, state, 'check'));
+    if (updated) manifest.job.updated = updated.toISOString();
+    await modules.storage.uploadFile(`jobs/${jobId}/manifest.json`, JSON.stringify(manifest));
+  };
+
+  const backup = async (id: string) => {
+    const entries = await modules.workspace.scanWorkspaceFiles({ root: sourceDir });
+    const result = await modules.snapshots.createSnapshot(entries, { id, root: sourceDir });
+    expect(result.success, `backup ${id} failed: ${result.error}`);
+    return result.snapshot!;
+  };
+
+  const exists = (stored: string) => fs.stat(path.join(storeDir, stored)).then(() => true, () => false);
+
+  return [
+    ['Fill a local destination with records of every kind', async () => {
+      process.chdir(workDir);
+      modules = await loadModules();
+      const { policies } = await modules.admin.getConfig();
+      await modules.admin.updateConfig({
+        destinations: [{ id: 'dest-check', name: 'Check', type: 'local', enabled: true, priority: 1, settings: { folder: storeDir } }],
+        policies: { ...policies, retentionDays: RETENTION_DAYS },
+      });
+
+      await writeJob('burn-check-complete', ['pending', 'queued', 'downloading', 'burning', 'verifying', 'complete']);
+      await writeJob('burn-check-burning', ['pending', 'queued', 'downloading', 'burning']);
+      await writeJob('burn-check-recent', ['cancelled'], RECENT);
+      await modules.storage.uploadFile('status/burn-check-complete.json', '{}');
+      await modules.storage.uploadFile('status/burn-check-recent.json', '{}');
+      await fs.utimes(path.join(storeDir, 'status/burn-check-recent.json'), RECENT, RECENT);
+      await modules.storage.uploadFile('signals/android.json', JSON.stringify({ queue: [{ timestamp: Date.now() }, { timestamp: RECENT.getTime() }] }));
+      await modules.storage.uploadFile('burn-ready/package-check/BURN_PACKAGE.json', JSON.stringify({ id: 'package-check', created: new Date().toISOString() }));
+
+      await writeRandomFile(path.join(sourceDir, 'kept.txt'), 700);
+      await writeRandomFile(path.join(sourceDir, 'dropped.txt'), 800);
+      const first = await backup('backup-check-1');
+      await fs.rm(path.join(sourceDir, 'dropped.txt'));
+      const newest = await backup('backup-check-2');
+      keptObject = newest.files[0].object!;
+
+      expected = [
+        'jobs/burn-check-complete',
+        'status/burn-check-complete.json',
+        'signals/android.json',
+        'burn-ready/package-check',
+        'snapshots/backup-check-1.json',
+        first.files.find(f => f.path === 'dropped.txt')!.object!,
+      ].sort();
+    }],
+    ['A dry run lists what has expired and deletes nothing', async () => {
+      dryRun = await modules.retention.collectGarbage({ dryRun: true, now: NOW });
+      expect(paths(dryRun).join() === expected.join(), `dry run listed ${paths(dryRun).join(', ')}; expected ${expected.join(', ')}`);
+      for (const item of dryRun.items) {
+        expect(!item.deleted && (await exists(item.path)), `dry run removed ${item.path}`);
+      }
+    }],
+    ['A real run deletes the same items', async () => {
+      const report = await modules.retention.collectGarbage({ now: NOW });
+      expect(paths(report).join() === paths(dryRun).join(), `deleted ${paths(report).join(', ')}`);
+      const failed = report.items.filter(i => !i.deleted);
+      expect(failed.length === 0, `not deleted: ${failed.map(i => `${i.path} (${i.error})`).join(', ')}`);
+      for (const item of report.items.filter(i => i.category !== 'signals')) {
+        expect(!(await exists(item.path)), `${item.path} is still stored`);
+      }
+    }],
+    ['Running jobs, recent records, the newest snapshot and its objects are kept', async () => {
+      for (const stored of ['jobs/burn-check-burning', 'jobs/burn-check-recent', 'status/burn-check-recent.json', 'snapshots/backup-check-2.json', keptObject]) {
+        expect(await exists(stored), `${stored} was deleted`);
+      }
+      const signals = JSON.parse((await modules.storage.readFile('signals/android.json'))!);
+      expect(signals.queue.length === 1 && signals.queue[0].timestamp === RECENT.getTime(), `signal queue kept ${signals.queue.length} entries`);
+    }],
+  ];
+});
@@ -0,0 +1,67 @@
+/**
+ * Retry Policy
+ * Error classification from the marks errors carry, exponential backoff with
+ * bounded jitter, and the retry, hold and dead-letter decisions taken after a
+ * failed attempt
+ *
+ *   npm run check:retry
+ */
+
+import { createManifest, BurnManifest } from '../src/core/manifest';
+import { classifyError, backoffDelay, decideRetry, DEFAULT_RETRY_POLICY, ErrorKind } from '../src/core/retry-policy';
+import { runChecks, expect } from './check';
+
+const CLASSIFIED: [label: string, error: unknown, kind: ErrorKind][] = [
+  ['marked permanent', Object.assign(new Error('Manifest not found'), { permanent: true }), 'permanent'],
+  ['missing file', Object.assign(new Error('gone'), { code: 'ENOENT' }), 'permanent'],
+  ['no signal secret', Object.assign(new Error('unsigned'), { code: 'ENOSIGNALSECRET' }), 'permanent'],
+  ['HTTP 403', Object.assign(new Error('forbidden'), { statusCode: 403 }), 'permanent'],
+  ['HTTP 404 as status', Object.assign(new Error('not found'), { status: 404 }), 'permanent'],
+  ['HTTP 503', Object.assign(new Error('unavailable'), { statusCode: 503 }), 'transient'],
+  ['connection reset', Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }), 'transient'],
+  ['unmarked message that sounds permanent', new Error('permission denied: file not found'), 'transient'],
+  ['permanent: "yes" is no mark', Object.assign(new Error('x'), { permanent: 'yes' }), 'transient'],
+  ['thrown string', 'drive tray open', 'transient'],
+  ['undefined', undefined, 'transient'],
+];
+
+function manifestWithRetries(retryCount: number, maxRetries: number = 3): BurnManifest {
+  const manifest = createManifest({ jobId: 'burn-2026-check', files: ['notes.txt'] });
+  manifest.lifecycle.retryCount = retryCount;
+  manifest.lifecycle.maxRetries = maxRetries;
+  return manifest;
+}
+
+runChecks('RETRY POLICY', () => [
+  ['Errors are classified by their marks, never by their message', async () => {
+    for (const [label, error, kind] of CLASSIFIED) {
+      expect(classifyError(error) === kind, `${label} classified ${classifyError(error)}, expected ${kind}`);
+    }
+  }],
+  ['Backoff doubles per retry and stops at the cap', async () => {
+    const noJitter = () => 0.5;
+    const delays = [1, 2, 3, 4].map(retry => backoffDelay(retry, DEFAULT_RETRY_POLICY, noJitter));
+    expect(delays.join() === [30, 60, 120, 240].map(s => s * 1000).join(), `delays ${delays.join(', ')}`);
+    expect(backoffDelay(20, DEFAULT_RETRY_POLICY, noJitter) === DEFAULT_RETRY_POLICY.maxDelayMs, 'delay is not capped');
+  }],
+  ['Jitter stays within the configured spread', async () => {
+    const base = DEFAULT_RETRY_POLICY.baseDelayMs;
+    const spread = base * DEFAULT_RETRY_POLICY.jitter;
+    expect(backoffDelay(1, DEFAULT_RETRY_POLICY, () => 0) === base - spread, 'lowest jitter out of range');
+    expect(backoffDelay(1, DEFAULT_RETRY_POLICY, () => 0.999999) <= base + spread, 'highest jitter out of range');
+  }],
+  ['Transient failures retry until maxRetries, then dead-letter', async () => {
+    const first = decideRetry(manifestWithRetries(0), 'transient', true);
+    expect(first.action === 'retry' && first.retry === 1, `first failure: ${JSON.stringify(first)}`);
+    const last = decideRetry(manifestWithRetries(2), 'transient', true);
+    expect(last.action === 'retry' && last.retry === 3, `third failure: ${JSON.stringify(last)}`);
+    const exhausted = decideRetry(manifestWithRetries(3), 'transient', true);
+    expect(exhausted.action === 'dead_letter', `exhausted retries: ${exhausted.action}`);
+  }],
+  ['Permanent failures dead-letter at once; auto-retry off holds the job', async () => {
+    const permanent = decideRetry(manifestWithRetries(0), 'permanent', true);
+    expect(permanent.action === 'dead_letter', `permanent failure: ${permanent.action}`);
+    const held = decideRetry(manifestWithRetries(0), 'transient', false);
+    expect(held.action === 'hold', `auto-retry off: ${held.action}`);
+  }],
+]);
@@ -0,0 +1,107 @@
+/**
+ * Snapshot Diff
+ * Compares file sets: two hand-made sides, two backups of a generated
+ * workspace, and a backup against the live workspace after an edit that
+ * keeps the file size
+ *
+ *   npm run check:diff
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { DiffSide, SnapshotDiff } from '../src/core/snapshot-diff';
+import { runChecks, expect, writeRandomFile } from './check';
+
+// admin.ts fixes the data/ folder when it loads, so the modules under test are
+// loaded only once the check has moved into its scratch directory
+async function loadModules() {
+  return {
+    admin: await import('../src/core/admin'),
+    workspace: await import('../src/core/workspace'),
+    snapshots: await import('../src/core/snapshots'),
+    diff: await import('../src/core/snapshot-diff'),
+  };
+}
+
+function side(id: string, files: Record<string, { size: number; checksum?: string }>): DiffSide {
+  return { id, kind: 'snapshot', created: new Date().toISOString(), files: new Map(Object.entries(files)) };
+}
+
+function changed(diff: SnapshotDiff): string {
+  return [
+    ...diff.added.map(c => `+${c.path}`),
+    ...diff.removed.map(c => `-${c.path}`),
+    ...diff.modified.map(c => `~${c.path}`),
+  ].join(' ');
+}
+
+runChecks('SNAPSHOT DIFF', workDir => {
+  let modules: Awaited<ReturnType<typeof loadModules>>;
+
+  // The scratch directory is the workspace; data/ is left out of every scan
+  const backup = async (id: string) => {
+    const entries = await modules.workspace.scanWorkspaceFiles();
+    const result = await modules.snapshots.createSnapshot(entries, { id });
+    expect(result.success, `backup ${id} failed: ${result.error}`);
+  };
+
+  const diffOf = async (fromRef: string, toRef?: string) => {
+    const diff = await modules.diff.diffSnapshots(fromRef, toRef);
+    expect(typeof diff !== 'string', `diff failed: ${diff}`);
+    return diff as SnapshotDiff;
+  };
+
+  return [
+    ['Set up a scratch workspace backed up to a local destination', async () => {
+      process.chdir(workDir);
+      modules = await loadModules();
+      await modules.admin.updateConfig({
+        destinations: [{ id: 'dest-check', name: 'Check', type: 'local', enabled: true, priority: 1, settings: { folder: path.join(workDir, 'data', 'store') } }],
+      });
+    }],
+    ['Added, removed, modified and unchanged files are told apart', async () => {
+      const diff = modules.diff.diffSides(
+        side('from', { 'same.txt': { size: 5, checksum: 'a' }, 'edited.txt': { size: 5, checksum: 'b' }, 'gone.txt': { size: 7, checksum: 'c' } }),
+        side('to', { 'same.txt': { size: 5, checksum: 'a' }, 'edited.txt': { size: 5, checksum: 'B' }, 'new.txt': { size: 11, checksum: 'd' } })
+      );
+      expect(changed(diff) === '+new.txt -gone.txt ~edited.txt', `changes: ${changed(diff)}`);
+      expect(diff.unchanged === 1, `${diff.unchanged} unchanged, expected 1`);
+      expect(diff.sizeDelta === 4, `size delta ${diff.sizeDelta}, expected 4`);
+    }],
+    ['Without digests on both sides only the size can tell', async () => {
+      const diff = modules.diff.diffSides(
+        side('from', { 'resized.txt': { size: 5 }, 'same-size.txt': { size: 5, checksum: 'a' } }),
+        side('to', { 'resized.txt': { size: 6, checksum: 'x' }, 'same-size.txt': { size: 5 } })
+      );
+      expect(changed(diff) === '~resized.txt', `changes: ${changed(diff)}`);
+    }],
+    ['Two backups of a workspace diff by content', async () => {
+      await writeRandomFile(path.join(workDir, 'notes.txt'), 900);
+      await writeRandomFile(path.join(workDir, 'docs/report.pdf'), 4096);
+      await writeRandomFile(path.join(workDir, 'old.log'), 100);
+      await backup('backup-check-1');
+
+      await writeRandomFile(path.join(workDir, 'docs/report.pdf'), 5000);
+      await writeRandomFile(path.join(workDir, 'photos/beach.jpg'), 2048);
+      await fs.rm(path.join(workDir, 'old.log'));
+      await backup('backup-check-2');
+
+      const diff = await diffOf('backup-check-1', 'latest');
+      expect(changed(diff) === '+photos/beach.jpg -old.log ~docs/report.pdf', `changes: ${changed(diff)}`);
+      expect(diff.to.id === 'backup-check-2', `latest resolved to ${diff.to.id}`);
+    }],
+    ['A same-size edit in the workspace is found by its digest', async () => {
+      await writeRandomFile(path.join(workDir, 'notes.txt'), 900);
+      const diff = await diffOf('latest');
+      expect(changed(diff) === '~notes.txt', `changes: ${changed(diff)}`);
+      expect(diff.to.kind === 'workspace' && diff.unchanged === 2, `${diff.to.kind}, ${diff.unchanged} unchanged`);
+
+      const reversed = await diffOf('workspace', 'latest');
+      expect(changed(reversed) === '~notes.txt' && reversed.from.kind === 'workspace', `reversed: ${changed(reversed)} from ${reversed.from.kind}`);
+    }],
+    ['An unknown reference is reported', async () => {
+      const result = await modules.diff.diffSnapshots('backup-missing', 'latest');
+      expect(typeof result === 'string' && result.includes('backup-missing'), `unknown reference gave ${typeof result}`);
+    }],
+  ];
+});
@@ -0,0 +1,131 @@
+/**
+ * Verify Against Manifest
+ * Runs the post-burn verification against manifest digests of a generated
+ * file set: an intact image, a directory standing in for a mounted disc, a
+ * damaged image, files without digests or missing from the manifest, and an
+ * encrypted disc
+ *
+ *   npm run check:verify
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { writeIsoImage } from '../src/core/iso9660';
+import { ImageEntry } from '../src/core/disc-image';
+import { readImageFiles } from '../src/core/image-reader';
+import { sha256File } from '../src/core/checksum';
+import { PayloadFile } from '../src/core/manifest';
+import type { VerificationReport } from '../src/core/verify';
+import { runChecks, expect, writeRandomFile } from './check';
+
+const VOLUME_LABEL = 'DiscBurn_Verify';
+
+const FILES = [
+  { path: 'notes.txt', size: 900 },
+  { path: 'photos/2024/beach.jpg', size: 2 * 1024 * 1024 + 5 },
+  { path: 'photos/2024/hills.jpg', size: 700 * 1024 },
+];
+
+// admin.ts fixes the data/ folder when it loads, and sealing a disc records the
+// install's key salt there, so these load once the check is in its scratch directory
+async function loadModules() {
+  return {
+    verify: await import('../src/core/verify'),
+    sealedDisc: await import('../src/core/sealed-disc'),
+  };
+}
+
+function statusOf(report: VerificationReport, filePath: string): string | undefined {
+  return report.files.find(f => f.path === filePath)?.status;
+}
+
+runChecks('VERIFY AGAINST MANIFEST', workDir => {
+  const sourceDir = path.join(workDir, 'source');
+  const imagePath = path.join(workDir, 'disc.iso');
+  const entries: ImageEntry[] = FILES.map(f => ({ path: f.path, size: f.size, sourcePath: path.join(sourceDir, f.path) }));
+  let payload: PayloadFile[] = [];
+  let modules: Awaited<ReturnType<typeof loadModules>>;
+
+  const expectPassed = (report: VerificationReport) => {
+    const failures = report.files.filter(f => f.status !== 'ok').map(f => `${f.path}: ${f.status}`);
+    expect(report.passed, `verification failed: ${report.reason || failures.join(', ')}`);
+    expect(report.checked === FILES.length, `checked ${report.checked} files, expected ${FILES.length}`);
+  };
+
+  return [
+    ['Generate source files and manifest digests', async () => {
+      process.chdir(workDir);
+      modules = await loadModules();
+      for (const file of FILES) {
+        await writeRandomFile(path.join(sourceDir, file.path), file.size);
+      }
+      payload = await Promise.all(FILES.map(async f => ({
+        path: f.path,
+        size: f.size,
+        checksum: await sha256File(path.join(sourceDir, f.path)),
+        include: true,
+      })));
+      await writeIsoImage(entries, imagePath, { volumeLabel: VOLUME_LABEL });
+    }],
+    ['Intact image passes', async () => {
+      expectPassed(await modules.verify.verifyBurn(imagePath, payload));
+    }],
+    ['Mounted disc (directory) passes', async () => {
+      expectPassed(await modules.verify.verifyBurn(sourceDir, payload));
+    }],
+    ['Flipped byte in the image is a mismatch for that file only', async () => {
+      const damagedPath = path.join(workDir, 'damaged.iso');
+      await fs.copyFile(imagePath, damagedPath);
+      const target = (await readImageFiles(damagedPath)).files.find(f => f.path === FILES[1].path);
+      const extent = target?.extents.find(e => 'offset' in e);
+      expect(extent && 'offset' in extent, `no on-disc extent for ${FILES[1].path}`);
+
+      const handle = await fs.open(damagedPath, 'r+');
+      try {
+        const byte = Buffer.alloc(1);
+        const offset = extent.offset + Math.floor(extent.length / 2);
+        await handle.read(byte, 0, 1, offset);
+        byte[0] ^= 0xff;
+        await handle.write(byte, 0, 1, offset);
+      } finally {
+        await handle.close();
+      }
+
+      const report = await modules.verify.verifyBurn(damagedPath, payload);
+      expect(!report.passed, 'damaged image passed verification');
+      expect(statusOf(report, FILES[1].path) === 'mismatch', `${FILES[1].path} is ${statusOf(report, FILES[1].path)}, expected mismatch`);
+      expect(report.failed === 1, `${report.failed} files failed, expected 1`);
+    }],
+    ['Manifest entries absent or resized on disc are reported', async () => {
+      const report = await modules.verify.verifyBurn(imagePath, [
+        ...payload.map(f => (f.path === FILES[0].path ? { ...f, size: f.size! + 1 } : f)),
+        { path: 'not-on-disc.txt', size: 1, checksum: payload[0].checksum, include: true },
+      ]);
+      expect(!report.passed, 'verification passed with a missing file');
+      expect(statusOf(report, 'not-on-disc.txt') === 'missing', `not-on-disc.txt is ${statusOf(report, 'not-on-disc.txt')}, expected missing`);
+      expect(statusOf(report, FILES[0].path) === 'size_mismatch', `${FILES[0].path} is ${statusOf(report, FILES[0].path)}, expected size_mismatch`);
+    }],
+    ['File without a recorded digest fails as unverified', async () => {
+      const report = await modules.verify.verifyBurn(imagePath, payload.map(f => (f.path === FILES[0].path ? { ...f, checksum: undefined } : f)));
+      expect(!report.passed, 'verification passed without a digest');
+      expect(statusOf(report, FILES[0].path) === 'unverified', `${FILES[0].path} is ${statusOf(report, FILES[0].path)}, expected unverified`);
+    }],
+    ['File on disc but not in the manifest is reported', async () => {
+      const report = await modules.verify.verifyBurn(sourceDir, payload.filter(f => f.path !== FILES[2].path));
+      expect(!report.passed, 'verification passed with an unlisted file on disc');
+      expect(statusOf(report, FILES[2].path) === 'unexpected', `${FILES[2].path} is ${statusOf(report, FILES[2].path)}, expected unexpected`);
+      expect(report.failed === 1, `${report.failed} files failed, expected 1`);
+    }],
+    ['Encrypted disc passes through its decrypted image', async () => {
+      process.env.DISCBURN_PASSPHRASE = process.env.DISCBURN_PASSPHRASE || 'discburn-check';
+      const sealedPath = path.join(workDir, 'disc.sealed');
+      const discEntries = await modules.sealedDisc.sealDiscImage(imagePath, sealedPath, VOLUME_LABEL, await modules.sealedDisc.discEncryptionKey());
+      const discPath = path.join(workDir, 'encrypted.iso');
+      await writeIsoImage(discEntries, discPath, { volumeLabel: VOLUME_LABEL });
+
+      const report = await modules.verify.verifyBurn(discPath, payload, { encrypted: true });
+      expectPassed(report);
+      expect(report.encrypted, 'report does not mark the disc as encrypted');
+    }],
+  ];
+});
@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+
+import { listOneDriveFiles, readOneDriveJson } from "@/utils/onedrive";
+
+export interface JobTransfer {
+  phase: string;
+  label: string;
+  bytesDone: number;
+  bytesTotal: number;
+  percent: number;
+  currentFile?: string;
+  filesDone: number;
+  filesTotal: number;
+  bytesPerSecond: number;
+  etaSeconds: number | null;
+  done: boolean;
+}
+
+export interface JobProgress {
+  jobId: string;
+  status: string;
+  progress: number;
+  volume?: number;
+  totalVolumes?: number;
+  transfer?: JobTransfer;
+  updated: string;
+}
+
+const ACTIVE_STATUSES = ["queued", "downloading", "burning", "paused", "verifying"];
+const POLL_INTERVAL_MS = 5000;
+
+// The newest status/<jobId>.json the burner wrote, while that job is still running
+async function fetchActiveJob(): Promise<JobProgress | null> {
+  const files = await listOneDriveFiles("/DiscBurn/status");
+  const newest = files
+    .filter((f) => !f.folder && f.name?.endsWith(".json"))
+    .sort((a, b) => (b.lastModifiedDateTime || "").localeCompare(a.lastModifiedDateTime || ""))[0];
+  if (!newest) return null;
+
+  const job = await readOneDriveJson<JobProgress>(`/DiscBurn/status/${newest.name}`);
+  return job && ACTIVE_STATUSES.includes(job.status) ? job : null;
+}
+
+export function useJobProgress() {
+  const [job, setJob] = useState<JobProgress | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const poll = async () => {
+      const active = await fetchActiveJob().catch(() => null);
+      if (!cancelled) setJob(active);
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  return job;
+}
@@ -17,7 +17,68 @@ import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius } from "@/constants/theme";
+import { useJobProgress, JobProgress } from "@/hooks/useJobProgress";
 import { parseCommandWithLLM, executeCommand, CommandResult } from "@/utils/commandProcessor";
+import { formatFileSize } from "@/utils/storage";
+
+function formatEta(seconds: number | null): string {
+  if (seconds === null) return "--:--";
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${String(s).padStart(2, "0")}`;
+}
+
+function JobProgressView({ job }: { job: JobProgress }) {
+  const { theme } = useTheme();
+  const transfer = job.transfer;
+  const percent = transfer ? transfer.percent : job.progress;
+  const disc = job.totalVolumes ? ` (disc ${job.volume} of ${job.totalVolumes})` : "";
+
+  return (
+    <View
+      style={[
+        styles.progressContainer,
+        { backgroundColor: theme.backgroundSecondary, borderColor: theme.border },
+      ]}
+    >
+      <View style={styles.progressHeader}>
+        <ThemedText style={styles.progressTitle}>
+          {job.jobId}
+          {disc}
+        </ThemedText>
+        <ThemedText style={[styles.progressText, { color: theme.link }]}>
+          {transfer ? transfer.label : job.status} {percent}%
+        </ThemedText>
+      </View>
+      <View style={[styles.progressTrack, { backgroundColor: theme.backgroundDefault }]}>
+        <View
+          style={[
+            styles.progressFill,
+            { width: `${percent}%`, backgroundColor: theme.link },
+          ]}
+        />
+      </View>
+      {transfer ? (
+        <>
+          <ThemedText style={[styles.progressText, { color: theme.textSecondary }]}>
+            {formatFileSize(transfer.bytesDone)} / {formatFileSize(transfer.bytesTotal)}
+            {"  "}
+            {formatFileSize(transfer.bytesPerSecond)}/s  ETA {formatEta(transfer.etaSeconds)}
+          </ThemedText>
+          {transfer.currentFile ? (
+            <ThemedText
+              style={[styles.progressText, { color: theme.textSecondary }]}
+              numberOfLines={1}
+              ellipsizeMode="head"
+            >
+              {transfer.currentFile}
+            </ThemedText>
+          ) : null}
+        </>
+      ) : null}
+    </View>
+  );
+}
 
 interface HistoryItem {
   id: string;
@@ -41,6 +102,7 @@ export default function CommandScreen() {
     },
   ]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const activeJob = useJobProgress();
   const scrollViewRef = useRef<ScrollView>(null);
 
   useEffect(() => {
@@ -150,6 +212,8 @@ export default function CommandScreen() {
           ) : null}
         </ScrollView>
 
+        {activeJob ? <JobProgressView job={activeJob} /> : null}
+
         <View
           style={[
             styles.inputContainer,
@@ -266,6 +330,37 @@ const styles = StyleSheet.create({
     fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
     fontSize: 14,
   },
+  progressContainer: {
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.md,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderRadius: BorderRadius.sm,
+    gap: Spacing.xs,
+  },
+  progressHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: Spacing.sm,
+  },
+  progressTitle: {
+    fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
+    fontSize: 14,
+    fontWeight: "700",
+    flexShrink: 1,
+  },
+  progressText: {
+    fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
+    fontSize: 12,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+  },
   inputContainer: {
     borderTopWidth: 1,
     paddingTop: Spacing.md,
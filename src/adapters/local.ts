@@ -0,0 +1,165 @@
+/**
+ * Local Filesystem Adapter
+ * Same surface as the OneDrive adapter, backed by a local folder
+ * Folder paths use the OneDrive form: '/DiscBurn/pending' maps to <folder>/pending
+ *
+ * Every function takes the destination folder, so several local destinations
+ * can be used side by side; configureLocal only sets the default.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+
+export interface LocalConfig {
+  folder: string;
+}
+
+const DRIVE_ROOT = '/DiscBurn';
+
+let config: LocalConfig = {
+  folder: path.join(process.cwd(), 'data', 'discburn'),
+};
+
+export function configureLocal(newConfig: Partial<LocalConfig>) {
+  config = { ...config, ...newConfig };
+}
+
+export function getLocalFolder(folder: string = config.folder): string {
+  return path.resolve(folder);
+}
+
+function resolveLocalPath(fileName: string, folder: string): string {
+  const root = getLocalFolder(folder);
+  const fullPath = path.resolve(root, fileName.replace(/^[\\/]+/, ''));
+  if (fullPath !== root && !fullPath.startsWith(root + path.sep)) {
+    throw Object.assign(new Error(`Path escapes local destination: ${fileName}`), { permanent: true });
+  }
+  return fullPath;
+}
+
+export async function uploadToLocal(fileName: string, content: Buffer | string, folder: string = config.folder): Promise<string> {
+  const fullPath = resolveLocalPath(fileName, folder);
+  await fs.mkdir(path.dirname(fullPath), { recursive: true });
+
+  // Write then rename so readers never see a partial file; temp names are unique, so
+  // concurrent writers in one process never share one
+  const tempPath = `${fullPath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, content);
+  await fs.rename(tempPath, fullPath);
+
+  return `Saved locally: ${fullPath}`;
+}
+
+export async function uploadPathToLocal(
+  fileName: string,
+  sourcePath: string,
+  onProgress?: (bytesSent: number, totalBytes: number) => void,
+  folder: string = config.folder
+): Promise<string> {
+  const fullPath = resolveLocalPath(fileName, folder);
+  await fs.mkdir(path.dirname(fullPath), { recursive: true });
+
+  const tempPath = `${fullPath}.${randomUUID()}.tmp`;
+  await fs.copyFile(sourcePath, tempPath);
+  await fs.rename(tempPath, fullPath);
+
+  const { size } = await fs.stat(fullPath);
+  onProgress?.(size, size);
+  return `Saved locally: ${fullPath}`;
+}
+
+// Create-if-absent: the hard link fails atomically when the name is taken
+export async function createOnLocal(fileName: string, content: Buffer | string, folder: string = config.folder): Promise<boolean> {
+  const fullPath = resolveLocalPath(fileName, folder);
+  await fs.mkdir(path.dirname(fullPath), { recursive: true });
+
+  const tempPath = `${fullPath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, content);
+  try {
+    await fs.link(tempPath, fullPath);
+    return true;
+  } catch (error: any) {
+    if (error.code === 'EEXIST') {
+      return false;
+    }
+    throw error;
+  } finally {
+    await fs.rm(tempPath, { force: true });
+  }
+}
+
+export async function listLocalFiles(folderPath: string = DRIVE_ROOT, folder: string = config.folder): Promise<any[]> {
+  const relative = folderPath.startsWith(DRIVE_ROOT) ? folderPath.slice(DRIVE_ROOT.length) : folderPath;
+  const dir = resolveLocalPath(relative, folder);
+
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const items = [];
+    for (const entry of entries) {
+      if (entry.name.endsWith('.tmp')) continue;
+      const stats = await fs.stat(path.join(dir, entry.name));
+      items.push({
+        name: entry.name,
+        size: stats.size,
+        lastModifiedDateTime: stats.mtime.toISOString(),
+        ...(entry.isDirectory() ? { folder: { childCount: (await fs.readdir(path.join(dir, entry.name))).length } } : { file: {} }),
+      });
+    }
+    return items;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+export async function checkLocalConnection(folder: string = config.folder): Promise<boolean> {
+  const root = getLocalFolder(folder);
+  try {
+    await fs.mkdir(root, { recursive: true });
+    await fs.access(root, fs.constants.W_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function readFromLocal(fileName: string, folder: string = config.folder): Promise<string | null> {
+  try {
+    return await fs.readFile(resolveLocalPath(fileName, folder), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+export async function readBinaryFromLocal(fileName: string, folder: string = config.folder): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(resolveLocalPath(fileName, folder));
+  } catch {
+    return null;
+  }
+}
+
+// Copies a stored file out to targetPath; false when it does not exist
+export async function downloadFromLocal(fileName: string, targetPath: string, folder: string = config.folder): Promise<boolean> {
+  try {
+    await fs.copyFile(resolveLocalPath(fileName, folder), targetPath);
+    return true;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export async function deleteFromLocal(fileName: string, folder: string = config.folder): Promise<boolean> {
+  try {
+    await fs.rm(resolveLocalPath(fileName, folder), { recursive: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
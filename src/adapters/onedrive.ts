@@ -1,8 +1,66 @@
-import { Client } from '@microsoft/microsoft-graph-client';
+/**
+ * OneDrive Adapter
+ * Microsoft Graph access to the DiscBurn folder of the connected OneDrive
+ *
+ * Content up to 4 MB goes in a single PUT. Anything larger goes through a
+ * resumable upload session in fixed-size chunks; the session is kept in
+ * data/onedrive-uploads.json under the destination path and content digest, so
+ * an interrupted upload of the same content carries on from the last byte
+ * range Graph confirmed, even from a rebuilt copy of the file. graphUrl and
+ * accessToken point the adapter at a local Graph stand-in for testing.
+ *
+ * Every function takes the drive settings, so destinations with different
+ * settings can be used side by side; configureOneDrive only sets the default.
+ */
+
+import * as fs from 'fs/promises';
+import * as nodePath from 'path';
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Client, ResponseType } from '@microsoft/microsoft-graph-client';
+
+export interface OneDriveConfig {
+  graphUrl: string;
+  accessToken?: string;
+  chunkSize: number;
+  sessionFile: string;
+}
+
+export type UploadProgressCallback = (bytesSent: number, totalBytes: number) => void;
+
+// Graph accepts chunks in multiples of 320 KiB, and simple uploads up to 4 MB
+const CHUNK_UNIT = 320 * 1024;
+const SIMPLE_UPLOAD_LIMIT = 4 * 1024 * 1024;
+const MAX_CHUNK_RETRIES = 5;
+const RETRY_DELAY_MS = 1000;
+// Same form as the payload checksums in the manifest
+const DIGEST_PREFIX = 'sha256:';
+
+let config: OneDriveConfig = {
+  graphUrl: 'https://graph.microsoft.com',
+  chunkSize: 32 * CHUNK_UNIT,
+  sessionFile: nodePath.join(process.cwd(), 'data', 'onedrive-uploads.json'),
+};
+
+// Settings over the defaults, with the chunk size rounded to what Graph accepts
+export function oneDriveConfig(overrides: Partial<OneDriveConfig>): OneDriveConfig {
+  const merged = { ...config, ...overrides };
+  return { ...merged, chunkSize: Math.max(CHUNK_UNIT, Math.floor(merged.chunkSize / CHUNK_UNIT) * CHUNK_UNIT) };
+}
+
+export function configureOneDrive(newConfig: Partial<OneDriveConfig>) {
+  config = oneDriveConfig(newConfig);
+}
 
 let connectionSettings: any;
 
-async function getAccessToken() {
+async function getAccessToken(drive: OneDriveConfig) {
+  if (drive.accessToken) {
+    return drive.accessToken;
+  }
+  
   if (connectionSettings && connectionSettings.settings.expires_at && new Date(connectionSettings.settings.expires_at).getTime() > Date.now()) {
     return connectionSettings.settings.access_token;
   }
@@ -36,26 +94,237 @@ async function getAccessToken() {
   return accessToken;
 }
 
-async function getClient() {
-  const accessToken = await getAccessToken();
+async function getClient(drive: OneDriveConfig) {
+  const accessToken = await getAccessToken(drive);
   return Client.initWithMiddleware({
+    baseUrl: drive.graphUrl,
+    customHosts: new Set([new URL(drive.graphUrl).hostname]),
     authProvider: {
       getAccessToken: async () => accessToken
     }
   });
 }
 
-export async function uploadToOneDrive(fileName: string, content: Buffer | string): Promise<string> {
-  const client = await getClient();
+export async function uploadToOneDrive(
+  fileName: string,
+  content: Buffer | string,
+  onProgress?: UploadProgressCallback,
+  drive: OneDriveConfig = config
+): Promise<string> {
+  const data = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+  if (data.length > SIMPLE_UPLOAD_LIMIT) {
+    await uploadInSession(fileName, {
+      size: data.length,
+      identity: DIGEST_PREFIX + createHash('sha256').update(data).digest('hex'),
+      read: async (offset, length) => data.subarray(offset, offset + length),
+    }, onProgress, drive);
+    return `Uploaded to OneDrive: DiscBurn/${fileName}`;
+  }
+  
+  const client = await getClient(drive);
   const path = `/me/drive/root:/DiscBurn/${fileName}:/content`;
   
   await client.api(path).put(content);
+  onProgress?.(data.length, data.length);
   return `Uploaded to OneDrive: DiscBurn/${fileName}`;
 }
 
-export async function listOneDriveFiles(folderPath: string = '/DiscBurn'): Promise<any[]> {
+// Streams a file from disk, so images larger than memory can be uploaded
+// checksum is the file's content digest when the caller already has it; otherwise
+// the file is hashed, since a session may only resume for the same content
+export async function uploadPathToOneDrive(
+  fileName: string,
+  sourcePath: string,
+  onProgress?: UploadProgressCallback,
+  options: { checksum?: string } = {},
+  drive: OneDriveConfig = config
+): Promise<string> {
+  const stats = await fs.stat(sourcePath);
+  if (stats.size <= SIMPLE_UPLOAD_LIMIT) {
+    return uploadToOneDrive(fileName, await fs.readFile(sourcePath), onProgress, drive);
+  }
+  
+  const handle = await fs.open(sourcePath, 'r');
+  try {
+    await uploadInSession(fileName, {
+      size: stats.size,
+      identity: options.checksum || await digestFile(sourcePath),
+      read: async (offset, length) => {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, offset);
+        return buffer.subarray(0, bytesRead);
+      },
+    }, onProgress, drive);
+  } finally {
+    await handle.close();
+  }
+  return `Uploaded to OneDrive: DiscBurn/${fileName}`;
+}
+
+function digestFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(DIGEST_PREFIX + hash.digest('hex')));
+  });
+}
+
+interface ChunkSource {
+  size: number;
+  // Content digest; a saved session for the same destination path resumes only
+  // when the digest matches, wherever the content was read from
+  identity: string;
+  read(offset: number, length: number): Promise<Buffer>;
+}
+
+interface SavedSession {
+  uploadUrl: string;
+  identity: string;
+  size: number;
+  expires: string;
+}
+
+async function uploadInSession(
+  fileName: string,
+  source: ChunkSource,
+  onProgress: UploadProgressCallback | undefined,
+  drive: OneDriveConfig
+): Promise<void> {
+  let session = await resumeSession(fileName, source, drive);
+  let offset = session ? await confirmedOffset(session.uploadUrl) : null;
+  if (!session || offset === null) {
+    session = await createSession(fileName, source, drive);
+    offset = 0;
+  }
+  onProgress?.(offset, source.size);
+  
+  let retries = 0;
+  while (offset < source.size) {
+    const chunk = await source.read(offset, Math.min(drive.chunkSize, source.size - offset));
+    try {
+      const response: Response = await fetch(session.uploadUrl, {
+        method: 'PUT',
+        headers: {
+          'Content-Length': String(chunk.length),
+          'Content-Range': `bytes ${offset}-${offset + chunk.length - 1}/${source.size}`,
+        },
+        body: new Uint8Array(chunk),
+      });
+      
+      if (response.status === 200 || response.status === 201) {
+        offset = source.size;
+      } else if (response.status === 202) {
+        const body: { nextExpectedRanges?: string[] } = await response.json();
+        offset = rangeStart(body.nextExpectedRanges) ?? offset + chunk.length;
+        retries = 0;
+      } else if (response.status === 404) {
+        // The session expired or was dropped; Graph keeps nothing of it
+        throw Object.assign(new Error('Upload session expired'), { expired: true });
+      } else {
+        throw Object.assign(new Error(`Chunk upload failed: ${response.status} ${response.statusText}`), { statusCode: response.status });
+      }
+    } catch (error: any) {
+      if (++retries > MAX_CHUNK_RETRIES) {
+        throw Object.assign(new Error(`OneDrive upload of ${fileName} failed after ${MAX_CHUNK_RETRIES} retries: ${error.message}`), {
+          statusCode: error.statusCode,
+        });
+      }
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * 2 ** (retries - 1)));
+      const confirmed = error.expired ? null : await confirmedOffset(session.uploadUrl);
+      if (confirmed === null) {
+        session = await createSession(fileName, source, drive);
+        offset = 0;
+      } else {
+        offset = confirmed;
+      }
+    }
+    onProgress?.(offset, source.size);
+  }
+  
+  await saveSession(fileName, null, drive);
+}
+
+async function createSession(fileName: string, source: ChunkSource, drive: OneDriveConfig): Promise<SavedSession> {
+  const client = await getClient(drive);
+  const response = await client.api(`/me/drive/root:/DiscBurn/${fileName}:/createUploadSession`).post({
+    item: { '@microsoft.graph.conflictBehavior': 'replace' },
+  });
+  const session: SavedSession = {
+    uploadUrl: response.uploadUrl,
+    identity: source.identity,
+    size: source.size,
+    expires: response.expirationDateTime,
+  };
+  await saveSession(fileName, session, drive);
+  return session;
+}
+
+async function resumeSession(fileName: string, source: ChunkSource, drive: OneDriveConfig): Promise<SavedSession | null> {
+  const session = (await loadSessions(drive))[fileName];
+  if (!session || session.identity !== source.identity || session.size !== source.size) {
+    return null;
+  }
+  return new Date(session.expires).getTime() > Date.now() ? session : null;
+}
+
+// Start of the first range Graph still expects, or null when the session is gone
+async function confirmedOffset(uploadUrl: string): Promise<number | null> {
+  try {
+    const response = await fetch(uploadUrl);
+    if (!response.ok) {
+      return null;
+    }
+    return rangeStart((await response.json()).nextExpectedRanges);
+  } catch {
+    return null;
+  }
+}
+
+function rangeStart(ranges?: string[]): number | null {
+  const start = ranges?.[0] ? parseInt(ranges[0].split('-')[0], 10) : NaN;
+  return Number.isNaN(start) ? null : start;
+}
+
+async function loadSessions(drive: OneDriveConfig): Promise<Record<string, SavedSession>> {
   try {
-    const client = await getClient();
+    return JSON.parse(await fs.readFile(drive.sessionFile, 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+async function saveSession(fileName: string, session: SavedSession | null, drive: OneDriveConfig): Promise<void> {
+  const sessions = await loadSessions(drive);
+  if (session) {
+    sessions[fileName] = session;
+  } else {
+    delete sessions[fileName];
+  }
+  await fs.mkdir(nodePath.dirname(drive.sessionFile), { recursive: true });
+  await fs.writeFile(drive.sessionFile, JSON.stringify(sessions, null, 2));
+}
+
+// Create-if-absent: false when the file already exists (HTTP 409)
+export async function createOnOneDrive(fileName: string, content: Buffer | string, drive: OneDriveConfig = config): Promise<boolean> {
+  const client = await getClient(drive);
+  const path = `/me/drive/root:/DiscBurn/${fileName}:/content?@microsoft.graph.conflictBehavior=fail`;
+  
+  try {
+    await client.api(path).put(content);
+    return true;
+  } catch (error: any) {
+    if (error.statusCode === 409) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export async function listOneDriveFiles(folderPath: string = '/DiscBurn', drive: OneDriveConfig = config): Promise<any[]> {
+  try {
+    const client = await getClient(drive);
     const response = await client.api(`/me/drive/root:${folderPath}:/children`).get();
     return response.value || [];
   } catch (error: any) {
@@ -66,9 +335,9 @@ export async function listOneDriveFiles(folderPath: string = '/DiscBurn'): Promi
   }
 }
 
-export async function checkOneDriveConnection(): Promise<boolean> {
+export async function checkOneDriveConnection(drive: OneDriveConfig = config): Promise<boolean> {
   try {
-    const client = await getClient();
+    const client = await getClient(drive);
     await client.api('/me').get();
     return true;
   } catch {
@@ -76,9 +345,9 @@ export async function checkOneDriveConnection(): Promise<boolean> {
   }
 }
 
-export async function readFromOneDrive(fileName: string): Promise<string | null> {
+export async function readFromOneDrive(fileName: string, drive: OneDriveConfig = config): Promise<string | null> {
   try {
-    const client = await getClient();
+    const client = await getClient(drive);
     const response = await client.api(`/me/drive/root:/DiscBurn/${fileName}:/content`).get();
     return typeof response === 'string' ? response : JSON.stringify(response);
   } catch {
@@ -86,9 +355,41 @@ export async function readFromOneDrive(fileName: string): Promise<string | null>
   }
 }
 
-export async function deleteFromOneDrive(fileName: string): Promise<boolean> {
+export async function readBinaryFromOneDrive(fileName: string, drive: OneDriveConfig = config): Promise<Buffer | null> {
+  try {
+    const client = await getClient(drive);
+    const response = await client.api(`/me/drive/root:/DiscBurn/${fileName}:/content`).responseType(ResponseType.ARRAYBUFFER).get();
+    return Buffer.from(response);
+  } catch {
+    return null;
+  }
+}
+
+// Streams a file to targetPath without holding it in memory; false when it does not exist
+export async function downloadFromOneDrive(fileName: string, targetPath: string, drive: OneDriveConfig = config): Promise<boolean> {
+  const client = await getClient(drive);
+  const response: Response = await client.api(`/me/drive/root:/DiscBurn/${fileName}:/content`).responseType(ResponseType.RAW).get();
+  if (response.status === 404) {
+    return false;
+  }
+  if (!response.ok || !response.body) {
+    throw Object.assign(new Error(`Download of ${fileName} failed: ${response.status} ${response.statusText}`), { statusCode: response.status });
+  }
+
+  const partialPath = `${targetPath}.partial`;
+  try {
+    await pipeline(Readable.fromWeb(response.body as any), createWriteStream(partialPath));
+    await fs.rename(partialPath, targetPath);
+  } catch (error) {
+    await fs.rm(partialPath, { force: true });
+    throw error;
+  }
+  return true;
+}
+
+export async function deleteFromOneDrive(fileName: string, drive: OneDriveConfig = config): Promise<boolean> {
   try {
-    const client = await getClient();
+    const client = await getClient(drive);
     await client.api(`/me/drive/root:/DiscBurn/${fileName}`).delete();
     return true;
   } catch {
@@ -1,6 +1,6 @@
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 
-interface ParsedCommand {
+export interface ParsedCommand {
   intent: string;
   target?: string;
   parameters?: Record<string, string>;
@@ -12,18 +12,23 @@ const SYSTEM_PROMPT = `You are a command parser for the DiscBurn Administrative
 Parse user input into structured commands. Return JSON only.
 
 Available intents:
-- burn_to_disc: Prepare files for disc burning and upload to cloud
+- burn_to_disc: Prepare files for disc burning and upload to cloud (target = paths, globs, --exclude patterns and --encrypt, kept verbatim)
 - backup: Backup files to OneDrive cloud storage
 - sync: Synchronize files with cloud storage
 - list: List available files
 - status: Check platform and connection status
-- watch: Monitor bidirectional signals between phone and DVD burner
+- watch: Live dashboard of jobs, signals and HELM blocks (target = "--interval <seconds>" and/or "--json", kept verbatim)
 - cancel: Cancel a burn job (target = job ID)
+- pause: Pause a running burn at its current checkpoint (target = job ID)
+- resume: Resume a paused burn from its checkpoint (target = job ID)
+- retry: Queue a failed or dead-lettered job again (target = job ID)
 - send: Send signal to DVD burner
 - automate: Start automation loop (monitors files, signals, retries failed jobs)
 - execute: Execute a burn job and sync to OneDrive after completion
-- package: Create a burn-ready package in OneDrive (download and burn on any PC)
-- admin: Administrative functions (target can be: audit, config, registry)
+- package: Create a burn-ready package in OneDrive (download and burn on any PC; target = "--encrypt" for encrypted discs)
+- diff: Compare two snapshots, burn jobs or packages, or one of them with the workspace (target = "<idA> [idB|workspace]", ids may be "latest")
+- restore: Restore files from a backup snapshot or burn package (target = "list", or "<id> [paths...] [--to <dir>] [--force]")
+- admin: Administrative functions (target can be: audit, config, registry, approvals, "approve <jobId>", "reject <jobId> <reason>", gc, "gc --dry-run")
 - helm: Security controls (target can be: activate, deactivate, status, on, off)
 - mesh: Q++RS AI Mesh commands (target can be: status, route, providers)
 - qpprs: Q++RS Ultimate commands (target can be: manifest, propagate)
@@ -34,16 +39,32 @@ Available intents:
 Examples:
 "burn to disc all projects" -> {"intent": "burn_to_disc", "target": "all projects"}
 "burn" -> {"intent": "burn_to_disc", "target": "all"}
+"burn src and docs to disc without log files" -> {"intent": "burn_to_disc", "target": "src docs --exclude *.log"}
+"burn src/components/*.tsx" -> {"intent": "burn_to_disc", "target": "src/components/*.tsx"}
+"burn an encrypted disc of src" -> {"intent": "burn_to_disc", "target": "src --encrypt"}
+"make an encrypted package" -> {"intent": "package", "target": "--encrypt"}
 "backup my documents" -> {"intent": "backup", "target": "documents"}
 "status" -> {"intent": "status"}
 "watch" -> {"intent": "watch"}
 "monitor signals" -> {"intent": "watch"}
+"watch every 10 seconds" -> {"intent": "watch", "target": "--interval 10"}
+"stream the monitor as json" -> {"intent": "watch", "target": "--json"}
 "cancel job123" -> {"intent": "cancel", "target": "job123"}
+"pause burn-2024-01-01T10-00-00-000Z" -> {"intent": "pause", "target": "burn-2024-01-01T10-00-00-000Z"}
+"resume job123" -> {"intent": "resume", "target": "job123"}
+"retry burn-2024-01-01T10-00-00-000Z" -> {"intent": "retry", "target": "burn-2024-01-01T10-00-00-000Z"}
 "send status" -> {"intent": "send", "target": "status"}
 "admin audit" -> {"intent": "admin", "target": "audit"}
+"approve job burn-123" -> {"intent": "admin", "target": "approve burn-123"}
+"admin reject burn-123 wrong files" -> {"intent": "admin", "target": "reject burn-123 wrong files"}
+"preview cleanup of old jobs" -> {"intent": "admin", "target": "gc --dry-run"}
 "helm activate" -> {"intent": "helm", "target": "activate"}
 "mesh status" -> {"intent": "mesh", "target": "status"}
 "qpprs manifest" -> {"intent": "qpprs", "target": "manifest"}
+"what changed since the last backup" -> {"intent": "diff", "target": "latest workspace"}
+"diff burn-2024-01-01T10-00-00-000Z backup-2024-01-08T10-00-00-000Z" -> {"intent": "diff", "target": "burn-2024-01-01T10-00-00-000Z backup-2024-01-08T10-00-00-000Z"}
+"show what I can restore" -> {"intent": "restore", "target": "list"}
+"restore backup-2024-01-01T10-00-00-000Z src --to /tmp/src" -> {"intent": "restore", "target": "backup-2024-01-01T10-00-00-000Z src --to /tmp/src"}
 "help" -> {"intent": "help"}
 
 Return ONLY valid JSON: {"intent": "...", "target": "...", "parameters": {...}}`;
@@ -88,8 +109,22 @@ export async function parseNaturalLanguage(input: string): Promise<ParsedCommand
 function fallbackParse(input: string): ParsedCommand {
   const lower = input.toLowerCase().trim();
   
+  // Commands taking job IDs come first: IDs (burn-...) would otherwise match the burn
+  // intent, and keep their original case
+  const control = lower.split(/\s+/)[0];
+  if (control === 'pause' || control === 'resume' || control === 'retry' || control === 'cancel' || control === 'execute' || control === 'restore' || control === 'diff') {
+    const target = input.trim().replace(/^\S+\s*/, '');
+    return { intent: control, target, originalInput: input };
+  }
+  
+  if (control === 'admin') {
+    const target = input.trim().replace(/^\S+\s*/, '') || 'help';
+    return { intent: 'admin', target, originalInput: input };
+  }
+  
   if (lower.includes('burn')) {
-    const target = lower.replace(/burn|to|disc/g, '').trim() || 'all';
+    // Paths and patterns in the target keep their case
+    const target = input.trim().split(/\s+/).filter(word => !/^(burn|to|disc)$/i.test(word)).join(' ') || 'all';
     return { intent: 'burn_to_disc', target, originalInput: input };
   }
   
@@ -123,18 +158,9 @@ function fallbackParse(input: string): ParsedCommand {
     return { intent: 'clear', originalInput: input };
   }
   
-  if (lower.startsWith('admin')) {
-    const target = lower.replace('admin', '').trim() || 'help';
-    return { intent: 'admin', target, originalInput: input };
-  }
-  
-  if (lower === 'watch' || lower.includes('monitor') || lower.includes('signals')) {
-    return { intent: 'watch', originalInput: input };
-  }
-  
-  if (lower.startsWith('cancel')) {
-    const target = lower.replace('cancel', '').trim();
-    return { intent: 'cancel', target, originalInput: input };
+  if (control === 'watch' || lower.includes('monitor') || lower.includes('signals')) {
+    const target = control === 'watch' ? lower.replace(/^watch\s*/, '') : '';
+    return { intent: 'watch', target: target || undefined, originalInput: input };
   }
   
   if (lower.startsWith('automate') || lower === 'auto') {
@@ -147,8 +173,9 @@ function fallbackParse(input: string): ParsedCommand {
     return { intent: 'execute', target, originalInput: input };
   }
   
-  if (lower === 'package' || lower.includes('create package') || lower.includes('make iso')) {
-    return { intent: 'package', originalInput: input };
+  if (control === 'package' || lower.includes('create package') || lower.includes('make iso')) {
+    const target = lower.includes('encrypt') ? '--encrypt' : undefined;
+    return { intent: 'package', target, originalInput: input };
   }
   
   // Q++RS Ultimate Commands
@@ -10,9 +10,14 @@
  * - Validates all signal authenticity
  */
 
+import { createHmac, timingSafeEqual } from 'crypto';
+
 const ALLOWED_DEVICE_ID = 'HP-DVD557s';
 const ALLOWED_SOURCES = ['dvd557s', 'HP-DVD557s', 'dvd557s_driver'];
 
+// Shared with dvd557s_driver; without it no signal is sent and inbound signals are refused
+const SIGNAL_SECRET_ENV = 'DISCBURN_SIGNAL_SECRET';
+
 // Security Helm Configuration
 const HELM = {
   active: true,
@@ -41,7 +46,7 @@ const signalRateTracker: { count: number; resetTime: number } = {
   resetTime: Date.now() + 60000,
 };
 
-interface SignalPacket {
+export interface SignalPacket {
   type: 'command' | 'status' | 'ack' | 'data';
   direction: 'outbound' | 'inbound';
   timestamp: number;
@@ -51,12 +56,24 @@ interface SignalPacket {
   deviceId?: string;
 }
 
+export interface BlockedSignal {
+  checksum: string;
+  type: SignalPacket['type'];
+  source?: string;
+  timestamp: number;
+  blockedAt: number;
+  reason: string;
+  permanent: boolean;
+}
+
 interface SecurityResult {
   allowed: boolean;
   reason?: string;
+  // The same signal may pass a later check (rate limit, missing secret)
+  transient?: boolean;
 }
 
-function validateSignalSecurity(signal: SignalPacket): SecurityResult {
+function validateSignalSecurity(signal: SignalPacket, recheck: boolean = false): SecurityResult {
   if (!HELM.active) return { allowed: true };
 
   // Check source is DVD557s only
@@ -79,9 +96,10 @@ function validateSignalSecurity(signal: SignalPacket): SecurityResult {
     signalRateTracker.count = 0;
     signalRateTracker.resetTime = Date.now() + 60000;
   }
-  signalRateTracker.count++;
+  // A signal held back by a transient block was counted when it first arrived
+  if (!recheck) signalRateTracker.count++;
   if (signalRateTracker.count > HELM.rateLimitPerMinute) {
-    return { allowed: false, reason: 'BLOCKED: Rate limit exceeded' };
+    return { allowed: false, reason: 'BLOCKED: Rate limit exceeded', transient: true };
   }
 
   // Check for script injection patterns
@@ -102,10 +120,14 @@ function validateSignalSecurity(signal: SignalPacket): SecurityResult {
     }
   }
 
-  // Verify checksum
-  const expectedChecksum = generateChecksum(signal.payload);
-  if (signal.checksum !== expectedChecksum) {
-    return { allowed: false, reason: 'BLOCKED: Invalid checksum (tampering detected)' };
+  // Verify HMAC signature
+  if (!getSignalSecret()) {
+    return { allowed: false, reason: 'BLOCKED: No shared signal secret configured', transient: true };
+  }
+  const expected = Buffer.from(generateChecksum(signal));
+  const actual = Buffer.from(String(signal.checksum || ''));
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { allowed: false, reason: 'BLOCKED: Invalid signature (tampering detected)' };
   }
 
   return { allowed: true };
@@ -134,29 +156,40 @@ const state: DeviceState = {
 const signalQueue: SignalPacket[] = [];
 const responseBuffer: SignalPacket[] = [];
 
-function generateChecksum(data: any): string {
-  const str = JSON.stringify(data);
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    hash = ((hash << 5) - hash) + str.charCodeAt(i);
-    hash = hash & hash;
+// A blocked signal stays in the inbound queue. Permanent rejections are checked once;
+// transient ones are checked again on every receive and logged when the reason changes
+const MAX_BLOCKED_SIGNALS = 100;
+const blockedSignals: BlockedSignal[] = [];
+
+function getSignalSecret(): string | undefined {
+  return process.env[SIGNAL_SECRET_ENV] || undefined;
+}
+
+// Signs everything the HELM checks rely on, so timestamps and sources cannot be replayed or swapped.
+// There is no unkeyed fallback: anyone could forge a plain digest
+function generateChecksum(signal: Omit<SignalPacket, 'checksum' | 'direction'>): string {
+  const secret = getSignalSecret();
+  if (!secret) {
+    throw Object.assign(new Error(`Cannot sign signals: ${SIGNAL_SECRET_ENV} is not set`), { code: 'ENOSIGNALSECRET' });
   }
-  return hash.toString(16);
+  const canonical = JSON.stringify([signal.type, signal.timestamp, signal.source ?? null, signal.deviceId ?? null, signal.payload ?? null]);
+  return `hmac-sha256:${createHmac('sha256', secret).update(canonical).digest('hex')}`;
 }
 
 export function createSignal(type: SignalPacket['type'], payload: any): SignalPacket {
+  const timestamp = Date.now();
   return {
     type,
     direction: 'outbound',
-    timestamp: Date.now(),
+    timestamp,
     payload,
-    checksum: generateChecksum(payload),
+    checksum: generateChecksum({ type, timestamp, payload }),
   };
 }
 
 export async function probeConnection(): Promise<DeviceState> {
-  // Probe for USB device presence through available channels
-  const probeSignal = createSignal('command', { action: 'probe', target: 'HP-DVD557s' });
+  // Probe for USB device presence through available channels; the probe signal needs the shared secret
+  const probeSignal = getSignalSecret() ? createSignal('command', { action: 'probe', target: 'HP-DVD557s' }) : null;
   
   try {
     // Check if we have USB access (WebUSB or native)
@@ -185,7 +218,7 @@ export async function probeConnection(): Promise<DeviceState> {
     } catch {}
     
     state.lastSignal = Date.now();
-    signalQueue.push(probeSignal);
+    if (probeSignal) signalQueue.push(probeSignal);
     
   } catch (error) {
     state.connected = false;
@@ -204,9 +237,9 @@ export async function sendCommand(command: string, params?: Record<string, any>)
   
   signalQueue.push(signal);
   
-  // Write to signal channel (OneDrive as relay when direct USB not available)
-  const { uploadToOneDrive } = await import('./onedrive');
-  await uploadToOneDrive('signals/outbound.json', JSON.stringify({
+  // Write to signal channel (storage destination as relay when direct USB not available)
+  const { uploadFile } = await import('../core/storage');
+  await uploadFile('signals/outbound.json', JSON.stringify({
     queue: signalQueue.slice(-10),
     lastUpdate: Date.now(),
   }, null, 2));
@@ -216,8 +249,8 @@ export async function sendCommand(command: string, params?: Record<string, any>)
 
 export async function receiveSignals(): Promise<SignalPacket[]> {
   try {
-    const { readFromOneDrive } = await import('./onedrive');
-    const data = await readFromOneDrive('signals/inbound.json');
+    const { readFile } = await import('../core/storage');
+    const data = await readFile('signals/inbound.json');
     
     if (data) {
       const parsed = JSON.parse(data);
@@ -228,11 +261,25 @@ export async function receiveSignals(): Promise<SignalPacket[]> {
       // HELM: Security validation for each signal
       const validatedSignals: SignalPacket[] = [];
       for (const signal of newSignals) {
-        const security = validateSignalSecurity(signal);
+        const previous = blockedSignals.find(b => b.checksum === signal.checksum);
+        if (previous?.permanent) continue;
+        const security = validateSignalSecurity(signal, !!previous);
         if (security.allowed) {
+          if (previous) blockedSignals.splice(blockedSignals.indexOf(previous), 1);
           validatedSignals.push(signal);
           logSecurityEvent('ALLOWED', { source: signal.source, type: signal.type });
-        } else {
+        } else if (previous?.reason !== security.reason) {
+          if (previous) blockedSignals.splice(blockedSignals.indexOf(previous), 1);
+          blockedSignals.push({
+            checksum: signal.checksum,
+            type: signal.type,
+            source: signal.source,
+            timestamp: signal.timestamp,
+            blockedAt: Date.now(),
+            reason: security.reason || 'BLOCKED',
+            permanent: !security.transient,
+          });
+          blockedSignals.splice(0, blockedSignals.length - MAX_BLOCKED_SIGNALS);
           logSecurityEvent('BLOCKED', { 
             reason: security.reason, 
             source: signal.source,
@@ -290,6 +337,11 @@ export function getResponseBuffer(): SignalPacket[] {
   return [...responseBuffer];
 }
 
+// Oldest first
+export function getBlockedSignals(): BlockedSignal[] {
+  return [...blockedSignals];
+}
+
 export async function establishBidirectionalChannel(): Promise<{
   send: (cmd: string, params?: any) => Promise<SignalPacket>;
   receive: () => Promise<SignalPacket[]>;
@@ -317,9 +369,11 @@ export function getHelmStatus() {
       onlyDVD557s: HELM.onlyDVD557s,
       maxSignalAge: HELM.maxSignalAge,
       rateLimitPerMinute: HELM.rateLimitPerMinute,
+      signing: getSignalSecret() ? 'hmac-sha256' : 'disabled',
     },
     stats: {
       signalsThisMinute: signalRateTracker.count,
+      blockedSignals: blockedSignals.length,
       resetIn: Math.max(0, signalRateTracker.resetTime - Date.now()),
     },
     allowedSources: ALLOWED_SOURCES,
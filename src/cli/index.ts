@@ -1,6 +1,9 @@
 import * as readline from 'readline';
-import { parseNaturalLanguage } from '../adapters/openai';
-import { executeCommand } from '../core/executor';
+import { parseNaturalLanguage, ParsedCommand } from '../adapters/openai';
+import { executeCommand, CommandResult } from '../core/executor';
+import { parseWatchOptions } from '../core/watch';
+import { showProgress } from './progress-bar';
+import { runWatch } from './watch-dashboard';
 
 const VERSION = '1.0.0';
 
@@ -14,6 +17,20 @@ function printBanner() {
   console.log('Type commands in plain English. Type "help" for available commands.\n');
 }
 
+// watch stays live until q; without a terminal (and without --json) it prints one snapshot
+async function run(parsed: ParsedCommand, progressStream: NodeJS.WriteStream): Promise<CommandResult> {
+  if (parsed.intent === 'watch') {
+    const { options } = parseWatchOptions(parsed.target);
+    if (options && (options.json || process.stdout.isTTY)) {
+      await runWatch(options);
+      return { success: true, message: options.json ? '' : 'Watch stopped.' };
+    }
+  }
+
+  const stopProgress = showProgress(progressStream);
+  return executeCommand(parsed.intent, parsed.target, parsed.parameters).finally(stopProgress);
+}
+
 async function processInput(input: string): Promise<boolean> {
   const trimmed = input.trim();
   
@@ -27,7 +44,7 @@ async function processInput(input: string): Promise<boolean> {
   console.log('\nProcessing...');
   
   const parsed = await parseNaturalLanguage(trimmed);
-  const result = await executeCommand(parsed.intent, parsed.target, parsed.parameters);
+  const result = await run(parsed, process.stdout);
   
   if (result.success) {
     console.log('\n' + result.message);
@@ -64,10 +81,10 @@ async function runInteractive() {
 
 async function runCommand(command: string) {
   const parsed = await parseNaturalLanguage(command);
-  const result = await executeCommand(parsed.intent, parsed.target, parsed.parameters);
+  const result = await run(parsed, process.stderr);
   
   if (result.success) {
-    console.log(result.message);
+    if (result.message) console.log(result.message);
   } else {
     console.error('[Error]', result.message);
     process.exit(1);
@@ -0,0 +1,59 @@
+/**
+ * CLI Progress Bar
+ * Draws progress events on one terminal line, redrawn in place
+ *
+ *   burning  [##########----------]  52%  12.3 MB / 23.6 MB  4.1 MB/s  ETA 0:03  src/app.ts
+ *
+ * A finished step keeps its line and the next step starts a new one. Log
+ * lines printed meanwhile go above the bar. Nothing is drawn when output is
+ * not a terminal, so piped output stays clean.
+ */
+
+import { onProgress, formatBytes, formatEta, ProgressEvent } from '../core/progress';
+
+const BAR_WIDTH = 20;
+
+export function formatProgressLine(event: ProgressEvent, columns: number = 100): string {
+  const filled = Math.round((event.percent / 100) * BAR_WIDTH);
+  const bar = '#'.repeat(filled) + '-'.repeat(BAR_WIDTH - filled);
+  const sizes = event.bytesTotal > 0 ? `${formatBytes(event.bytesDone)} / ${formatBytes(event.bytesTotal)}` : formatBytes(event.bytesDone);
+  const timing = event.done ? 'done' : `${formatBytes(event.bytesPerSecond)}/s  ETA ${formatEta(event.etaSeconds)}`;
+  const line = `${event.phase.padEnd(9)} [${bar}] ${String(event.percent).padStart(3)}%  ${sizes}  ${timing}`;
+
+  // The file name gets whatever room is left, trimmed from the front
+  const room = columns - line.length - 3;
+  if (!event.currentFile || room < 8) {
+    return line.slice(0, columns - 1);
+  }
+  const file = event.currentFile.length > room ? `...${event.currentFile.slice(-(room - 3))}` : event.currentFile;
+  return `${line}  ${file}`;
+}
+
+// Draws every event until the returned stop function is called
+export function showProgress(stream: NodeJS.WriteStream = process.stdout): () => void {
+  if (!stream.isTTY) {
+    return () => {};
+  }
+
+  let line: string | null = null;
+  const unsubscribe = onProgress(event => {
+    const text = formatProgressLine(event, stream.columns || 100);
+    stream.write(`\r${text}\x1b[K${event.done ? '\n' : ''}`);
+    line = event.done ? null : text;
+  });
+
+  const log = console.log;
+  console.log = (...args: any[]) => {
+    if (line) stream.write('\r\x1b[K');
+    log(...args);
+    if (line) stream.write(line);
+  };
+
+  return () => {
+    unsubscribe();
+    console.log = log;
+    if (line) {
+      stream.write('\n');
+    }
+  };
+}
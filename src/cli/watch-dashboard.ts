@@ -0,0 +1,113 @@
+/**
+ * Watch Dashboard
+ * Keeps the watch view live: redraws it in place on every refresh until q
+ * (or Ctrl+C), or prints each snapshot as a JSON line with --json
+ *
+ * The dashboard uses the terminal's alternate screen, so the shell or the
+ * interactive prompt comes back as it was. Log lines printed meanwhile (HELM
+ * events) are dropped from the dashboard, which shows them itself, and go to
+ * stderr in JSON mode so stdout stays one snapshot per line.
+ */
+
+import * as readline from 'readline';
+import { probeConnection } from '../adapters/usb-signal';
+import { collectWatchSnapshot, formatWatchDashboard, WatchOptions } from '../core/watch';
+
+const ENTER_SCREEN = '\x1b[?1049h\x1b[?25l';
+const LEAVE_SCREEN = '\x1b[?25h\x1b[?1049l';
+
+export async function runWatch(options: WatchOptions, output: NodeJS.WriteStream = process.stdout): Promise<void> {
+  let stopped = false;
+  let wake: () => void = () => {};
+  const stop = () => {
+    stopped = true;
+    wake();
+  };
+
+  const stopInput = listenForQuit(stop);
+  const log = console.log;
+  console.log = options.json ? (...args: any[]) => console.error(...args) : () => {};
+
+  let frame: string[] = [];
+  const draw = () => {
+    const columns = output.columns || 100;
+    const rows = output.rows || 40;
+    const lines = frame.slice(0, rows - 1).map(line => line.slice(0, columns - 1));
+    output.write(`\x1b[H${lines.join('\x1b[K\n')}\x1b[K\x1b[J`);
+  };
+
+  if (!options.json) {
+    output.write(ENTER_SCREEN);
+    output.on('resize', draw);
+  }
+
+  try {
+    await probeConnection();
+    while (!stopped) {
+      try {
+        const snapshot = await collectWatchSnapshot();
+        if (options.json) {
+          output.write(`${JSON.stringify(snapshot)}\n`);
+        } else {
+          frame = formatWatchDashboard(snapshot, { intervalMs: options.intervalMs });
+          draw();
+        }
+      } catch (error: any) {
+        if (options.json) {
+          output.write(`${JSON.stringify({ timestamp: new Date().toISOString(), error: error.message })}\n`);
+        } else {
+          frame = [...frame.filter(line => !line.startsWith('Refresh failed:')), `Refresh failed: ${error.message}`];
+          draw();
+        }
+      }
+
+      if (stopped) break;
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, options.intervalMs);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+  } finally {
+    stopInput();
+    console.log = log;
+    if (!options.json) {
+      output.off('resize', draw);
+      output.write(LEAVE_SCREEN);
+    }
+  }
+}
+
+// q, Esc or Ctrl+C on a terminal; SIGINT otherwise. Other keypress listeners
+// (the interactive prompt) are set aside until the watch ends.
+function listenForQuit(stop: () => void): () => void {
+  const input = process.stdin;
+  if (!input.isTTY) {
+    process.once('SIGINT', stop);
+    return () => {
+      process.off('SIGINT', stop);
+    };
+  }
+
+  const others = input.listeners('keypress') as ((...args: any[]) => void)[];
+  const wasRaw = input.isRaw;
+  const wasFlowing = input.readableFlowing;
+  const onKey = (_: string, key: readline.Key | undefined) => {
+    if (key && (key.name === 'q' || key.name === 'escape' || (key.ctrl && key.name === 'c'))) stop();
+  };
+
+  readline.emitKeypressEvents(input);
+  input.removeAllListeners('keypress');
+  input.on('keypress', onKey);
+  input.setRawMode(true);
+  input.resume();
+
+  return () => {
+    input.off('keypress', onKey);
+    others.forEach(listener => input.on('keypress', listener));
+    input.setRawMode(wasRaw);
+    if (!wasFlowing) input.pause();
+  };
+}
@@ -32,6 +32,8 @@ export interface PlatformConfig {
   destinations: DestinationConfig[];
   policies: PolicyConfig;
   features: FeatureFlags;
+  scan?: ScanConfig;
+  encryption?: EncryptionConfig;
 }
 
 export interface DeviceConfig {
@@ -41,6 +43,9 @@ export interface DeviceConfig {
   enabled: boolean;
   connection: string;
   capabilities: string[];
+  readbackPath?: string;
+  // How long a multi-disc burn waits for the next blank before the attempt fails
+  discWaitMinutes?: number;
 }
 
 export interface DestinationConfig {
@@ -49,6 +54,7 @@ export interface DestinationConfig {
   type: 'onedrive' | 'sovereigncapsule' | 'local';
   enabled: boolean;
   priority: number;
+  required?: boolean;
   settings: Record<string, any>;
 }
 
@@ -60,6 +66,20 @@ export interface PolicyConfig {
   retentionDays: number;
 }
 
+// Workspace scanning; configs without this section get the defaults below
+export interface ScanConfig {
+  includeDotfiles: boolean;
+  followSymlinks: boolean;
+}
+
+// Client-side encryption of destination writes; the key never goes in the config itself
+export interface EncryptionConfig {
+  enabled: boolean;
+  keyfile?: string;
+  // Random per-install salt for key IDs and object names; generated on first use
+  keySalt?: string;
+}
+
 export interface FeatureFlags {
   naturalLanguage: boolean;
   dualWrite: boolean;
@@ -202,6 +222,14 @@ function getDefaultConfig(): PlatformConfig {
         priority: 2,
         settings: {},
       },
+      {
+        id: 'dest-local',
+        name: 'Local',
+        type: 'local',
+        enabled: false,
+        priority: 3,
+        settings: { folder: 'data/discburn' },
+      },
     ],
     policies: {
       maxJobsPerDay: 100,
@@ -217,6 +245,13 @@ function getDefaultConfig(): PlatformConfig {
       notifications: true,
       adminMode: true,
     },
+    scan: {
+      includeDotfiles: false,
+      followSymlinks: true,
+    },
+    encryption: {
+      enabled: false,
+    },
   };
 }
 
@@ -0,0 +1,111 @@
+/**
+ * Job Approval
+ * With policies.requireApproval on, new burn jobs wait in awaiting_approval
+ * until an operator approves them (queued) or rejects them (final)
+ */
+
+import * as os from 'os';
+import { BurnManifest } from './manifest';
+import { logAudit, PlatformConfig } from './admin';
+import { listFiles } from './storage';
+import { loadJobManifest, advanceJob } from './job-lifecycle';
+import { getJobQueue, jobFromManifest } from './job-queue';
+
+export interface ApprovalResult {
+  success: boolean;
+  message: string;
+  manifest?: BurnManifest;
+}
+
+// Who is approving: DISCBURN_OPERATOR, else the logged-in user
+export function getOperatorId(): string {
+  if (process.env.DISCBURN_OPERATOR) {
+    return process.env.DISCBURN_OPERATOR;
+  }
+  try {
+    return os.userInfo().username;
+  } catch {
+    return 'operator';
+  }
+}
+
+// Why an executor must not burn this job, or null when it may
+export function approvalRefusal(manifest: BurnManifest, config: PlatformConfig): string | null {
+  const state = manifest.lifecycle.currentState;
+  if (state === 'awaiting_approval') {
+    return `Job ${manifest.job.id} is awaiting approval`;
+  }
+  if (state === 'rejected') {
+    return `Job ${manifest.job.id} was rejected${manifest.admin.rejectedBy ? ` by ${manifest.admin.rejectedBy}` : ''}`;
+  }
+  if (config.policies.requireApproval && !manifest.admin.approvedBy) {
+    return `Job ${manifest.job.id} has not been approved`;
+  }
+  return null;
+}
+
+export async function approveJob(jobId: string, approver: string = getOperatorId()): Promise<ApprovalResult> {
+  const manifest = await loadJobManifest(jobId);
+  if (!manifest) {
+    return { success: false, message: `Job not found: ${jobId}` };
+  }
+  if (manifest.lifecycle.currentState !== 'awaiting_approval') {
+    return { success: false, message: `Job ${jobId} is ${manifest.lifecycle.currentState}, not awaiting approval`, manifest };
+  }
+
+  const now = new Date().toISOString();
+  manifest.admin.approvedBy = approver;
+  manifest.admin.approvedAt = now;
+  manifest.admin.auditLog.push({ timestamp: now, action: 'JOB_APPROVED', actor: approver });
+  await advanceJob(manifest, 'pending', approver, `Approved by ${approver}`);
+  await (await getJobQueue()).enqueue(jobFromManifest(manifest));
+
+  await logAudit({
+    level: 'admin',
+    category: 'approval',
+    action: 'JOB_APPROVED',
+    actor: approver,
+    target: jobId,
+    result: 'success',
+  });
+
+  return { success: true, message: `Job ${jobId} approved by ${approver} and queued`, manifest };
+}
+
+export async function rejectJob(jobId: string, reason: string, approver: string = getOperatorId()): Promise<ApprovalResult> {
+  const manifest = await loadJobManifest(jobId);
+  if (!manifest) {
+    return { success: false, message: `Job not found: ${jobId}` };
+  }
+  if (manifest.lifecycle.currentState !== 'awaiting_approval') {
+    return { success: false, message: `Job ${jobId} is ${manifest.lifecycle.currentState}, not awaiting approval`, manifest };
+  }
+
+  manifest.admin.rejectedBy = approver;
+  manifest.admin.auditLog.push({ timestamp: new Date().toISOString(), action: 'JOB_REJECTED', actor: approver, details: { reason } });
+  await advanceJob(manifest, 'rejected', approver, reason);
+
+  await logAudit({
+    level: 'admin',
+    category: 'approval',
+    action: 'JOB_REJECTED',
+    actor: approver,
+    target: jobId,
+    details: { reason },
+    result: 'success',
+  });
+
+  return { success: true, message: `Job ${jobId} rejected by ${approver}: ${reason}`, manifest };
+}
+
+export async function listAwaitingApproval(): Promise<BurnManifest[]> {
+  const waiting: BurnManifest[] = [];
+  for (const folder of await listFiles('/DiscBurn/jobs')) {
+    if (!folder.folder) continue;
+    const manifest = await loadJobManifest(folder.name);
+    if (manifest?.lifecycle.currentState === 'awaiting_approval') {
+      waiting.push(manifest);
+    }
+  }
+  return waiting.sort((a, b) => a.job.created.localeCompare(b.job.created));
+}
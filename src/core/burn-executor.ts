@@ -6,26 +6,28 @@
  * Driver: dvd557s_driver.exe (Windows executor)
  */
 
-import { uploadToOneDrive, readFromOneDrive, deleteFromOneDrive, listOneDriveFiles } from '../adapters/onedrive';
-import { sendCommand, receiveSignals, getDeviceState } from '../adapters/usb-signal';
-import { transitionState, JobStatus } from './manifest';
-
-interface BurnJob {
-  jobId: string;
-  status: JobStatus;
-  priority: 'low' | 'normal' | 'high' | 'urgent';
-  files: string[];
-  created: string;
-  started?: string;
-  completed?: string;
-  progress?: number;
-  error?: string;
-  retryCount: number;
-}
+import { uploadFile, readFile, deleteFile } from './storage';
+import { sendCommand, receiveSignals, getDeviceState, SignalPacket } from '../adapters/usb-signal';
+import { markVolumeBurned, BurnManifest, BurnCheckpoint, JobStatus, PayloadFile } from './manifest';
+import { verifyBurn, VerificationReport } from './verify';
+import { getConfig } from './admin';
+import { getJobQueue, JobQueue, JobLease, QueuedJob } from './job-queue';
+import { loadJobManifest, saveJobManifest, advanceJob, prepareAttempt } from './job-lifecycle';
+import { handleJobFailure } from './retry-policy';
+import { approvalRefusal } from './approval';
+import { createProgressTracker } from './progress';
+
+type FinalStatus = 'complete' | 'failed' | 'cancelled';
+type AttemptResult = FinalStatus | 'retrying' | 'refused';
+type ControlAction = 'cancel' | 'pause' | 'resume';
+
+const CONTROL_ACTIONS: ControlAction[] = ['cancel', 'pause', 'resume'];
+const BURN_STEPS = 8;
+const DEFAULT_DISC_WAIT_MINUTES = 30;
 
 interface ExecutorState {
   running: boolean;
-  currentJob: BurnJob | null;
+  currentJob: QueuedJob | null;
   completedJobs: string[];
   failedJobs: string[];
 }
@@ -54,144 +56,414 @@ export async function stopExecutor(): Promise<void> {
 
 async function pollAndProcess(): Promise<void> {
   try {
-    // Get pending jobs from OneDrive
-    const pendingFiles = await listOneDriveFiles('/DiscBurn/pending');
-    
-    if (pendingFiles.length === 0) {
-      return;
-    }
+    // Highest-priority job no other executor holds
+    const queue = await getJobQueue();
+    const lease = await queue.claim();
     
-    // Sort by priority (high/urgent first)
-    const jobs: BurnJob[] = [];
-    for (const file of pendingFiles) {
-      try {
-        const content = await readFromOneDrive(`pending/${file.name}`);
-        if (content) {
-          jobs.push(JSON.parse(content));
-        }
-      } catch {}
-    }
-    
-    // Priority order: urgent > high > normal > low
-    const priorityOrder = { urgent: 0, high: 1, normal: 2, low: 3 };
-    jobs.sort((a, b) => (priorityOrder[a.priority] || 2) - (priorityOrder[b.priority] || 2));
-    
-    if (jobs.length > 0) {
-      await processJob(jobs[0]);
+    if (lease) {
+      await processJob(queue, lease);
     }
   } catch (error: any) {
     console.error('[EXECUTOR] Poll error:', error.message);
   }
 }
 
-async function processJob(job: BurnJob): Promise<void> {
+async function processJob(queue: JobQueue, lease: JobLease): Promise<AttemptResult> {
+  const job = lease.job;
+  const actor = lease.owner;
   state.currentJob = job;
-  console.log(`[EXECUTOR] Processing job: ${job.jobId} (${job.priority})`);
+  console.log(`[EXECUTOR] Processing job: ${job.jobId} (${job.priority}, attempt ${job.attempts})`);
+  const verification: VerificationReport[] = [];
+  let finalStatus: AttemptResult = 'failed';
+  let manifest: BurnManifest | null = null;
+  let requeued = false;
+  
+  // Keep the lease alive through long burns and disc swaps
+  const heartbeat = async () => {
+    lease = await queue.keepAlive(lease);
+  };
   
   try {
-    // Update status: queued
-    await updateJobStatus(job.jobId, 'queued', 0);
-    
-    // Send signal to DVD burner
-    await sendCommand('burn', {
-      jobId: job.jobId,
-      files: job.files,
-      priority: job.priority,
-    });
+    manifest = await loadJobManifest(job.jobId);
+    if (!manifest) {
+      throw Object.assign(new Error(`Manifest not found: jobs/${job.jobId}/manifest.json`), { permanent: true });
+    }
+    
+    // Never burn an unapproved job; approving it queues it again
+    const refusal = approvalRefusal(manifest, await getConfig());
+    if (refusal) {
+      if (manifest.lifecycle.currentState === 'pending') {
+        await advanceJob(manifest, 'awaiting_approval', actor, `Refused by executor: ${refusal}`);
+      }
+      await writeJobStatus(job.jobId, manifest.lifecycle.currentState, 0, refusal);
+      console.log(`[EXECUTOR] Refused: ${refusal}`);
+      finalStatus = 'refused';
+      return finalStatus;
+    }
+    
+    await prepareAttempt(manifest, actor, job.attempts);
+    
+    await updateJobStatus(manifest, actor, 'queued', 0, `Claimed by ${actor} (attempt ${job.attempts})`);
+    await updateJobStatus(manifest, actor, 'downloading', 5, `Fetching ${job.fileCount} files`);
     
-    // Update status: burning
-    await updateJobStatus(job.jobId, 'burning', 10);
+    // Multi-disc jobs burn one volume per blank and resume after the last burned disc
+    const volumes = manifest.payload.volumes || [];
+    const totalVolumes = Math.max(volumes.length, 1);
+    let needsBlank = volumes.some(v => v.burned);
     
-    // Simulate burn progress (in real executor, this monitors actual hardware)
-    for (let progress = 20; progress <= 90; progress += 10) {
-      await sleep(1000);
-      await updateJobStatus(job.jobId, 'burning', progress);
+    for (let volume = 1; volume <= totalVolumes; volume++) {
+      if (volumes[volume - 1]?.burned) continue;
+      const volumeDetails = totalVolumes > 1 ? { volume, totalVolumes, volumeLabel: volumes[volume - 1].label } : {};
+      const discName = totalVolumes > 1 ? `disc ${volume} of ${totalVolumes}` : 'disc';
+      const baseProgress = Math.round(10 + (80 * (volume - 1)) / totalVolumes);
       
-      // Check for cancel signal
-      const signals = await receiveSignals();
-      const cancelSignal = signals.find(s => 
-        s.payload?.action === 'cancel' && s.payload?.jobId === job.jobId
-      );
-      if (cancelSignal) {
-        await updateJobStatus(job.jobId, 'cancelled', progress);
-        await syncToOneDriveAfterBurn(job.jobId, 'cancelled');
-        return;
+      if (needsBlank) {
+        const ready = await waitForBlankDisc(manifest, actor, volume, totalVolumes, baseProgress, heartbeat);
+        if (!ready) {
+          await updateJobStatus(manifest, actor, 'cancelled', baseProgress, 'Cancel signal received while awaiting disc', volumeDetails);
+          await syncToOneDriveAfterBurn(job.jobId, 'cancelled');
+          finalStatus = 'cancelled';
+          return finalStatus;
+        }
       }
+      
+      // Send signal to DVD burner
+      await sendCommand('burn', {
+        jobId: job.jobId,
+        files: job.files,
+        priority: job.priority,
+        encryption: manifest.target.discSettings.encryption,
+        ...volumeDetails,
+      });
+      
+      // Byte positions map onto the disc's files in burn order
+      const volumeFiles = manifest.payload.files.filter(f => f.include && (volumes.length === 0 || f.volume === volume));
+      const volumeBytes = volumeFiles.reduce((sum, f) => sum + (f.size || 0), 0);
+      const tracker = createProgressTracker({ id: job.jobId, phase: 'burning', label: `Burning ${discName}`, bytesTotal: volumeBytes, filesTotal: volumeFiles.length });
+      
+      // Update status: burning
+      await updateJobStatus(manifest, actor, 'burning', baseProgress, `Burning ${discName}`, { ...volumeDetails, transfer: tracker.current() });
+      
+      // Simulate burn progress (in real executor, this monitors actual hardware)
+      for (let step = 1; step <= BURN_STEPS; step++) {
+        const progress = Math.round(10 + (80 * (volume - 1 + step / BURN_STEPS)) / totalVolumes);
+        await sleep(1000);
+        await heartbeat();
+        tracker.update(burnPosition(volumeFiles, Math.round((volumeBytes * step) / BURN_STEPS)));
+        if (step === BURN_STEPS) tracker.finish();
+        await updateJobStatus(manifest, actor, 'burning', progress, undefined, { ...volumeDetails, transfer: tracker.current() });
+        
+        // Check for cancel and pause requests
+        let control = await readControl(job.jobId);
+        if (control === 'pause') {
+          const checkpoint = { volume, step, progress, savedAt: new Date().toISOString() };
+          control = await pauseAtCheckpoint(manifest, actor, checkpoint, heartbeat, volumeDetails);
+        }
+        if (control === 'cancel') {
+          await updateJobStatus(manifest, actor, 'cancelled', progress, 'Cancel signal received', volumeDetails);
+          await syncToOneDriveAfterBurn(job.jobId, 'cancelled');
+          finalStatus = 'cancelled';
+          return finalStatus;
+        }
+      }
+      
+      // Read the disc back before recording it as burned
+      if (manifest.target.discSettings.verify) {
+        await updateJobStatus(manifest, actor, 'verifying', Math.round(10 + (80 * volume) / totalVolumes), `Reading back ${discName}`, volumeDetails);
+        const report = await verifyVolume(manifest, totalVolumes > 1 ? volume : undefined, volumeFiles);
+        verification.push(report);
+        if (report.skipped) {
+          manifest.lifecycle.unverified = report.reason;
+        } else if (!report.passed) {
+          throw new Error(report.reason);
+        }
+      }
+      
+      // Record the burned disc so an interrupted set resumes at the next blank
+      delete manifest.lifecycle.checkpoint;
+      if (volumes.length > 0) {
+        markVolumeBurned(manifest, volume, actor);
+        await saveJobManifest(manifest);
+        console.log(`[EXECUTOR] Disc ${volume} of ${totalVolumes} burned: ${volumes[volume - 1].label}`);
+      }
+      needsBlank = true;
     }
     
-    // Update status: verifying
-    await updateJobStatus(job.jobId, 'verifying', 95);
-    await sleep(500);
+    // The state machine only reaches complete through verifying
+    if (!manifest.target.discSettings.verify) {
+      manifest.lifecycle.unverified = 'Verification disabled in disc settings';
+      await updateJobStatus(manifest, actor, 'verifying', 95, manifest.lifecycle.unverified);
+    }
     
-    // Update status: complete
-    await updateJobStatus(job.jobId, 'complete', 100);
+    // Update status: complete, flagged when any disc went unread
+    const unverified = manifest.lifecycle.unverified;
+    await updateJobStatus(
+      manifest,
+      actor,
+      'complete',
+      100,
+      unverified ? `${totalVolumes} disc(s) burned, NOT verified: ${unverified}` : `${totalVolumes} disc(s) burned and verified`,
+      { verified: !unverified, ...(unverified ? { unverified } : {}) }
+    );
     
     // Sync to OneDrive after burn
-    await syncToOneDriveAfterBurn(job.jobId, 'complete');
-    
-    // Remove from pending
-    await deleteFromOneDrive(`pending/${job.jobId}.json`);
+    await syncToOneDriveAfterBurn(job.jobId, 'complete', undefined, verification);
     
     state.completedJobs.push(job.jobId);
     console.log(`[EXECUTOR] Job complete: ${job.jobId}`);
+    finalStatus = 'complete';
     
   } catch (error: any) {
     console.error(`[EXECUTOR] Job failed: ${job.jobId}`, error.message);
     
-    await updateJobStatus(job.jobId, 'failed', 0, error.message);
-    await syncToOneDriveAfterBurn(job.jobId, 'failed', error.message);
+    const decision = await handleJobFailure(job.jobId, manifest, error, actor).catch(policyError => {
+      console.error(`[EXECUTOR] Could not apply retry policy to ${job.jobId}:`, policyError.message);
+      return null;
+    });
     
-    state.failedJobs.push(job.jobId);
+    if (decision?.action === 'retry') {
+      console.log(`[EXECUTOR] Retry ${decision.retry} of ${job.jobId} at ${decision.retryAt} (${decision.kind} error)`);
+      await writeJobStatus(job.jobId, 'pending', 0, error.message, { retry: decision.retry, retryAt: decision.retryAt });
+      // Stays queued, invisible to executors until the backoff lapses
+      requeued = await queue.nack(lease, { delayMs: decision.delayMs, error: error.message }).then(() => true, nackError => {
+        console.error(`[EXECUTOR] Could not requeue ${job.jobId}:`, nackError.message);
+        return false;
+      });
+      finalStatus = 'retrying';
+    } else {
+      const outcome = decision ? { errorKind: decision.kind, disposition: decision.action, reason: decision.reason } : {};
+      await writeJobStatus(job.jobId, 'failed', 0, error.message, outcome);
+      await syncToOneDriveAfterBurn(job.jobId, 'failed', error.message, verification);
+      state.failedJobs.push(job.jobId);
+    }
+  } finally {
+    // Every other outcome is recorded in status/completed, so the job leaves the queue
+    if (!requeued) {
+      await queue.ack(lease).catch(error => {
+        console.error(`[EXECUTOR] Could not release ${job.jobId}:`, error.message);
+      });
+    }
+    state.currentJob = null;
   }
   
-  state.currentJob = null;
+  return finalStatus;
 }
 
+// Applies the change to the job manifest, then publishes it to the phone
 async function updateJobStatus(
+  manifest: BurnManifest,
+  actor: string,
+  status: JobStatus,
+  progress: number,
+  reason?: string,
+  details: Record<string, unknown> = {}
+): Promise<void> {
+  await advanceJob(manifest, status, actor, reason);
+  await writeJobStatus(manifest.job.id, status, progress, undefined, details);
+}
+
+async function writeJobStatus(
   jobId: string, 
   status: JobStatus, 
   progress: number,
-  error?: string
+  error?: string,
+  details: Record<string, unknown> = {}
 ): Promise<void> {
   const statusUpdate = {
     jobId,
     status,
     progress,
     error,
+    ...details,
     updated: new Date().toISOString(),
     device: 'HP DVD557s',
   };
   
   // Write to status folder
-  await uploadToOneDrive(`status/${jobId}.json`, JSON.stringify(statusUpdate, null, 2));
+  await uploadFile(`status/${jobId}.json`, JSON.stringify(statusUpdate, null, 2));
   
   // Send signal back to phone
   await sendCommand('status', statusUpdate);
 }
 
+function isJobSignal(signal: SignalPacket, action: string, jobId: string): boolean {
+  return signal.payload?.action === action && (signal.payload?.jobId ?? signal.payload?.params?.jobId) === jobId;
+}
+
+// Latest cancel/pause/resume request from device signals or CLI command files; cancel always wins.
+// Callers that also look for other signals pass the ones they received.
+async function readControl(jobId: string, signals?: SignalPacket[]): Promise<ControlAction | null> {
+  const requests: { action: ControlAction; timestamp: number }[] = [];
+  
+  for (const signal of signals ?? await receiveSignals()) {
+    const action = CONTROL_ACTIONS.find(a => isJobSignal(signal, a, jobId));
+    if (action) requests.push({ action, timestamp: signal.timestamp });
+  }
+  
+  for (const action of CONTROL_ACTIONS) {
+    const content = await readFile(`commands/${jobId}-${action}.json`);
+    if (!content) continue;
+    await deleteFile(`commands/${jobId}-${action}.json`);
+    try {
+      requests.push({ action, timestamp: JSON.parse(content).timestamp || Date.now() });
+    } catch {
+      requests.push({ action, timestamp: Date.now() });
+    }
+  }
+  
+  if (requests.some(r => r.action === 'cancel')) return 'cancel';
+  return requests.sort((a, b) => a.timestamp - b.timestamp).pop()?.action ?? null;
+}
+
+// Holds the burn at its checkpoint, keeping the lease, until resumed or cancelled
+async function pauseAtCheckpoint(
+  manifest: BurnManifest,
+  actor: string,
+  checkpoint: BurnCheckpoint,
+  heartbeat: () => Promise<void>,
+  details: Record<string, unknown>
+): Promise<'resume' | 'cancel'> {
+  const jobId = manifest.job.id;
+  const where = `disc ${checkpoint.volume}, step ${checkpoint.step}/${BURN_STEPS} (${checkpoint.progress}%)`;
+  
+  await sendCommand('pause', { jobId, checkpoint });
+  manifest.lifecycle.checkpoint = checkpoint;
+  await updateJobStatus(manifest, actor, 'paused', checkpoint.progress, `Paused at ${where}`, { ...details, checkpoint });
+  console.log(`[EXECUTOR] Paused ${jobId} at ${where}`);
+  
+  while (true) {
+    await sleep(2000);
+    await heartbeat();
+    const control = await readControl(jobId);
+    if (control === 'cancel') {
+      return 'cancel';
+    }
+    if (control === 'resume') {
+      await sendCommand('resume', { jobId, checkpoint });
+      await updateJobStatus(manifest, actor, 'burning', checkpoint.progress, `Resumed from ${where}`, details);
+      console.log(`[EXECUTOR] Resumed ${jobId} from ${where}`);
+      return 'resume';
+    }
+  }
+}
+
+// Prompt for the next blank and wait until the device reports it loaded; false when
+// cancelled, and the attempt fails once the device's discWaitMinutes run out
+async function waitForBlankDisc(
+  manifest: BurnManifest,
+  actor: string,
+  volume: number,
+  totalVolumes: number,
+  progress: number,
+  heartbeat: () => Promise<void>
+): Promise<boolean> {
+  const jobId = manifest.job.id;
+  const device = (await getConfig()).devices.find(d => d.name === manifest.target.device.name);
+  const waitMinutes = device?.discWaitMinutes ?? DEFAULT_DISC_WAIT_MINUTES;
+  const deadline = Date.now() + waitMinutes * 60 * 1000;
+  console.log(`[EXECUTOR] Insert blank disc ${volume} of ${totalVolumes} for ${jobId}`);
+  
+  await sendCommand('insert_disc', { jobId, volume, totalVolumes });
+  await updateJobStatus(manifest, actor, 'burning', progress, `Awaiting blank disc ${volume} of ${totalVolumes}`, { volume, totalVolumes, awaitingDisc: true });
+  
+  while (true) {
+    const signals = await receiveSignals();
+    if ((await readControl(jobId, signals)) === 'cancel') {
+      return false;
+    }
+    if (signals.some(s => s.payload?.action === 'disc_ready' && s.payload?.jobId === jobId)) {
+      return true;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`No blank disc ${volume} of ${totalVolumes} loaded within ${waitMinutes} minutes`);
+    }
+    await sleep(Math.min(5000, Math.max(0, deadline - Date.now())));
+    await heartbeat();
+  }
+}
+
+// Where a burn is after the given number of bytes
+function burnPosition(files: PayloadFile[], bytesDone: number): { bytesDone: number; currentFile?: string; filesDone: number } {
+  let end = 0;
+  let filesDone = 0;
+  for (const file of files) {
+    end += file.size || 0;
+    if (end > bytesDone) {
+      return { bytesDone, currentFile: file.path, filesDone };
+    }
+    filesDone++;
+  }
+  return { bytesDone, currentFile: files[files.length - 1]?.path, filesDone };
+}
+
+// Checks the disc in the drive (or its image) against the manifest digests
+async function verifyVolume(manifest: BurnManifest, volume: number | undefined, volumeFiles: PayloadFile[]): Promise<VerificationReport> {
+  const config = await getConfig();
+  const device = config.devices.find(d => d.name === manifest.target.device.name && d.enabled);
+  
+  // Nothing was read back, so the disc is not reported as passed
+  if (!device?.readbackPath) {
+    console.log(`[EXECUTOR] Verification skipped: no readback path configured for ${manifest.target.device.name}`);
+    return {
+      source: '',
+      sourceType: 'directory',
+      volume,
+      verifiedAt: new Date().toISOString(),
+      passed: false,
+      skipped: true,
+      checked: 0,
+      failed: 0,
+      files: [],
+      reason: `No readback path configured for ${manifest.target.device.name}`,
+    };
+  }
+  
+  const tracker = createProgressTracker({
+    id: manifest.job.id,
+    phase: 'verifying',
+    label: volume ? `Verifying disc ${volume}` : 'Verifying disc',
+    bytesTotal: volumeFiles.reduce((sum, f) => sum + (f.size || 0), 0),
+    filesTotal: volumeFiles.length,
+  });
+  const report = await verifyBurn(device.readbackPath, manifest.payload.files, {
+    volume,
+    encrypted: !!manifest.target.discSettings.encryption,
+    onFile: (filePath, size) => {
+      tracker.advance(size, filePath);
+      tracker.fileDone();
+    },
+  });
+  tracker.finish();
+  console.log(`[EXECUTOR] Verified ${report.checked} files from ${report.source}: ${report.passed ? 'OK' : report.reason}`);
+  return report;
+}
+
 async function syncToOneDriveAfterBurn(
   jobId: string, 
-  finalStatus: 'complete' | 'failed' | 'cancelled',
-  error?: string
+  finalStatus: FinalStatus,
+  error?: string,
+  verification: VerificationReport[] = []
 ): Promise<void> {
   const completionRecord = {
     jobId,
     status: finalStatus,
     completedAt: new Date().toISOString(),
     error,
+    verified: verification.length > 0 && verification.every(report => report.passed),
+    verification,
     device: 'HP DVD557s',
     syncedToOneDrive: true,
   };
   
   // Upload completion record
-  await uploadToOneDrive(`completed/${jobId}.json`, JSON.stringify(completionRecord, null, 2));
+  await uploadFile(`completed/${jobId}.json`, JSON.stringify(completionRecord, null, 2));
   
   // Upload to archive
-  await uploadToOneDrive(`archive/${new Date().toISOString().split('T')[0]}/${jobId}.json`, 
+  await uploadFile(`archive/${new Date().toISOString().split('T')[0]}/${jobId}.json`, 
     JSON.stringify(completionRecord, null, 2)
   );
   
-  console.log(`[EXECUTOR] Synced to OneDrive: ${jobId} -> ${finalStatus}`);
+  console.log(`[EXECUTOR] Synced: ${jobId} -> ${finalStatus}`);
 }
 
 export function getExecutorState(): ExecutorState {
@@ -202,22 +474,35 @@ function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-// Export for CLI integration
-export async function runSingleBurn(jobId: string): Promise<{ success: boolean; message: string }> {
+// Export for CLI integration; without a job ID the next queued job is claimed
+export async function runSingleBurn(jobId?: string): Promise<{ success: boolean; jobId?: string; message: string }> {
   try {
-    const content = await readFromOneDrive(`pending/${jobId}.json`);
-    if (!content) {
-      return { success: false, message: `Job not found: ${jobId}` };
+    const queue = await getJobQueue();
+    const lease = jobId ? await queue.lease(jobId) : await queue.claim();
+    if (!lease) {
+      return {
+        success: false,
+        jobId,
+        message: jobId ? `Job not queued or claimed by another executor: ${jobId}` : 'No pending jobs to execute.',
+      };
     }
     
-    const job = JSON.parse(content);
-    await processJob(job);
+    const finalStatus = await processJob(queue, lease);
+    
+    const messages: Record<AttemptResult, string> = {
+      complete: `Burn complete: ${lease.jobId} -> synced`,
+      retrying: `Burn failed: ${lease.jobId}; retry scheduled`,
+      failed: `Burn failed: ${lease.jobId}`,
+      cancelled: `Burn cancelled: ${lease.jobId}`,
+      refused: `Burn refused: ${lease.jobId} is not approved (admin approve ${lease.jobId})`,
+    };
     
     return { 
-      success: true, 
-      message: `Burn complete: ${jobId} -> synced to OneDrive` 
+      success: finalStatus === 'complete', 
+      jobId: lease.jobId,
+      message: messages[finalStatus],
     };
   } catch (error: any) {
-    return { success: false, message: error.message };
+    return { success: false, jobId, message: error.message };
   }
 }
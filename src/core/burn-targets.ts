@@ -0,0 +1,122 @@
+/**
+ * Burn Targets
+ * Resolves a burn target into the workspace files to put on disc
+ *
+ *   burn src docs/guide.md          directories and files, relative to the workspace
+ *   burn src/components/*.tsx *.md  glob patterns
+ *   burn all --exclude *.log        everything except matches of --exclude
+ *   burn src --encrypt              an encrypted disc (see sealed-disc.ts)
+ *
+ * .discburnignore in the workspace root is applied to every burn, with
+ * gitignore semantics (see ignore-rules.ts). 'all' or 'everything' selects
+ * the whole workspace; priority and urgent only set the job priority, and
+ * encrypted is the same as --encrypt.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { compileRule, parseIgnoreFile, createIgnoreMatcher, IgnoreRule } from './ignore-rules';
+
+export const IGNORE_FILE = '.discburnignore';
+
+export interface TargetSelection {
+  all: boolean;
+  selectors: string[];
+  excludes: string[];
+  encrypt: boolean;
+  ignoreFile: string | null;
+  included: string[];
+  excluded: string[];
+  unmatched: string[];
+}
+
+const EVERYTHING = new Set(['all', 'everything']);
+const PRIORITY_WORDS = new Set(['priority', 'urgent']);
+const ENCRYPT_WORDS = new Set(['--encrypt', 'encrypted']);
+const GLOB_CHARS = /[*?[]/;
+
+export function parseTarget(target: string = ''): { all: boolean; selectors: string[]; excludes: string[]; encrypt: boolean } {
+  let all = false;
+  let encrypt = false;
+  const selectors: string[] = [];
+  const excludes: string[] = [];
+  const tokens = target.match(/"[^"]*"|'[^']*'|\S+/g) || [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i].replace(/^(["'])(.*)\1$/, '$2');
+    if (token === '--exclude') {
+      if (tokens[i + 1]) excludes.push(tokens[++i].replace(/^(["'])(.*)\1$/, '$2'));
+    } else if (token.startsWith('--exclude=')) {
+      excludes.push(token.slice('--exclude='.length));
+    } else if (EVERYTHING.has(token.toLowerCase())) {
+      all = true;
+    } else if (ENCRYPT_WORDS.has(token.toLowerCase())) {
+      encrypt = true;
+    } else if (!PRIORITY_WORDS.has(token.toLowerCase())) {
+      selectors.push(token);
+    }
+  }
+
+  return { all: all || selectors.length === 0, selectors, excludes, encrypt };
+}
+
+export async function resolveBurnTarget(files: string[], target?: string, root: string = process.cwd()): Promise<TargetSelection> {
+  const { all, selectors, excludes, encrypt } = parseTarget(target);
+
+  let ignoreContent: string | null = null;
+  try {
+    ignoreContent = await fs.readFile(path.join(root, IGNORE_FILE), 'utf-8');
+  } catch {}
+
+  const ignored = createIgnoreMatcher([
+    ...(ignoreContent ? parseIgnoreFile(ignoreContent) : []),
+    ...excludes.map(pattern => compileRule(pattern)).filter((rule): rule is IgnoreRule => !!rule),
+  ]);
+
+  // Words after 'all' (burn all projects) are descriptive, not paths
+  let chosen = files;
+  const unmatched: string[] = [];
+  if (!all) {
+    const picked = new Set<string>();
+    for (const selector of selectors) {
+      const matches = files.filter(pathSelector(selector));
+      if (matches.length === 0) unmatched.push(selector);
+      matches.forEach(f => picked.add(f));
+    }
+    chosen = files.filter(f => picked.has(f));
+  }
+
+  const included = chosen.filter(f => !ignored.ignores(f));
+  const kept = new Set(included);
+
+  return {
+    all,
+    selectors,
+    excludes,
+    encrypt,
+    ignoreFile: ignoreContent !== null ? IGNORE_FILE : null,
+    included,
+    excluded: files.filter(f => !kept.has(f)),
+    unmatched,
+  };
+}
+
+// Plain paths are anchored at the workspace root; a directory takes everything below it
+export function pathSelector(selector: string): (file: string) => boolean {
+  const cleaned = selector.replace(/^(\.\/)+/, '');
+  const rule = compileRule(GLOB_CHARS.test(cleaned) ? cleaned : `/${cleaned}`);
+  if (!rule) {
+    return () => false;
+  }
+  const matcher = createIgnoreMatcher([rule]);
+  return file => matcher.ignores(file);
+}
+
+export function describeSelection(selection: TargetSelection): string {
+  const lines = [`Selection: ${selection.included.length} of ${selection.included.length + selection.excluded.length} files`];
+  lines.push(`  Paths: ${selection.all ? 'whole workspace' : selection.selectors.join(', ')}`);
+  if (selection.excludes.length > 0) lines.push(`  Excluded: ${selection.excludes.join(', ')}`);
+  if (selection.ignoreFile) lines.push(`  Ignore file: ${selection.ignoreFile}`);
+  if (selection.unmatched.length > 0) lines.push(`  No match: ${selection.unmatched.join(', ')}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,48 @@
+/**
+ * Checksums
+ * SHA-256 content digests and the Merkle root used for payload integrity
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+
+export const CHECKSUM_PREFIX = 'sha256:';
+
+export function sha256(data: Buffer | string): string {
+  return CHECKSUM_PREFIX + createHash('sha256').update(data).digest('hex');
+}
+
+export function sha256File(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(CHECKSUM_PREFIX + hash.digest('hex')));
+  });
+}
+
+// Leaves bind each path to its digest and are ordered by path, so renames,
+// additions and content changes all move the root. Leaf and node hashes use
+// distinct prefixes and an odd node is promoted rather than duplicated.
+export function merkleRoot(entries: { path: string; checksum: string }[]): string {
+  let level: Buffer[] = [...entries]
+    .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+    .map(e => createHash('sha256').update(Buffer.from([0])).update(`${e.path}\0${e.checksum}`).digest());
+
+  if (level.length === 0) {
+    return sha256('');
+  }
+
+  while (level.length > 1) {
+    const next: Buffer[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length
+        ? createHash('sha256').update(Buffer.from([1])).update(level[i]).update(level[i + 1]).digest()
+        : level[i]);
+    }
+    level = next;
+  }
+
+  return CHECKSUM_PREFIX + level[0].toString('hex');
+}
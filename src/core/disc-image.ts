@@ -0,0 +1,124 @@
+/**
+ * Disc Image Primitives
+ * Shared directory tree and sector layout helpers for the image writers
+ */
+
+import * as fs from 'fs/promises';
+
+export const SECTOR_SIZE = 2048;
+
+// File contents come either from memory or straight from disk
+export interface ImageEntry {
+  path: string;
+  size: number;
+  mtime?: Date;
+  data?: Buffer;
+  sourcePath?: string;
+}
+
+export interface ImageNode {
+  name: string;
+  isDirectory: boolean;
+  entry?: ImageEntry;
+  children: ImageNode[];
+  parent: ImageNode | null;
+}
+
+export type ImageChunk =
+  | { offset: number; data: Buffer }
+  | { offset: number; sourcePath: string; size: number };
+
+const COPY_BUFFER_SIZE = 1024 * 1024;
+
+export function sectorsFor(bytes: number): number {
+  return Math.ceil(bytes / SECTOR_SIZE);
+}
+
+export function entryChunk(entry: ImageEntry, offset: number): ImageChunk {
+  if (entry.data) {
+    return { offset, data: entry.data };
+  }
+  if (!entry.sourcePath) {
+    throw new Error(`No content for image entry: ${entry.path}`);
+  }
+  return { offset, sourcePath: entry.sourcePath, size: entry.size };
+}
+
+export function buildImageTree(entries: ImageEntry[]): ImageNode {
+  const root: ImageNode = { name: '', isDirectory: true, children: [], parent: null };
+
+  for (const entry of entries) {
+    const parts = entry.path.split(/[\\/]+/).filter(p => p && p !== '.');
+    if (parts.length === 0 || parts.includes('..')) {
+      throw new Error(`Invalid image path: ${entry.path}`);
+    }
+
+    let dir = root;
+    for (const part of parts.slice(0, -1)) {
+      let child = dir.children.find(c => c.name === part);
+      if (!child) {
+        child = { name: part, isDirectory: true, children: [], parent: dir };
+        dir.children.push(child);
+      } else if (!child.isDirectory) {
+        throw new Error(`Path conflicts with a file: ${entry.path}`);
+      }
+      dir = child;
+    }
+
+    const name = parts[parts.length - 1];
+    if (dir.children.some(c => c.name === name)) {
+      throw new Error(`Duplicate image path: ${entry.path}`);
+    }
+    dir.children.push({ name, isDirectory: false, entry, children: [], parent: dir });
+  }
+
+  return root;
+}
+
+// Breadth-first directory order, which is also the path table order
+export function listDirectories(root: ImageNode, sortChildren: (nodes: ImageNode[]) => ImageNode[]): ImageNode[] {
+  const dirs: ImageNode[] = [root];
+  for (let i = 0; i < dirs.length; i++) {
+    for (const child of sortChildren(dirs[i].children)) {
+      if (child.isDirectory) dirs.push(child);
+    }
+  }
+  return dirs;
+}
+
+export async function writeImageChunks(outputPath: string, totalSize: number, chunks: ImageChunk[]): Promise<void> {
+  const handle = await fs.open(outputPath, 'w');
+  try {
+    await handle.truncate(totalSize);
+    for (const chunk of chunks) {
+      if ('data' in chunk) {
+        if (chunk.data.length > 0) {
+          await handle.write(chunk.data, 0, chunk.data.length, chunk.offset);
+        }
+      } else {
+        await copyFileInto(handle, chunk.sourcePath, chunk.offset, chunk.size);
+      }
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+async function copyFileInto(target: fs.FileHandle, sourcePath: string, offset: number, size: number): Promise<void> {
+  const source = await fs.open(sourcePath, 'r');
+  const buffer = Buffer.alloc(Math.min(COPY_BUFFER_SIZE, Math.max(size, 1)));
+  try {
+    let copied = 0;
+    while (copied < size) {
+      const { bytesRead } = await source.read(buffer, 0, Math.min(buffer.length, size - copied), copied);
+      if (bytesRead === 0) break;
+      await target.write(buffer, 0, bytesRead, offset + copied);
+      copied += bytesRead;
+    }
+    if (copied !== size) {
+      throw new Error(`File changed while writing image: ${sourcePath}`);
+    }
+  } finally {
+    await source.close();
+  }
+}
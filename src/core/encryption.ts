@@ -0,0 +1,345 @@
+/**
+ * Client-Side Encryption
+ * AES-256-GCM sealing of content written to storage destinations
+ *
+ *   DISCBURN-SEALED-1\n | header length (4 bytes) | JSON header | ciphertext
+ *
+ * The header carries the key ID, scrypt salt, nonce and GCM tag. Keys are
+ * derived from the bytes of encryption.keyfile or, failing that, from the
+ * passphrase in DISCBURN_PASSPHRASE. Writes are sealed only while
+ * encryption.enabled is on; sealed content is opened on read whatever the
+ * setting. Plaintext is the caller's to judge: storage refuses it while
+ * encryption is on unless it was recorded as unsealed.
+ *
+ * The key ID is an HMAC under a key derived with a random per-install salt
+ * (encryption.keySalt), which the header carries so another install can check
+ * it. The same key names stored objects, so that a listing of a destination
+ * does not tell which content is backed up.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createReadStream, createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, scrypt } from 'crypto';
+import { getConfig, updateConfig, EncryptionConfig } from './admin';
+
+export const ENCRYPTION_ALGORITHM = 'AES-256-GCM';
+// Named in messages; loadKeyMaterial reads process.env.DISCBURN_PASSPHRASE directly
+export const PASSPHRASE_ENV = 'DISCBURN_PASSPHRASE';
+
+const MAGIC = Buffer.from('DISCBURN-SEALED-1\n');
+const KEY_ID_LABEL = 'discburn-key-id';
+const OBJECT_NAME_LABEL = 'discburn-object';
+// Stands in for the GCM tag while a file is streamed; same base64 length
+const TAG_PLACEHOLDER = Buffer.alloc(16).toString('base64');
+
+export interface ObjectEncryption {
+  algorithm: typeof ENCRYPTION_ALGORITHM;
+  keyId: string;
+  // Salt the key ID was derived with; absent in headers written before it was recorded
+  keySalt?: string;
+  nonce: string;
+}
+
+// What identifies the key content was sealed with
+export interface KeyReference {
+  keyId: string;
+  keySalt?: string;
+}
+
+export interface SealedContent {
+  data: Buffer | string;
+  encryption?: ObjectEncryption;
+}
+
+interface EnvelopeHeader extends ObjectEncryption {
+  salt: string;
+  tag: string;
+}
+
+interface KeyContext {
+  signature: string;
+  origin: string;
+  material: Buffer;
+  keyId: string;
+  keySalt: string;
+  // Derived with keySalt; keys the key ID and object names
+  namingKey: Buffer;
+  salt: Buffer;
+  keys: Map<string, Buffer>;
+}
+
+let keyContext: KeyContext | null = null;
+let keySaltWrite: Promise<string> | null = null;
+
+function deriveKey(material: Buffer, salt: Buffer | string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(material, salt, 32, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+async function loadKeyMaterial(config?: EncryptionConfig): Promise<{ material: Buffer; origin: string } | null> {
+  if (config?.keyfile) {
+    const keyfile = path.resolve(process.cwd(), config.keyfile);
+    return { material: await fs.readFile(keyfile), origin: `keyfile ${keyfile}` };
+  }
+  const passphrase = process.env.DISCBURN_PASSPHRASE;
+  return passphrase ? { material: Buffer.from(passphrase, 'utf-8'), origin: `passphrase $${PASSPHRASE_ENV}` } : null;
+}
+
+// Generated once; concurrent first uses share the same write
+async function installKeySalt(encryption?: EncryptionConfig): Promise<string> {
+  if (encryption?.keySalt) {
+    return encryption.keySalt;
+  }
+  keySaltWrite ??= (async () => {
+    const keySalt = randomBytes(16).toString('base64');
+    await updateConfig({ encryption: { enabled: false, ...encryption, keySalt } });
+    return keySalt;
+  })();
+  return keySaltWrite;
+}
+
+function keyIdFor(namingKey: Buffer): string {
+  return createHmac('sha256', namingKey).update(KEY_ID_LABEL).digest('hex').slice(0, 16);
+}
+
+// The derived keys are cached until the key material or install salt changes
+async function getKeyContext(): Promise<KeyContext | null> {
+  const { encryption } = await getConfig();
+  const source = await loadKeyMaterial(encryption);
+  if (!source) {
+    return null;
+  }
+
+  const keySalt = await installKeySalt(encryption);
+  const signature = `${source.origin}\0${keySalt}\0${createHash('sha256').update(source.material).digest('hex')}`;
+  if (keyContext?.signature !== signature) {
+    const namingKey = await deriveKey(source.material, Buffer.from(keySalt, 'base64'));
+    keyContext = {
+      signature,
+      origin: source.origin,
+      material: source.material,
+      keyId: keyIdFor(namingKey),
+      keySalt,
+      namingKey,
+      salt: randomBytes(16),
+      keys: new Map([[keySalt, namingKey]]),
+    };
+  }
+  return keyContext;
+}
+
+async function keyFor(context: KeyContext, salt: Buffer): Promise<Buffer> {
+  const cacheKey = salt.toString('base64');
+  let key = context.keys.get(cacheKey);
+  if (!key) {
+    key = await deriveKey(context.material, salt);
+    context.keys.set(cacheKey, key);
+  }
+  return key;
+}
+
+export async function encryptionEnabled(): Promise<boolean> {
+  return (await getConfig()).encryption?.enabled ?? false;
+}
+
+// Key ID and origin of the configured key, for status output
+export async function describeEncryptionKey(): Promise<{ keyId: string; keySalt: string; origin: string } | null> {
+  const context = await getKeyContext();
+  return context ? { keyId: context.keyId, keySalt: context.keySalt, origin: context.origin } : null;
+}
+
+// Whether the configured key is the one a reference names, derived with the
+// reference's own salt; references without one are left to decryption to judge
+async function matchesKey(context: KeyContext, reference: KeyReference): Promise<boolean> {
+  if (!reference.keySalt) {
+    return true;
+  }
+  return keyIdFor(await keyFor(context, Buffer.from(reference.keySalt, 'base64'))) === reference.keyId;
+}
+
+export async function configuredKeyMatches(reference: KeyReference): Promise<boolean> {
+  const context = await getKeyContext();
+  return !!context && (await matchesKey(context, reference));
+}
+
+// Names content by a keyed HMAC of its digest while encryption is on; null
+// while it is off, when content is named by its digest
+export async function objectNamer(): Promise<((digest: string) => string) | null> {
+  const context = await sealingContext();
+  return context ? digest => createHmac('sha256', context.namingKey).update(`${OBJECT_NAME_LABEL}\0${digest}`).digest('hex') : null;
+}
+
+export function isSealed(content: Buffer | string): boolean {
+  return Buffer.isBuffer(content) && content.length > MAGIC.length && content.subarray(0, MAGIC.length).equals(MAGIC);
+}
+
+function readHeader(content: Buffer): { header: EnvelopeHeader; body: Buffer } {
+  const length = content.readUInt32BE(MAGIC.length);
+  const start = MAGIC.length + 4;
+  return {
+    header: JSON.parse(content.subarray(start, start + length).toString('utf-8')),
+    body: content.subarray(start + length),
+  };
+}
+
+// Header and ciphertext offset of a sealed file, or null for a plain one
+async function readFileHeader(filePath: string): Promise<{ header: EnvelopeHeader; offset: number } | null> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const prefix = Buffer.alloc(MAGIC.length + 4);
+    const { bytesRead } = await handle.read(prefix, 0, prefix.length, 0);
+    if (bytesRead < prefix.length || !prefix.subarray(0, MAGIC.length).equals(MAGIC)) {
+      return null;
+    }
+    const headerBytes = Buffer.alloc(prefix.readUInt32BE(MAGIC.length));
+    await handle.read(headerBytes, 0, headerBytes.length, prefix.length);
+    return { header: JSON.parse(headerBytes.toString('utf-8')), offset: prefix.length + headerBytes.length };
+  } finally {
+    await handle.close();
+  }
+}
+
+function envelopePrefix(header: EnvelopeHeader): Buffer {
+  const headerBytes = Buffer.from(JSON.stringify(header), 'utf-8');
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(headerBytes.length);
+  return Buffer.concat([MAGIC, length, headerBytes]);
+}
+
+function describeHeader(header: EnvelopeHeader): ObjectEncryption {
+  return { algorithm: header.algorithm, keyId: header.keyId, ...(header.keySalt ? { keySalt: header.keySalt } : {}), nonce: header.nonce };
+}
+
+// The key to seal with, or null while encryption is off and not forced
+async function sealingContext(force?: boolean): Promise<KeyContext | null> {
+  if (!force && !(await encryptionEnabled())) {
+    return null;
+  }
+  const context = await getKeyContext();
+  if (!context) {
+    throw new Error(`Encryption is enabled but no key is configured: set ${PASSPHRASE_ENV} or encryption.keyfile`);
+  }
+  return context;
+}
+
+async function openingDecipher(header: EnvelopeHeader) {
+  const context = await getKeyContext();
+  if (!context) {
+    throw new Error(`Content is encrypted with key ${header.keyId} but no key is configured: set ${PASSPHRASE_ENV} or encryption.keyfile`);
+  }
+  if (!(await matchesKey(context, header))) {
+    throw new Error(`Content is encrypted with key ${header.keyId}, which the configured key (${context.keyId}) does not match`);
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', await keyFor(context, Buffer.from(header.salt, 'base64')), Buffer.from(header.nonce, 'base64'));
+  decipher.setAuthTag(Buffer.from(header.tag, 'base64'));
+  return decipher;
+}
+
+// Seals content when encryption is on, or always with force (encrypted discs);
+// content that is already sealed passes through
+export async function sealContent(content: Buffer | string, options: { force?: boolean } = {}): Promise<SealedContent> {
+  if (isSealed(content)) {
+    return { data: content, encryption: describeHeader(readHeader(content as Buffer).header) };
+  }
+  const context = await sealingContext(options.force);
+  if (!context) {
+    return { data: content };
+  }
+
+  const nonce = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', await keyFor(context, context.salt), nonce);
+  const ciphertext = Buffer.concat([cipher.update(content), cipher.final()]);
+  const header: EnvelopeHeader = {
+    algorithm: ENCRYPTION_ALGORITHM,
+    keyId: context.keyId,
+    keySalt: context.keySalt,
+    nonce: nonce.toString('base64'),
+    salt: context.salt.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+  };
+
+  return { data: Buffer.concat([envelopePrefix(header), ciphertext]), encryption: describeHeader(header) };
+}
+
+// Streams a sealed copy of a file to outputPath, for files too large to seal in
+// memory. The header goes out with a placeholder tag and is rewritten in place
+// once the tag is known. Returns null without writing when the file needs no
+// sealing: encryption is off and not forced, or the file is already sealed.
+export async function sealFile(sourcePath: string, outputPath: string, options: { force?: boolean } = {}): Promise<ObjectEncryption | null> {
+  if (await readFileHeader(sourcePath)) {
+    return null;
+  }
+  const context = await sealingContext(options.force);
+  if (!context) {
+    return null;
+  }
+
+  const nonce = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', await keyFor(context, context.salt), nonce);
+  const header: EnvelopeHeader = {
+    algorithm: ENCRYPTION_ALGORITHM,
+    keyId: context.keyId,
+    keySalt: context.keySalt,
+    nonce: nonce.toString('base64'),
+    salt: context.salt.toString('base64'),
+    tag: TAG_PLACEHOLDER,
+  };
+
+  try {
+    const output = createWriteStream(outputPath);
+    output.write(envelopePrefix(header));
+    await pipeline(createReadStream(sourcePath), cipher, output);
+
+    const prefix = envelopePrefix({ ...header, tag: cipher.getAuthTag().toString('base64') });
+    const handle = await fs.open(outputPath, 'r+');
+    try {
+      await handle.write(prefix, 0, prefix.length, 0);
+    } finally {
+      await handle.close();
+    }
+  } catch (error) {
+    await fs.rm(outputPath, { force: true });
+    throw error;
+  }
+  return describeHeader(header);
+}
+
+export async function openContent(content: Buffer): Promise<Buffer> {
+  if (!isSealed(content)) {
+    return content;
+  }
+
+  const { header, body } = readHeader(content);
+  const decipher = await openingDecipher(header);
+  try {
+    return Buffer.concat([decipher.update(body), decipher.final()]);
+  } catch {
+    throw new Error(`Decryption failed for key ${header.keyId}: content was altered or damaged`);
+  }
+}
+
+// Streams the opened content of a sealed file to outputPath; nothing is kept
+// unless the whole file authenticates. Returns false without writing when the
+// file is not sealed.
+export async function openFile(sourcePath: string, outputPath: string): Promise<boolean> {
+  const sealed = await readFileHeader(sourcePath);
+  if (!sealed) {
+    return false;
+  }
+
+  const decipher = await openingDecipher(sealed.header);
+  const partialPath = `${outputPath}.partial`;
+  try {
+    await pipeline(createReadStream(sourcePath, { start: sealed.offset }), decipher, createWriteStream(partialPath));
+  } catch (error: any) {
+    await fs.rm(partialPath, { force: true });
+    if (error.syscall) throw error;
+    throw new Error(`Decryption failed for key ${sealed.header.keyId}: content was altered or damaged`);
+  }
+  await fs.rename(partialPath, outputPath);
+  return true;
+}
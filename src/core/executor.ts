@@ -1,16 +1,29 @@
-import * as fs from 'fs/promises';
 import * as path from 'path';
-import { uploadToOneDrive, listOneDriveFiles, checkOneDriveConnection, readFromOneDrive, deleteFromOneDrive } from '../adapters/onedrive';
-import { uploadToSovereignCapsule, checkSovereignCapsuleConnection, getSovereignCapsuleStatus } from '../adapters/sovereigncapsule';
+import { uploadFile, describeLocation, getDestinations, writeToDestinations, formatDestinationResults } from './storage';
 import { addToHistory, getSavedCommands } from '../storage/fileStorage';
-import { createManifest, transitionState, MANIFEST_VERSION } from './manifest';
+import { createManifest, transitionState, MANIFEST_VERSION, DiscEncryption } from './manifest';
 import { logAudit, getConfig, getAuditLog, getCommandRegistry } from './admin';
-import { establishBidirectionalChannel, sendBurnCommand, sendCancel, sendStatusRequest, receiveSignals, getDeviceState, probeConnection, getHelmStatus, activateHelm, deactivateHelm } from '../adapters/usb-signal';
+import { establishBidirectionalChannel, sendBurnCommand, sendCancel, sendPause, sendResume, sendStatusRequest, receiveSignals, getDeviceState, probeConnection, getHelmStatus, activateHelm, deactivateHelm } from '../adapters/usb-signal';
 import { runSingleBurn, getExecutorState } from './burn-executor';
-import { generateBurnPackage, createBurnScript } from './iso-generator';
+import { getJobQueue, jobFromManifest } from './job-queue';
+import { listDeadLetters, retryJob } from './retry-policy';
+import { loadJobManifest } from './job-lifecycle';
+import { approveJob, rejectJob, listAwaitingApproval } from './approval';
+import { enforceJobPolicy, recordJobCreated, formatPolicyViolations } from './policy';
+import { collectGarbage, formatGcReport } from './retention';
+import { sha256File } from './checksum';
+import { resolveBurnTarget, describeSelection, parseTarget } from './burn-targets';
+import { scanWorkspaceFiles, entrySizes } from './workspace';
+import { createSnapshot } from './snapshots';
+import { listRestoreSources, restore, formatRestoreReport } from './restore';
+import { diffSnapshots, formatDiff } from './snapshot-diff';
+import { describeEncryptionKey, encryptionEnabled } from './encryption';
+import { discEncryptionKey } from './sealed-disc';
+import { generateBurnPackage, createBurnScript, SkippedFile } from './iso-generator';
 import { getAIMesh, getRegistry, exportIntegrationManifest } from './qpprs-mesh';
+import { parseWatchOptions, collectWatchSnapshot, formatWatchDashboard } from './watch';
 
-interface CommandResult {
+export interface CommandResult {
   success: boolean;
   message: string;
   data?: any;
@@ -55,6 +68,15 @@ export async function executeCommand(intent: string, target?: string, parameters
         result = await executeCancel(target);
         break;
       
+      case 'pause':
+      case 'resume':
+        result = await executePauseResume(intent, target);
+        break;
+      
+      case 'retry':
+        result = await executeRetry(target);
+        break;
+      
       case 'send':
         result = await executeSend(target, parameters);
         break;
@@ -68,7 +90,15 @@ export async function executeCommand(intent: string, target?: string, parameters
         break;
       
       case 'package':
-        result = await executePackage();
+        result = await executePackage(target);
+        break;
+      
+      case 'restore':
+        result = await executeRestore(target);
+        break;
+      
+      case 'diff':
+        result = await executeDiff(target);
         break;
       
       case 'help':
@@ -121,52 +151,77 @@ export async function executeCommand(intent: string, target?: string, parameters
 }
 
 async function executeBurnToDisc(target?: string): Promise<CommandResult> {
-  const files = await scanWorkspaceFiles();
+  const entries = await scanWorkspaceFiles();
+  const files = entries.map(e => e.path);
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
   const burnJobId = `burn-${timestamp}`;
   
   const priority = target?.toLowerCase().includes('priority') || target?.toLowerCase().includes('urgent') ? 'high' : 'normal';
   
+  const selection = await resolveBurnTarget(files, target);
+  if (selection.included.length === 0) {
+    return {
+      success: false,
+      message: `No files to burn for target '${target || 'all'}'.\n${describeSelection(selection)}`,
+      data: selection,
+    };
+  }
+  
+  // Quotas are checked on real sizes before anything is hashed or written
+  const fileSizes = entrySizes(entries);
+  const selected = new Set(selection.included);
+  const policy = await enforceJobPolicy('burn', entrySizes(entries.filter(e => selected.has(e.path))), burnJobId);
+  if (!policy.allowed) {
+    return { success: false, message: formatPolicyViolations(policy), data: policy };
+  }
+  
+  // The key is fixed when the job is created; the executor must seal with the same one.
+  // With encryption on every disc is encrypted, since images skip envelope sealing.
+  let encryption: DiscEncryption | undefined;
+  if (selection.encrypt || await encryptionEnabled()) {
+    try {
+      encryption = await discEncryptionKey();
+    } catch (error: any) {
+      return { success: false, message: `Failed to create burn job: ${error.message}` };
+    }
+  }
+  
   const manifest = createManifest({
     jobId: burnJobId,
     files,
+    selected: selection.included,
+    ...(await inspectFiles(selection.included, fileSizes)),
     target,
     priority,
+    encryption,
   });
+  const volumeCount = manifest.payload.volumes?.length || 1;
   
-  const updatedManifest = transitionState(manifest, 'pending', 'system', 'Uploaded to cloud');
-  
-  const config = await getConfig();
-  const results: string[] = [];
+  const { policies } = await getConfig();
+  const updatedManifest = policies.requireApproval
+    ? transitionState(manifest, 'awaiting_approval', 'system', 'Approval required by policy')
+    : transitionState(manifest, 'pending', 'system', 'Uploaded to cloud');
+  const awaitingApproval = updatedManifest.lifecycle.currentState === 'awaiting_approval';
   
   try {
-    await uploadToOneDrive(`jobs/${burnJobId}/manifest.json`, JSON.stringify(updatedManifest, null, 2));
-    await uploadToOneDrive(`pending/${burnJobId}.json`, JSON.stringify({
-      jobId: burnJobId,
-      status: 'pending',
-      created: manifest.job.created,
-      fileCount: files.length,
-      priority: manifest.job.priority,
-    }, null, 2));
-    results.push('OneDrive: Uploaded');
+    const fanOut = await writeToDestinations(`jobs/${burnJobId}/manifest.json`, JSON.stringify(updatedManifest, null, 2));
+    if (!fanOut.success) {
+      return {
+        success: false,
+        message: `Failed to create burn job: ${fanOut.summary}\n${formatDestinationResults(fanOut)}`,
+        data: fanOut,
+      };
+    }
     
-    if (config.features.dualWrite) {
-      const scStatus = getSovereignCapsuleStatus();
-      if (scStatus.enabled && scStatus.configured) {
-        try {
-          await uploadToSovereignCapsule(`jobs/${burnJobId}/manifest.json`, JSON.stringify(updatedManifest, null, 2));
-          results.push('SovereignCapsule: Uploaded');
-        } catch {
-          results.push('SovereignCapsule: Pending');
-        }
-      } else {
-        results.push('SovereignCapsule: Awaiting configuration');
-      }
+    // Unapproved jobs stay out of the queue until 'admin approve'
+    if (!awaitingApproval) {
+      await (await getJobQueue()).enqueue(jobFromManifest(updatedManifest));
     }
+    await recordJobCreated('burn', burnJobId, policy.usage);
     
     await addToHistory({
       input: `burn to disc ${target || 'all'}`,
-      result: `Created burn job ${burnJobId} with ${files.length} files`,
+      result: `Created burn job ${burnJobId} with ${selection.included.length} files`,
       success: true,
     });
     
@@ -177,19 +232,27 @@ ADMINISTRATIVE PLATFORM - BURN JOB
 ==================================
 Job ID: ${burnJobId}
 Manifest Version: ${MANIFEST_VERSION}
-Status: PENDING
+Status: ${awaitingApproval ? 'AWAITING APPROVAL' : 'PENDING'}
 Priority: ${manifest.job.priority.toUpperCase()}
 
 Target Device: ${manifest.target.device.name}
-Disc Type: ${manifest.target.discSettings.type}
-Files: ${files.length}
+Disc Type: ${manifest.target.discSettings.type}${encryption ? `
+Encryption: ${encryption.algorithm} (key ${encryption.keyId})` : ''}
+${describeSelection(selection)}
+Size: ${((manifest.payload.totalSize || 0) / 1024 / 1024).toFixed(2)} MB${volumeCount > 1 ? `
+Discs: ${volumeCount} (${manifest.payload.volumes!.map(v => v.label).join(', ')})` : ''}
 
 Destinations:
-${results.map(r => `  - ${r}`).join('\n')}
+${formatDestinationResults(fanOut)}
 
-Location: OneDrive/DiscBurn/pending/${burnJobId}.json
+${awaitingApproval
+  ? `Location: ${await describeLocation(`jobs/${burnJobId}/manifest.json`)}
 
-Awaiting executor pickup...
+Approval required: admin approve ${burnJobId}
+              or: admin reject ${burnJobId} <reason>`
+  : `Location: ${await describeLocation(`pending/${burnJobId}.json`)}
+
+Awaiting executor pickup...`}
 `,
       data: updatedManifest,
     };
@@ -202,43 +265,31 @@ Awaiting executor pickup...
 }
 
 async function executeBackup(target?: string): Promise<CommandResult> {
-  const files = await scanWorkspaceFiles();
+  const entries = await scanWorkspaceFiles();
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupId = `backup-${timestamp}`;
   
-  const backupData = {
-    version: MANIFEST_VERSION,
-    type: 'backup',
-    timestamp,
-    target: target || 'all',
-    files,
-    totalFiles: files.length,
-  };
-  
-  const fileName = `backups/backup-${timestamp}.json`;
-  const config = await getConfig();
-  const results: string[] = [];
+  const policy = await enforceJobPolicy('backup', entrySizes(entries), backupId);
+  if (!policy.allowed) {
+    return { success: false, message: formatPolicyViolations(policy), data: policy };
+  }
   
   try {
-    await uploadToOneDrive(fileName, JSON.stringify(backupData, null, 2));
-    results.push('OneDrive: Complete');
-    
-    if (config.features.dualWrite) {
-      const scStatus = getSovereignCapsuleStatus();
-      if (scStatus.enabled && scStatus.configured) {
-        try {
-          await uploadToSovereignCapsule(fileName, JSON.stringify(backupData, null, 2));
-          results.push('SovereignCapsule: Complete');
-        } catch {
-          results.push('SovereignCapsule: Pending');
-        }
-      } else {
-        results.push('SovereignCapsule: Awaiting configuration');
-      }
+    const result = await createSnapshot(entries, { id: backupId, target });
+    if (!result.success || !result.snapshot) {
+      return {
+        success: false,
+        message: `Backup failed: ${result.error}${result.fanOut ? `\n${formatDestinationResults(result.fanOut)}` : ''}`,
+        data: result,
+      };
     }
+    const { snapshot } = result;
+    
+    await recordJobCreated('backup', backupId, policy.usage);
     
     await addToHistory({
       input: `backup ${target || 'all'}`,
-      result: `Backed up ${files.length} files`,
+      result: `Snapshot ${backupId}: ${snapshot.totalFiles} files, ${snapshot.stats.uploadedObjects} new objects`,
       success: true,
     });
     
@@ -247,12 +298,20 @@ async function executeBackup(target?: string): Promise<CommandResult> {
       message: `
 BACKUP COMPLETE
 ===============
-Files: ${files.length}
+Snapshot: ${backupId}
 Target: ${target || 'all'}
+Files: ${snapshot.totalFiles} (${(snapshot.totalSize / 1024 / 1024).toFixed(2)} MB)
+Uploaded: ${snapshot.stats.uploadedObjects} new objects (${(snapshot.stats.uploadedBytes / 1024 / 1024).toFixed(2)} MB)
+Unchanged: ${snapshot.stats.reusedFiles} files already stored
+Previous: ${snapshot.parent || 'none (full backup)'}${snapshot.skipped.length > 0 ? `
+Skipped: ${snapshot.skipped.length} unreadable files` : ''}
 
 Destinations:
-${results.map(r => `  - ${r}`).join('\n')}
+${formatDestinationResults(result.fanOut!)}
+
+Location: ${await describeLocation(`snapshots/${backupId}.json`)}
 `,
+      data: snapshot,
     };
   } catch (error: any) {
     return {
@@ -264,16 +323,23 @@ ${results.map(r => `  - ${r}`).join('\n')}
 
 async function executeSync(): Promise<CommandResult> {
   try {
-    const cloudFiles = await listOneDriveFiles();
-    const scStatus = getSovereignCapsuleStatus();
+    const destinations = await getDestinations();
+    const lines: string[] = [];
+    for (const destination of destinations) {
+      if (!destination.configured) {
+        lines.push(`${destination.name}: Awaiting configuration`);
+        continue;
+      }
+      const items = await destination.list();
+      lines.push(`${destination.name}: ${items.length} items in ${destination.locate('')}`);
+    }
     
     return {
       success: true,
       message: `
 SYNC STATUS
 ===========
-OneDrive: ${cloudFiles.length} items in /DiscBurn
-SovereignCapsule: ${scStatus.enabled ? (scStatus.configured ? 'Connected' : 'Awaiting configuration') : 'Disabled'}
+${lines.join('\n')}
 `,
     };
   } catch (error: any) {
@@ -285,7 +351,7 @@ SovereignCapsule: ${scStatus.enabled ? (scStatus.configured ? 'Connected' : 'Awa
 }
 
 async function executeList(): Promise<CommandResult> {
-  const files = await scanWorkspaceFiles();
+  const files = (await scanWorkspaceFiles()).map(e => e.path);
   const savedCommands = await getSavedCommands();
   const registry = await getCommandRegistry();
   
@@ -302,9 +368,23 @@ ${registry.map(c => `  [${c.category}] ${c.name}: ${c.command}`).join('\n')}
 }
 
 async function executeStatus(): Promise<CommandResult> {
-  const oneDriveConnected = await checkOneDriveConnection();
-  const scStatus = getSovereignCapsuleStatus();
+  const destinations = await getDestinations();
   const config = await getConfig();
+  const connections: string[] = [];
+  for (const destination of destinations) {
+    const role = destination.readable && destination.required ? ' (primary)' : destination.required ? ' (required)' : '';
+    const state = !destination.configured ? 'Awaiting configuration' : (await destination.checkConnection()) ? 'Connected' : 'Not connected';
+    connections.push(`${destination.name}${role}: ${state}`);
+  }
+  
+  let encryptionState = config.encryption?.enabled ? 'On' : 'Off';
+  try {
+    const key = await describeEncryptionKey();
+    if (key) encryptionState += ` (key ${key.keyId}, ${key.origin})`;
+    else if (config.encryption?.enabled) encryptionState += ' (NO KEY CONFIGURED)';
+  } catch (error: any) {
+    encryptionState += ` (key unavailable: ${error.message})`;
+  }
   
   return {
     success: true,
@@ -316,8 +396,7 @@ Mode: ${config.platform.mode.toUpperCase()}
 
 CONNECTIONS
 -----------
-OneDrive: ${oneDriveConnected ? 'Connected' : 'Not connected'}
-SovereignCapsule: ${scStatus.enabled ? (scStatus.configured ? 'Connected' : 'Awaiting configuration') : 'Disabled'}
+${connections.join('\n')}
 
 DEVICES
 -------
@@ -329,6 +408,7 @@ Natural Language: ${config.features.naturalLanguage ? 'On' : 'Off'}
 Dual-Write: ${config.features.dualWrite ? 'On' : 'Off'}
 Auto-Retry: ${config.features.autoRetry ? 'On' : 'Off'}
 Admin Mode: ${config.features.adminMode ? 'On' : 'Off'}
+Encryption: ${encryptionState}
 
 POLICIES
 --------
@@ -346,16 +426,62 @@ async function executeAdmin(subcommand?: string): Promise<CommandResult> {
       message: `
 ADMIN COMMANDS
 ==============
-admin audit    - View recent audit log
-admin config   - View platform configuration
-admin registry - View command registry
+admin audit                   - View recent audit log
+admin config                  - View platform configuration
+admin registry                - View command registry
+admin approvals               - List jobs awaiting approval
+admin approve <jobId>         - Approve a job and queue it
+admin reject <jobId> <reason> - Reject a job
+admin gc [--dry-run]          - Delete records, packages and backups older than retentionDays
 
 Type: admin <subcommand>
 `,
     };
   }
   
-  switch (subcommand.toLowerCase()) {
+  const [action, jobId, ...rest] = subcommand.trim().split(/\s+/);
+  
+  switch (action.toLowerCase()) {
+    case 'approve': {
+      if (!jobId) {
+        return { success: false, message: 'Specify job ID. Usage: admin approve <jobId>' };
+      }
+      const approval = await approveJob(jobId);
+      return { success: approval.success, message: approval.message, data: approval.manifest };
+    }
+    
+    case 'reject': {
+      const reason = rest.join(' ');
+      if (!jobId || !reason) {
+        return { success: false, message: 'Specify job ID and reason. Usage: admin reject <jobId> <reason>' };
+      }
+      const rejection = await rejectJob(jobId, reason);
+      return { success: rejection.success, message: rejection.message, data: rejection.manifest };
+    }
+    
+    case 'gc': {
+      const dryRun = [jobId, ...rest].some(arg => arg === '--dry-run' || arg === 'dry-run');
+      const report = await collectGarbage({ dryRun });
+      return {
+        success: report.items.every(i => !i.error),
+        message: formatGcReport(report),
+        data: report,
+      };
+    }
+    
+    case 'approvals': {
+      const waiting = await listAwaitingApproval();
+      return {
+        success: true,
+        message: `
+AWAITING APPROVAL (${waiting.length})
+=================
+${waiting.map(m => `  ${m.job.id}  ${m.job.priority.toUpperCase()}  ${m.payload.totalFiles} files  ${((m.payload.totalSize || 0) / 1024 / 1024).toFixed(2)} MB`).join('\n') || '  (none)'}
+`,
+        data: waiting.map(m => m.job.id),
+      };
+    }
+    
     case 'audit':
       const logs = await getAuditLog(20);
       return {
@@ -416,19 +542,36 @@ Phone <-> Anker Hub <-> HP DVD557s
 BURN COMMANDS
   burn                    - Create burn job for HP DVD557s
   package                 - Create burn-ready package (download to PC)
+  package --encrypt       - Encrypted discs, with an offline decryption tool
   burn all projects       - Burn all project files
+  burn src docs/a.md      - Burn selected directories and files
+  burn *.md src/**/*.ts   - Burn files matching glob patterns
+  burn all --exclude *.log - Burn all except matching files
+                            (.discburnignore is always applied)
+  burn src --encrypt      - Burn an encrypted disc
 
 SIGNAL COMMANDS
-  watch                   - Monitor bidirectional signals
+  watch                   - Live dashboard of jobs, signals and HELM (q to quit)
+  watch --interval 5      - Refresh every 5 seconds (default 2)
+  watch --json            - One JSON snapshot per line, for piping
   send                    - Send signal to DVD burner
   cancel <jobId>          - Cancel a burn job
+  pause <jobId>           - Pause a running burn at its checkpoint
+  resume <jobId>          - Resume a paused burn
+  retry <jobId>           - Queue a failed or dead-lettered job again
   execute                 - Execute burn + sync to OneDrive
   automate                - Start automation loop
   automate auto           - Auto-burn on file changes
 
 BACKUP COMMANDS
-  backup                  - Backup to cloud destinations
+  backup                  - Incremental snapshot to cloud destinations
   backup documents        - Backup specific files
+  restore                 - List snapshots and burn packages
+  restore <id> [paths]    - Restore into data/restore/<id>
+    --to <dir>            - Restore into another directory
+    --force               - Overwrite files that differ
+  diff <a> [b|workspace]  - Compare snapshots, burn jobs or packages
+                            (a or b may be 'latest'; b defaults to workspace)
 
 SYSTEM COMMANDS
   sync                    - Sync with cloud storage
@@ -446,45 +589,19 @@ Type 'exit' to quit.
   };
 }
 
+// A single refresh; the CLI keeps redrawing it (see watch.ts)
 async function executeWatch(target?: string): Promise<CommandResult> {
-  const deviceState = await probeConnection();
-  const signals = await receiveSignals();
-  
-  // Get pending jobs from cloud
-  const pendingFiles = await listOneDriveFiles('/DiscBurn/pending');
-  const statusFiles = await listOneDriveFiles('/DiscBurn/status');
-  
-  let jobStatuses: any[] = [];
-  for (const file of statusFiles.slice(0, 5)) {
-    try {
-      const content = await readFromOneDrive(`status/${file.name}`);
-      if (content) jobStatuses.push(JSON.parse(content));
-    } catch {}
+  const { options, error } = parseWatchOptions(target);
+  if (!options) {
+    return { success: false, message: error! };
   }
-  
+
+  await probeConnection();
+  const snapshot = await collectWatchSnapshot();
   return {
     success: true,
-    message: `
-BIDIRECTIONAL SIGNAL MONITOR
-============================
-Device: ${deviceState.connected ? `CONNECTED (${deviceState.deviceId})` : 'Searching...'}
-Capabilities: ${deviceState.capabilities.join(', ') || 'Probing...'}
-Last Signal: ${deviceState.lastSignal ? new Date(deviceState.lastSignal).toLocaleTimeString() : 'None'}
-
-OUTBOUND (Phone -> DVD557s)
----------------------------
-Pending Jobs: ${pendingFiles.length}
-${pendingFiles.slice(0, 3).map((f: any) => `  - ${f.name}`).join('\n') || '  (none)'}
-
-INBOUND (DVD557s -> Phone)
---------------------------
-New Signals: ${signals.length}
-${signals.slice(0, 5).map(s => `  [${s.type}] ${JSON.stringify(s.payload).substring(0, 50)}`).join('\n') || '  (waiting...)'}
-
-JOB STATUS
-----------
-${jobStatuses.map(s => `  ${s.jobId}: ${s.status} ${s.progress ? `(${s.progress}%)` : ''}`).join('\n') || '  No active jobs'}
-`,
+    message: options.json ? JSON.stringify(snapshot) : `\n${formatWatchDashboard(snapshot).join('\n')}\n`,
+    data: snapshot,
   };
 }
 
@@ -496,7 +613,7 @@ async function executeCancel(target?: string): Promise<CommandResult> {
   const signal = await sendCancel(target);
   
   // Also write cancel command to cloud for executor pickup
-  await uploadToOneDrive(`commands/${target}-cancel.json`, JSON.stringify({
+  await uploadFile(`commands/${target}-cancel.json`, JSON.stringify({
     jobId: target,
     command: 'cancel',
     timestamp: Date.now(),
@@ -517,6 +634,63 @@ Awaiting acknowledgment...
   };
 }
 
+async function executePauseResume(action: 'pause' | 'resume', target?: string): Promise<CommandResult> {
+  if (!target) {
+    return { success: false, message: `Specify job ID to ${action}. Usage: ${action} <jobId>` };
+  }
+  
+  const manifest = await loadJobManifest(target);
+  if (!manifest) {
+    return { success: false, message: `Job not found: ${target}` };
+  }
+  
+  const state = manifest.lifecycle.currentState;
+  const expected = action === 'pause' ? 'burning' : 'paused';
+  if (state !== expected) {
+    return {
+      success: false,
+      message: `Cannot ${action} ${target}: job is ${state}, only ${expected} jobs can be ${action === 'pause' ? 'paused' : 'resumed'}.`,
+      data: { jobId: target, state },
+    };
+  }
+  
+  const signal = action === 'pause' ? await sendPause(target) : await sendResume(target);
+  
+  // Also write the command to cloud for executor pickup
+  await uploadFile(`commands/${target}-${action}.json`, JSON.stringify({
+    jobId: target,
+    command: action,
+    timestamp: Date.now(),
+    signal,
+  }, null, 2));
+  
+  const checkpoint = manifest.lifecycle.checkpoint;
+  
+  return {
+    success: true,
+    message: `
+${action.toUpperCase()} SIGNAL SENT
+${'='.repeat(action.length + 12)}
+Job ID: ${target}
+Current State: ${state.toUpperCase()}
+Signal ID: ${signal.checksum}
+${checkpoint ? `Checkpoint: disc ${checkpoint.volume}, step ${checkpoint.step} (${checkpoint.progress}%)\n` : ''}Direction: Phone -> Anker -> DVD557s
+
+Awaiting executor...
+`,
+    data: { jobId: target, action, state, checkpoint },
+  };
+}
+
+async function executeRetry(target?: string): Promise<CommandResult> {
+  if (!target) {
+    return { success: false, message: 'Specify job ID to retry. Usage: retry <jobId>' };
+  }
+  
+  const retry = await retryJob(target);
+  return { success: retry.success, message: retry.message, data: retry.manifest };
+}
+
 async function executeSend(target?: string, parameters?: Record<string, string>): Promise<CommandResult> {
   const command = target || 'status';
   const signal = await sendStatusRequest();
@@ -551,16 +725,81 @@ Direction: Phone -> Anker -> DVD557s
 let automationRunning = false;
 let lastFileHash = '';
 
-async function executePackage(): Promise<CommandResult> {
-  const files = await scanWorkspaceFiles();
+async function executeDiff(target?: string): Promise<CommandResult> {
+  const [fromRef, toRef] = target?.trim().split(/\s+/).filter(Boolean) || [];
+  if (!fromRef) {
+    return { success: false, message: 'Usage: diff <snapshotA> [snapshotB|workspace]' };
+  }
+  
+  const diff = await diffSnapshots(fromRef, toRef);
+  if (typeof diff === 'string') {
+    return { success: false, message: diff };
+  }
+  return { success: true, message: formatDiff(diff), data: diff };
+}
+
+async function executeRestore(target?: string): Promise<CommandResult> {
+  const [sourceId, ...rest] = target?.trim().split(/\s+/).filter(Boolean) || [];
   
-  console.log(`[PACKAGE] Creating burn package with ${files.length} files...`);
+  if (!sourceId || sourceId.toLowerCase() === 'list') {
+    const sources = await listRestoreSources();
+    return {
+      success: true,
+      message: `
+RESTORE SOURCES (${sources.length})
+================
+${sources.map(s => `  ${s.id}  ${s.kind.padEnd(8)} ${s.created.replace('T', ' ').slice(0, 19)}  ${s.totalFiles} files, ${(s.totalSize / 1024 / 1024).toFixed(2)} MB  [${s.destinations.join(', ')}]${s.keyId ? `  encrypted, key ${s.keyId}` : ''}`).join('\n') || '  No snapshots or burn packages found'}
+
+Usage: restore <id> [paths...] [--to <dir>] [--force]
+`,
+      data: sources,
+    };
+  }
   
-  const result = await generateBurnPackage(files);
+  const paths: string[] = [];
+  let targetDir: string | undefined;
+  let force = false;
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === '--force') {
+      force = true;
+    } else if (rest[i] === '--to') {
+      targetDir = rest[++i];
+    } else if (rest[i].startsWith('--to=')) {
+      targetDir = rest[i].slice('--to='.length);
+    } else {
+      paths.push(rest[i]);
+    }
+  }
+  
+  const report = await restore(sourceId, { targetDir, paths, force });
+  return { success: report.success, message: formatRestoreReport(report), data: report };
+}
+
+async function executePackage(target?: string): Promise<CommandResult> {
+  const scanSkipped: SkippedFile[] = [];
+  const entries = await scanWorkspaceFiles({ skipped: scanSkipped });
+  const files = entries.map(e => e.path);
+  
+  let encryption: DiscEncryption | undefined;
+  if (parseTarget(target).encrypt || await encryptionEnabled()) {
+    try {
+      encryption = await discEncryptionKey();
+    } catch (error: any) {
+      return { success: false, message: `Failed to create burn package: ${error.message}` };
+    }
+  }
+  
+  console.log(`[PACKAGE] Creating ${encryption ? 'encrypted ' : ''}burn package with ${files.length} files...`);
+  
+  const manifest = createManifest({ jobId: `disc-${Date.now()}`, files, ...(await inspectFiles(files, entrySizes(entries))), encryption });
+  const result = await generateBurnPackage(files, manifest, scanSkipped);
   
   if (result.success && result.manifest) {
     const script = await createBurnScript();
-    await uploadToOneDrive(`burn-ready/${result.manifest.id}/BURN.bat`, script);
+    await uploadFile(`burn-ready/${result.manifest.id}/BURN.bat`, script);
+    
+    const skipped = result.skipped;
+    const volumes = result.manifest.volumes;
     
     return {
       success: true,
@@ -568,21 +807,28 @@ async function executePackage(): Promise<CommandResult> {
 BURN PACKAGE READY
 ==================
 Package ID: ${result.manifest.id}
+Volume: ${result.manifest.volumeLabel}
 Files: ${result.manifest.files.length}
-Size: ${(result.manifest.totalSize / 1024 / 1024).toFixed(2)} MB
-
-Location: OneDrive/DiscBurn/burn-ready/${result.manifest.id}/
+Size: ${(result.manifest.totalSize / 1024 / 1024).toFixed(2)} MB${encryption ? `
+Encryption: ${encryption.algorithm} (key ${encryption.keyId}), see DECRYPT.txt` : ''}
+${volumes.length > 1 ? `Discs: ${volumes.length}
+${volumes.map(v => `  ${v.number}. ${v.isoPath} (${v.fileCount} files)`).join('\n')}` : `Image: ${result.manifest.isoPath}`}
+${skipped.length > 0 ? `
+SKIPPED (${skipped.length})
+${skipped.slice(0, 10).map(f => `  ${f.path}: ${f.reason}`).join('\n')}${skipped.length > 10 ? `\n  ... and ${skipped.length - 10} more` : ''}
+` : ''}
+Location: ${await describeLocation(`burn-ready/${result.manifest.id}/`)}
 
 TO BURN:
 1. Open OneDrive on your computer
 2. Navigate to DiscBurn/burn-ready/${result.manifest.id}/
-3. Run BURN.bat (Windows) or select all files
-4. Right-click -> Send to -> DVD Drive
-5. Insert blank DVD-R in HP DVD557s
-6. Burn!
+3. Run BURN.bat (Windows) or right-click ${volumes.length > 1 ? 'each disc image' : `${result.manifest.volumeLabel}.iso`} -> Burn disc image
+4. Insert blank DVD-R in HP DVD557s${volumes.length > 1 ? ` (one blank per disc, in order)` : ''}
+5. Burn!
 
-The package includes all ${result.manifest.files.length} workspace files ready to burn.
+The package includes ${result.manifest.files.length} workspace files ready to burn.
 `,
+      data: result.manifest,
     };
   }
   
@@ -593,21 +839,11 @@ The package includes all ${result.manifest.files.length} workspace files ready t
 }
 
 async function executeRunBurn(target?: string): Promise<CommandResult> {
-  let jobId = target;
+  console.log(`[EXECUTE] Starting burn: ${target || 'next queued job'}`);
   
-  if (!jobId) {
-    // Get first pending job
-    const pendingFiles = await listOneDriveFiles('/DiscBurn/pending');
-    if (pendingFiles.length === 0) {
-      return { success: false, message: 'No pending jobs to execute.' };
-    }
-    jobId = pendingFiles[0].name.replace('.json', '');
-  }
-  
-  console.log(`[EXECUTE] Starting burn: ${jobId}`);
-  
-  // Run the burn with OneDrive sync after
-  const result = await runSingleBurn(jobId as string);
+  // Claims the job (or the next one) so no other executor burns it too
+  const result = await runSingleBurn(target);
+  const jobId = result.jobId;
   
   if (result.success) {
     return {
@@ -617,13 +853,13 @@ BURN EXECUTED
 =============
 Job ID: ${jobId}
 Status: COMPLETE
-OneDrive Sync: Done
+Storage Sync: Done
 
 Signal Path: Phone -> Anker -> DVD557s -> Anker -> Phone -> OneDrive
 
 Completion record saved to:
-  - OneDrive/DiscBurn/completed/${jobId}.json
-  - OneDrive/DiscBurn/archive/
+  - ${await describeLocation(`completed/${jobId}.json`)}
+  - ${await describeLocation('archive/')}
 `,
     };
   }
@@ -645,47 +881,32 @@ async function executeAutomate(mode?: string): Promise<CommandResult> {
   const config = await getConfig();
   
   // Get current file state
-  const files = await scanWorkspaceFiles();
+  const files = (await scanWorkspaceFiles()).map(e => e.path);
   const currentHash = files.join('|').length.toString();
   
-  // Check for pending jobs
-  const pendingFiles = await listOneDriveFiles('/DiscBurn/pending');
-  const statusFiles = await listOneDriveFiles('/DiscBurn/status');
+  // Check the job queue
+  const queue = await getJobQueue();
+  const queued = await queue.list();
   
   // Check inbound signals
   const signals = await receiveSignals();
   const deviceState = await probeConnection();
   
-  // Check for failed jobs to retry
-  let retriedJobs: string[] = [];
-  for (const file of statusFiles) {
-    try {
-      const content = await readFromOneDrive(`status/${file.name}`);
-      if (content) {
-        const status = JSON.parse(content);
-        if (status.status === 'failed' && status.retryCount < 3) {
-          // Requeue failed job
-          await uploadToOneDrive(`pending/${status.jobId}.json`, JSON.stringify({
-            ...status,
-            status: 'pending',
-            retryCount: (status.retryCount || 0) + 1,
-            retriedAt: new Date().toISOString(),
-          }, null, 2));
-          retriedJobs.push(status.jobId);
-        }
-      }
-    } catch {}
-  }
+  // Failed attempts are rescheduled by the executor's retry policy; show what is waiting
+  const retrying = queued.filter(e => e.state === 'delayed');
+  const deadLetters = await listDeadLetters();
   
   // Detect file changes
   const filesChanged = lastFileHash !== '' && lastFileHash !== currentHash;
   lastFileHash = currentHash;
   
-  // Auto-burn if files changed
+  // Auto-burn the whole workspace if files changed
   let autoBurnResult = '';
   if (filesChanged && mode === 'auto') {
-    const burnResult = await executeBurnToDisc('auto');
-    autoBurnResult = burnResult.success ? `Auto-burn triggered: ${burnResult.data?.job?.id}` : '';
+    const burnResult = await executeBurnToDisc('all');
+    autoBurnResult = burnResult.success
+      ? `Auto-burn triggered: ${burnResult.data?.job?.id}`
+      : `Auto-burn FAILED: ${burnResult.message.trim().split('\n')[0]}`;
   }
   
   return {
@@ -705,47 +926,38 @@ ${autoBurnResult ? `Action: ${autoBurnResult}` : ''}
 
 JOB QUEUE
 ---------
-Pending: ${pendingFiles.length}
-${pendingFiles.slice(0, 3).map((f: any) => `  - ${f.name}`).join('\n') || '  (empty)'}
+Pending: ${queued.length}
+${queued.slice(0, 3).map(e => `  - ${e.job.jobId} (${e.state})`).join('\n') || '  (empty)'}
 
 SIGNAL ACTIVITY
 ---------------
 Inbound: ${signals.length} new
-Retried: ${retriedJobs.length} jobs
-${retriedJobs.map(j => `  - ${j}`).join('\n') || ''}
+
+RETRIES
+-------
+Auto-Retry: ${config.features.autoRetry ? 'On' : 'Off'}
+Scheduled: ${retrying.length}
+${retrying.map(e => `  - ${e.job.jobId} at ${e.job.availableAt} (${e.job.lastError || 'unknown error'})`).join('\n') || ''}
+Dead-Letter: ${deadLetters.length}
+${deadLetters.slice(-3).map(d => `  - ${d.jobId}: ${d.reason}`).join('\n') || ''}
 
 Run 'automate stop' to halt.
 `,
   };
 }
 
-async function scanWorkspaceFiles(): Promise<string[]> {
-  const files: string[] = [];
-  const ignoreDirs = ['node_modules', '.git', '.cache', 'data', '.expo', '.local', '.upm'];
-  const ignoreFiles = ['.gitignore', '.replit', 'replit.nix', 'package-lock.json'];
-  
-  async function scan(dir: string, prefix: string = '') {
+// Sizes drive the disc volume plan and digests the payload checksum; unreadable files are reported at packaging
+async function inspectFiles(
+  files: string[],
+  fileSizes: Record<string, number>
+): Promise<{ fileSizes: Record<string, number>; fileChecksums: Record<string, string> }> {
+  const fileChecksums: Record<string, string> = {};
+  for (const file of files) {
     try {
-      const entries = await fs.readdir(dir, { withFileTypes: true });
-      for (const entry of entries) {
-        if (ignoreDirs.includes(entry.name)) continue;
-        if (ignoreFiles.includes(entry.name)) continue;
-        if (entry.name.startsWith('.')) continue;
-        
-        const fullPath = path.join(dir, entry.name);
-        const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
-        
-        if (entry.isDirectory()) {
-          await scan(fullPath, relativePath);
-        } else {
-          files.push(relativePath);
-        }
-      }
+      fileChecksums[file] = await sha256File(path.join(process.cwd(), file));
     } catch {}
   }
-  
-  await scan(process.cwd());
-  return files;
+  return { fileSizes, fileChecksums };
 }
 
 // ============================================
@@ -795,6 +1007,7 @@ WebSocket Blocking: ${status.settings.blockWebSockets ? 'ON' : 'OFF'}
 Script Injection Block: ${status.settings.blockScriptInjection ? 'ON' : 'OFF'}
 DVD557s Only: ${status.settings.onlyDVD557s ? 'ON' : 'OFF'}
 Rate Limit: ${status.settings.rateLimitPerMinute}/min
+Signal Signing: ${status.settings.signing === 'hmac-sha256' ? 'HMAC-SHA256' : 'MISSING - signals are not sent (set DISCBURN_SIGNAL_SECRET)'}
 Signals This Minute: ${status.stats.signalsThisMinute}
 Allowed Sources: ${status.allowedSources.join(', ')}
 `,
@@ -880,7 +1093,7 @@ async function executeQPPRS(target?: string): Promise<CommandResult> {
       
       // Save to OneDrive
       try {
-        await uploadToOneDrive('qpprs/manifest.json', JSON.stringify(manifest, null, 2));
+        await uploadFile('qpprs/manifest.json', JSON.stringify(manifest, null, 2));
       } catch {}
       
       return {
@@ -0,0 +1,179 @@
+/**
+ * Ignore Rules
+ * gitignore pattern semantics for .discburnignore, .gitignore and --exclude
+ *
+ *   # comment, blank lines      skipped
+ *   !pattern                    re-includes (not inside an ignored directory)
+ *   dir/                        matches directories only
+ *   /pattern, a/b               anchored to the file's directory
+ *   name, *.log                 matches at any depth
+ *   *, ?, [a-z], **             globbing; ** spans directories
+ *
+ * Paths are relative and '/'-separated.
+ */
+
+export interface IgnoreRule {
+  pattern: string;
+  negate: boolean;
+  dirOnly: boolean;
+  base: string;
+  regex: RegExp;
+}
+
+export interface IgnoreMatcher {
+  add(rules: IgnoreRule[]): void;
+  ignores(relativePath: string, isDirectory?: boolean): boolean;
+}
+
+export function compileRule(line: string, base: string = ''): IgnoreRule | null {
+  let pattern = line.replace(/\r$/, '').replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) {
+    return null;
+  }
+
+  let negate = false;
+  if (pattern.startsWith('!')) {
+    negate = true;
+    pattern = pattern.slice(1);
+  }
+
+  let dirOnly = false;
+  if (pattern.endsWith('/') && !pattern.endsWith('\\/')) {
+    dirOnly = true;
+    pattern = pattern.replace(/\/+$/, '');
+  }
+
+  const anchored = pattern.startsWith('/') || pattern.includes('/');
+  const body = globToRegex(pattern.replace(/^\/+/, ''));
+  if (!body) {
+    return null;
+  }
+
+  return {
+    pattern: line.trim(),
+    negate,
+    dirOnly,
+    base: normalizeRelative(base),
+    regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+  };
+}
+
+export function parseIgnoreFile(content: string, base: string = ''): IgnoreRule[] {
+  return content
+    .split('\n')
+    .map(line => compileRule(line, base))
+    .filter((rule): rule is IgnoreRule => !!rule);
+}
+
+// True when the rule matches this exact path (not its ancestors)
+export function ruleMatches(rule: IgnoreRule, relativePath: string, isDirectory: boolean): boolean {
+  if (rule.dirOnly && !isDirectory) {
+    return false;
+  }
+  const local = rule.base ? stripBase(relativePath, rule.base) : relativePath;
+  return local !== null && rule.regex.test(local);
+}
+
+export function createIgnoreMatcher(initial: IgnoreRule[] = []): IgnoreMatcher {
+  const rules: IgnoreRule[] = [...initial];
+
+  // The last matching rule decides
+  function decide(relativePath: string, isDirectory: boolean): boolean {
+    for (let i = rules.length - 1; i >= 0; i--) {
+      if (ruleMatches(rules[i], relativePath, isDirectory)) {
+        return !rules[i].negate;
+      }
+    }
+    return false;
+  }
+
+  return {
+    add(more: IgnoreRule[]) {
+      rules.push(...more);
+    },
+    // Anything inside an ignored directory stays ignored, as in git
+    ignores(relativePath: string, isDirectory: boolean = false): boolean {
+      const parts = normalizeRelative(relativePath).split('/');
+      for (let i = 1; i < parts.length; i++) {
+        if (decide(parts.slice(0, i).join('/'), true)) {
+          return true;
+        }
+      }
+      return decide(parts.join('/'), isDirectory);
+    },
+  };
+}
+
+export function normalizeRelative(relativePath: string): string {
+  return relativePath.split(/[\\/]+/).filter(p => p && p !== '.').join('/');
+}
+
+function stripBase(relativePath: string, base: string): string | null {
+  return relativePath.startsWith(`${base}/`) ? relativePath.slice(base.length + 1) : null;
+}
+
+function escapeRegex(char: string): string {
+  return char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+function globToRegex(glob: string): string {
+  let out = '';
+  let i = 0;
+
+  while (i < glob.length) {
+    const char = glob[i];
+
+    if (char === '\\' && i + 1 < glob.length) {
+      out += escapeRegex(glob[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atStart = i === 0 || glob[i - 1] === '/';
+        const atEnd = i + 2 === glob.length || glob[i + 2] === '/';
+        if (atStart && atEnd) {
+          if (i + 2 === glob.length) {
+            // Trailing **: everything below
+            out += '.*';
+            i += 2;
+          } else {
+            // **/: zero or more directories
+            out += '(?:.*/)?';
+            i += 3;
+          }
+          continue;
+        }
+      }
+      out += '[^/]*';
+      while (glob[i] === '*') i++;
+      continue;
+    }
+
+    if (char === '?') {
+      out += '[^/]';
+      i++;
+      continue;
+    }
+
+    if (char === '[') {
+      let j = i + 1;
+      if (glob[j] === '!' || glob[j] === '^') j++;
+      if (glob[j] === ']') j++;
+      const close = glob.indexOf(']', j);
+      if (close !== -1) {
+        const negated = glob[i + 1] === '!' || glob[i + 1] === '^';
+        const members = glob.slice(negated ? i + 2 : i + 1, close).replace(/\\/g, '\\\\');
+        out += `[${negated ? '^' : ''}${members}]`;
+        i = close + 1;
+        continue;
+      }
+    }
+
+    out += escapeRegex(char);
+    i++;
+  }
+
+  return out;
+}
@@ -0,0 +1,641 @@
+/**
+ * Disc Image Reader
+ * Lists and reads back files from ISO 9660 (Rock Ridge / Joliet) and UDF images,
+ * or from an optical drive's raw block device
+ */
+
+import * as fs from 'fs/promises';
+import { createHash } from 'crypto';
+import { SECTOR_SIZE } from './disc-image';
+import { CHECKSUM_PREFIX } from './checksum';
+
+export type ImageExtent =
+  | { offset: number; length: number }
+  | { zeros: number }
+  | { data: Buffer };
+
+export interface ImageFile {
+  path: string;
+  size: number;
+  extents: ImageExtent[];
+}
+
+export interface ImageListing {
+  format: 'iso9660' | 'udf';
+  volumeId: string;
+  files: ImageFile[];
+}
+
+const READ_BUFFER_SIZE = 1024 * 1024;
+
+async function readAt(handle: fs.FileHandle, offset: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, offset);
+  if (bytesRead < length) {
+    throw new Error(`Image truncated: wanted ${length} bytes at offset ${offset}`);
+  }
+  return buffer;
+}
+
+export async function readImageFiles(imagePath: string): Promise<ImageListing> {
+  const handle = await fs.open(imagePath, 'r');
+  try {
+    const identifiers: string[] = [];
+    for (let sector = 16; sector < 32; sector++) {
+      const header = Buffer.alloc(7);
+      const { bytesRead } = await handle.read(header, 0, 7, sector * SECTOR_SIZE);
+      if (bytesRead < 7) break;
+      const id = header.toString('latin1', 1, 6);
+      identifiers.push(id);
+      if (id === 'TEA01' || (id === 'CD001' && header[0] === 255 && !identifiers.includes('BEA01'))) break;
+    }
+
+    // Bridge discs carry both; UDF holds names and sizes ISO 9660 cannot
+    if (identifiers.includes('NSR02') || identifiers.includes('NSR03')) {
+      return await readUdf(handle);
+    }
+    if (identifiers.includes('CD001')) {
+      return await readIso9660(handle);
+    }
+    throw new Error('No ISO 9660 or UDF filesystem found');
+  } finally {
+    await handle.close();
+  }
+}
+
+export async function hashImageFile(imagePath: string, file: ImageFile): Promise<string> {
+  const hash = createHash('sha256');
+  await readImageFileChunks(imagePath, file, async chunk => {
+    hash.update(chunk);
+  });
+  return CHECKSUM_PREFIX + hash.digest('hex');
+}
+
+// Copies a file out of the image and returns the digest of what was written
+export async function extractImageFile(imagePath: string, file: ImageFile, outputPath: string): Promise<string> {
+  const output = await fs.open(outputPath, 'w');
+  const hash = createHash('sha256');
+  try {
+    await readImageFileChunks(imagePath, file, async chunk => {
+      hash.update(chunk);
+      await output.write(chunk);
+    });
+  } finally {
+    await output.close();
+  }
+  return CHECKSUM_PREFIX + hash.digest('hex');
+}
+
+async function readImageFileChunks(imagePath: string, file: ImageFile, onChunk: (chunk: Buffer) => Promise<void>): Promise<void> {
+  const handle = await fs.open(imagePath, 'r');
+  const buffer = Buffer.alloc(READ_BUFFER_SIZE);
+  let remaining = file.size;
+
+  try {
+    for (const extent of file.extents) {
+      if (remaining <= 0) break;
+      if ('data' in extent) {
+        const part = extent.data.subarray(0, remaining);
+        await onChunk(part);
+        remaining -= part.length;
+      } else if ('zeros' in extent) {
+        let left = Math.min(extent.zeros, remaining);
+        remaining -= left;
+        while (left > 0) {
+          const n = Math.min(left, buffer.length);
+          await onChunk(Buffer.alloc(n));
+          left -= n;
+        }
+      } else {
+        let left = Math.min(extent.length, remaining);
+        let position = extent.offset;
+        remaining -= left;
+        while (left > 0) {
+          const { bytesRead } = await handle.read(buffer, 0, Math.min(left, buffer.length), position);
+          if (bytesRead === 0) {
+            throw new Error(`Image truncated while reading ${file.path}`);
+          }
+          await onChunk(buffer.subarray(0, bytesRead));
+          left -= bytesRead;
+          position += bytesRead;
+        }
+      }
+    }
+
+    if (remaining > 0) {
+      throw new Error(`Extents shorter than file size: ${file.path}`);
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+// ============================================
+// ISO 9660
+// ============================================
+
+interface IsoRecord {
+  name: string;
+  isDirectory: boolean;
+  location: number;
+  length: number;
+  multiExtent: boolean;
+  relocated: boolean;
+  childLink?: number;
+}
+
+async function readIso9660(handle: fs.FileHandle): Promise<ImageListing> {
+  let primary: Buffer | null = null;
+  let joliet: Buffer | null = null;
+
+  for (let sector = 16; ; sector++) {
+    const descriptor = await readAt(handle, sector * SECTOR_SIZE, SECTOR_SIZE);
+    if (descriptor.toString('latin1', 1, 6) !== 'CD001' || descriptor[0] === 255) break;
+    if (descriptor[0] === 1 && !primary) primary = descriptor;
+    if (descriptor[0] === 2 && /^%\/[@CE]$/.test(descriptor.toString('latin1', 88, 91))) joliet = descriptor;
+  }
+  if (!primary) {
+    throw new Error('ISO 9660 primary volume descriptor missing');
+  }
+
+  const rootOf = (descriptor: Buffer) => ({ location: descriptor.readUInt32LE(156 + 2), length: descriptor.readUInt32LE(156 + 10) });
+  const primaryRoot = rootOf(primary);
+  const rootSector = await readAt(handle, primaryRoot.location * SECTOR_SIZE, SECTOR_SIZE);
+  const rockRidge = hasSuspSharing(rootSector);
+
+  // Rock Ridge keeps POSIX names; otherwise Joliet beats uppercase 8.3 names
+  const mode: 'rockridge' | 'joliet' | 'primary' = rockRidge ? 'rockridge' : joliet ? 'joliet' : 'primary';
+  const descriptor = mode === 'joliet' ? joliet! : primary;
+  const volumeId = mode === 'joliet'
+    ? decodeUcs2(descriptor.subarray(40, 72)).trim()
+    : descriptor.toString('latin1', 40, 72).trim();
+
+  const files: ImageFile[] = [];
+  const visited = new Set<number>();
+
+  async function walk(location: number, length: number, prefix: string) {
+    if (visited.has(location)) return;
+    visited.add(location);
+
+    const records = await readIsoDirectory(handle, location, length, mode);
+    let pending: ImageExtent[] = [];
+    let pendingSize = 0;
+
+    for (const record of records) {
+      if (record.relocated) continue;
+      const fullPath = prefix ? `${prefix}/${record.name}` : record.name;
+
+      if (record.childLink !== undefined) {
+        const child = await readAt(handle, record.childLink * SECTOR_SIZE, SECTOR_SIZE);
+        await walk(record.childLink, child.readUInt32LE(10), fullPath);
+      } else if (record.isDirectory) {
+        await walk(record.location, record.length, fullPath);
+      } else {
+        pending.push({ offset: record.location * SECTOR_SIZE, length: record.length });
+        pendingSize += record.length;
+        if (!record.multiExtent) {
+          files.push({ path: fullPath, size: pendingSize, extents: pending });
+          pending = [];
+          pendingSize = 0;
+        }
+      }
+    }
+  }
+
+  const root = mode === 'joliet' ? rootOf(joliet!) : primaryRoot;
+  await walk(root.location, root.length, '');
+
+  return { format: 'iso9660', volumeId, files };
+}
+
+function hasSuspSharing(rootSector: Buffer): boolean {
+  const recordLength = rootSector[0];
+  const idLength = rootSector[32];
+  const suspStart = 33 + idLength + (idLength % 2 === 0 ? 1 : 0);
+  return recordLength >= suspStart + 7
+    && rootSector.toString('latin1', suspStart, suspStart + 2) === 'SP'
+    && rootSector[suspStart + 4] === 0xbe
+    && rootSector[suspStart + 5] === 0xef;
+}
+
+async function readIsoDirectory(
+  handle: fs.FileHandle,
+  location: number,
+  length: number,
+  mode: 'rockridge' | 'joliet' | 'primary'
+): Promise<IsoRecord[]> {
+  const data = await readAt(handle, location * SECTOR_SIZE, Math.ceil(length / SECTOR_SIZE) * SECTOR_SIZE);
+  const records: IsoRecord[] = [];
+  let offset = 0;
+
+  while (offset < length) {
+    const recordLength = data[offset];
+    if (recordLength === 0) {
+      // Records never straddle sectors; the rest of this one is padding
+      offset = (Math.floor(offset / SECTOR_SIZE) + 1) * SECTOR_SIZE;
+      continue;
+    }
+
+    const record = data.subarray(offset, offset + recordLength);
+    offset += recordLength;
+
+    const idLength = record[32];
+    const id = record.subarray(33, 33 + idLength);
+    if (idLength === 1 && (id[0] === 0 || id[0] === 1)) continue;
+
+    const flags = record[25];
+    const entry: IsoRecord = {
+      name: '',
+      isDirectory: (flags & 0x02) !== 0,
+      location: record.readUInt32LE(2),
+      length: record.readUInt32LE(10),
+      multiExtent: (flags & 0x80) !== 0,
+      relocated: false,
+    };
+
+    if (mode === 'joliet') {
+      entry.name = decodeUcs2(id);
+    } else {
+      entry.name = id.toString('latin1');
+    }
+    if (!entry.isDirectory) {
+      entry.name = entry.name.replace(/;\d+$/, '').replace(/\.$/, '');
+    }
+
+    if (mode === 'rockridge') {
+      const suspStart = 33 + idLength + (idLength % 2 === 0 ? 1 : 0);
+      const susp = await readSusp(handle, record.subarray(suspStart));
+      if (susp.name !== undefined) entry.name = susp.name;
+      if (susp.childLink !== undefined) entry.childLink = susp.childLink;
+      entry.relocated = susp.relocated;
+    }
+
+    records.push(entry);
+  }
+
+  return records;
+}
+
+async function readSusp(
+  handle: fs.FileHandle,
+  area: Buffer
+): Promise<{ name?: string; childLink?: number; relocated: boolean }> {
+  const result: { name?: string; childLink?: number; relocated: boolean } = { relocated: false };
+  let nameParts: Buffer[] | null = null;
+  let current: Buffer | null = area;
+  let hops = 0;
+
+  while (current && hops++ < 16) {
+    let offset = 0;
+    let next: Buffer | null = null;
+
+    while (offset + 4 <= current.length) {
+      const signature = current.toString('latin1', offset, offset + 2);
+      const length = current[offset + 2];
+      if (length < 4 || offset + length > current.length) break;
+      const body = current.subarray(offset, offset + length);
+
+      if (signature === 'NM') {
+        const flags = body[4];
+        if (flags & 0x02) {
+          nameParts = [Buffer.from('.')];
+        } else if (flags & 0x04) {
+          nameParts = [Buffer.from('..')];
+        } else {
+          nameParts = nameParts || [];
+          nameParts.push(body.subarray(5));
+        }
+      } else if (signature === 'CL') {
+        result.childLink = body.readUInt32LE(4);
+      } else if (signature === 'RE') {
+        result.relocated = true;
+      } else if (signature === 'CE') {
+        const block = body.readUInt32LE(4);
+        const ceOffset = body.readUInt32LE(12);
+        const ceLength = body.readUInt32LE(20);
+        next = await readAt(handle, block * SECTOR_SIZE + ceOffset, ceLength);
+      } else if (signature === 'ST') {
+        break;
+      }
+
+      offset += length;
+    }
+
+    current = next;
+  }
+
+  if (nameParts) {
+    result.name = Buffer.concat(nameParts).toString('utf8');
+  }
+  return result;
+}
+
+function decodeUcs2(data: Buffer): string {
+  const swapped = Buffer.from(data.subarray(0, data.length - (data.length % 2)));
+  swapped.swap16();
+  return swapped.toString('utf16le').replace(/\0+$/, '');
+}
+
+// ============================================
+// UDF
+// ============================================
+
+interface UdfPartitionMap {
+  kind: 'physical' | 'metadata';
+  partitionNumber: number;
+  metadataFileLocation?: number;
+}
+
+interface UdfContext {
+  handle: fs.FileHandle;
+  blockSize: number;
+  partitionStarts: Map<number, number>;
+  maps: UdfPartitionMap[];
+  metadataExtents: { start: number; blocks: number }[] | null;
+}
+
+interface UdfIcb {
+  size: number;
+  isDirectory: boolean;
+  extents: ImageExtent[];
+}
+
+const TAG_AVDP = 2;
+const TAG_PD = 5;
+const TAG_LVD = 6;
+const TAG_TD = 8;
+const TAG_FSD = 256;
+const TAG_FID = 257;
+const TAG_AED = 258;
+const TAG_FE = 261;
+const TAG_EFE = 266;
+
+function tagId(block: Buffer): number {
+  return block.readUInt16LE(0);
+}
+
+async function readUdf(handle: fs.FileHandle): Promise<ImageListing> {
+  const { size } = await handle.stat();
+  const lastSector = Math.floor(size / SECTOR_SIZE) - 1;
+
+  let anchor: Buffer | null = null;
+  for (const sector of [256, lastSector, lastSector - 256]) {
+    if (sector < 0) continue;
+    const block = await readAt(handle, sector * SECTOR_SIZE, SECTOR_SIZE);
+    if (tagId(block) === TAG_AVDP) {
+      anchor = block;
+      break;
+    }
+  }
+  if (!anchor) {
+    throw new Error('UDF anchor volume descriptor pointer not found');
+  }
+
+  const vdsLength = anchor.readUInt32LE(16);
+  const vdsLocation = anchor.readUInt32LE(20);
+  const partitionStarts = new Map<number, number>();
+  let lvd: Buffer | null = null;
+
+  for (let i = 0; i < Math.ceil(vdsLength / SECTOR_SIZE); i++) {
+    const block = await readAt(handle, (vdsLocation + i) * SECTOR_SIZE, SECTOR_SIZE);
+    const id = tagId(block);
+    if (id === TAG_PD) {
+      partitionStarts.set(block.readUInt16LE(22), block.readUInt32LE(188));
+    } else if (id === TAG_LVD) {
+      lvd = block;
+    } else if (id === TAG_TD) {
+      break;
+    }
+  }
+  if (!lvd) {
+    throw new Error('UDF logical volume descriptor missing');
+  }
+
+  const blockSize = lvd.readUInt32LE(212);
+  const mapCount = lvd.readUInt32LE(268);
+  const maps: UdfPartitionMap[] = [];
+  let offset = 440;
+  for (let i = 0; i < mapCount; i++) {
+    const type = lvd[offset];
+    const length = lvd[offset + 1];
+    if (type === 1) {
+      maps.push({ kind: 'physical', partitionNumber: lvd.readUInt16LE(offset + 4) });
+    } else if (type === 2) {
+      const identifier = lvd.toString('latin1', offset + 5, offset + 28).replace(/\0+$/, '');
+      if (identifier === '*UDF Metadata Partition') {
+        maps.push({
+          kind: 'metadata',
+          partitionNumber: lvd.readUInt16LE(offset + 38),
+          metadataFileLocation: lvd.readUInt32LE(offset + 40),
+        });
+      } else if (identifier === '*UDF Sparable Partition') {
+        maps.push({ kind: 'physical', partitionNumber: lvd.readUInt16LE(offset + 38) });
+      } else {
+        throw new Error(`Unsupported UDF partition map: ${identifier}`);
+      }
+    }
+    offset += length;
+  }
+
+  const ctx: UdfContext = { handle, blockSize, partitionStarts, maps, metadataExtents: null };
+
+  const metadataIndex = maps.findIndex(m => m.kind === 'metadata');
+  if (metadataIndex >= 0) {
+    const map = maps[metadataIndex];
+    const physicalIndex = maps.findIndex(m => m.kind === 'physical' && m.partitionNumber === map.partitionNumber);
+    const metadataFile = await readIcb(ctx, physicalIndex, map.metadataFileLocation!);
+    ctx.metadataExtents = metadataFile.extents.map(extent => {
+      if (!('offset' in extent)) {
+        throw new Error('Unsupported UDF metadata file layout');
+      }
+      return { start: extent.offset, blocks: Math.ceil(extent.length / blockSize) };
+    });
+  }
+
+  const fsdLength = lvd.readUInt32LE(248);
+  const fsdLocation = lvd.readUInt32LE(252);
+  const fsdPartition = lvd.readUInt16LE(256);
+  if (fsdLength === 0) {
+    throw new Error('UDF file set descriptor missing');
+  }
+  const fsd = await readAt(handle, blockOffset(ctx, fsdPartition, fsdLocation), blockSize);
+  if (tagId(fsd) !== TAG_FSD) {
+    throw new Error('UDF file set descriptor invalid');
+  }
+
+  const volumeId = decodeDString(lvd.subarray(84, 212));
+  const rootLocation = fsd.readUInt32LE(404);
+  const rootPartition = fsd.readUInt16LE(408);
+
+  const files: ImageFile[] = [];
+  const visited = new Set<string>();
+
+  async function walk(partition: number, location: number, prefix: string) {
+    const key = `${partition}:${location}`;
+    if (visited.has(key)) return;
+    visited.add(key);
+
+    const dir = await readIcb(ctx, partition, location);
+    const data = await readExtents(ctx, dir);
+    let pos = 0;
+
+    while (pos + 38 <= data.length) {
+      if (data.readUInt16LE(pos) !== TAG_FID) {
+        throw new Error(`Corrupt UDF directory: ${prefix || '/'}`);
+      }
+      const characteristics = data[pos + 18];
+      const nameLength = data[pos + 19];
+      const icbLocation = data.readUInt32LE(pos + 24);
+      const icbPartition = data.readUInt16LE(pos + 28);
+      const implLength = data.readUInt16LE(pos + 36);
+      const nameStart = pos + 38 + implLength;
+      const name = decodeDChars(data.subarray(nameStart, nameStart + nameLength));
+      pos += Math.ceil((38 + implLength + nameLength) / 4) * 4;
+
+      // Deleted entries and the parent link
+      if (characteristics & 0x0c) continue;
+
+      const fullPath = prefix ? `${prefix}/${name}` : name;
+      if (characteristics & 0x02) {
+        await walk(icbPartition, icbLocation, fullPath);
+      } else {
+        const icb = await readIcb(ctx, icbPartition, icbLocation);
+        files.push({ path: fullPath, size: icb.size, extents: icb.extents });
+      }
+    }
+  }
+
+  await walk(rootPartition, rootLocation, '');
+
+  return { format: 'udf', volumeId, files };
+}
+
+function blockOffset(ctx: UdfContext, partition: number, lbn: number): number {
+  const map = ctx.maps[partition];
+  if (!map) {
+    throw new Error(`UDF partition reference ${partition} out of range`);
+  }
+
+  if (map.kind === 'metadata') {
+    if (!ctx.metadataExtents) {
+      throw new Error('UDF metadata partition not loaded');
+    }
+    let remaining = lbn;
+    for (const extent of ctx.metadataExtents) {
+      if (remaining < extent.blocks) {
+        return extent.start + remaining * ctx.blockSize;
+      }
+      remaining -= extent.blocks;
+    }
+    throw new Error(`UDF metadata block ${lbn} out of range`);
+  }
+
+  const start = ctx.partitionStarts.get(map.partitionNumber);
+  if (start === undefined) {
+    throw new Error(`UDF partition ${map.partitionNumber} has no descriptor`);
+  }
+  return (start + lbn) * ctx.blockSize;
+}
+
+async function readIcb(ctx: UdfContext, partition: number, location: number): Promise<UdfIcb> {
+  const block = await readAt(ctx.handle, blockOffset(ctx, partition, location), ctx.blockSize);
+  const id = tagId(block);
+  if (id !== TAG_FE && id !== TAG_EFE) {
+    throw new Error(`Expected UDF file entry at block ${location}, found tag ${id}`);
+  }
+
+  const fileType = block[27];
+  const adType = block.readUInt16LE(34) & 0x07;
+  const size = Number(block.readBigUInt64LE(56));
+  const eaLength = block.readUInt32LE(id === TAG_EFE ? 208 : 168);
+  const adLength = block.readUInt32LE(id === TAG_EFE ? 212 : 172);
+  const adStart = (id === TAG_EFE ? 216 : 176) + eaLength;
+  const descriptors = block.subarray(adStart, adStart + adLength);
+
+  const extents = adType === 3
+    ? [{ data: Buffer.from(descriptors) }]
+    : await readAllocationDescriptors(ctx, descriptors, adType, partition);
+
+  return { size, isDirectory: fileType === 4, extents };
+}
+
+async function readAllocationDescriptors(
+  ctx: UdfContext,
+  descriptors: Buffer,
+  adType: number,
+  partition: number
+): Promise<ImageExtent[]> {
+  if (adType !== 0 && adType !== 1) {
+    throw new Error(`Unsupported UDF allocation descriptor type ${adType}`);
+  }
+
+  const extents: ImageExtent[] = [];
+  const step = adType === 0 ? 8 : 16;
+  let current: Buffer | null = descriptors;
+  let hops = 0;
+
+  while (current && hops++ < 1024) {
+    let next: Buffer | null = null;
+
+    for (let pos = 0; pos + step <= current.length; pos += step) {
+      const raw = current.readUInt32LE(pos);
+      const length = raw & 0x3fffffff;
+      const kind = raw >>> 30;
+      if (length === 0) break;
+      const lbn = current.readUInt32LE(pos + 4);
+      const ref = adType === 0 ? partition : current.readUInt16LE(pos + 8);
+
+      if (kind === 3) {
+        // Continuation into an allocation extent descriptor
+        const aed = await readAt(ctx.handle, blockOffset(ctx, ref, lbn), ctx.blockSize);
+        if (tagId(aed) !== TAG_AED) {
+          throw new Error('Corrupt UDF allocation extent descriptor');
+        }
+        next = aed.subarray(24, 24 + aed.readUInt32LE(20));
+        break;
+      }
+
+      extents.push(kind === 0 ? { offset: blockOffset(ctx, ref, lbn), length } : { zeros: length });
+    }
+
+    current = next;
+  }
+
+  return extents;
+}
+
+async function readExtents(ctx: UdfContext, icb: UdfIcb): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  let remaining = icb.size;
+  for (const extent of icb.extents) {
+    if (remaining <= 0) break;
+    if ('data' in extent) {
+      parts.push(extent.data.subarray(0, remaining));
+      remaining -= Math.min(extent.data.length, remaining);
+    } else if ('zeros' in extent) {
+      const n = Math.min(extent.zeros, remaining);
+      parts.push(Buffer.alloc(n));
+      remaining -= n;
+    } else {
+      const n = Math.min(extent.length, remaining);
+      parts.push(await readAt(ctx.handle, extent.offset, n));
+      remaining -= n;
+    }
+  }
+  return Buffer.concat(parts);
+}
+
+function decodeDChars(data: Buffer): string {
+  if (data.length === 0) return '';
+  const compression = data[0];
+  if (compression === 16 || compression === 255) {
+    return decodeUcs2(data.subarray(1));
+  }
+  return data.toString('latin1', 1);
+}
+
+// dstring fields keep their used length in the final byte
+function decodeDString(field: Buffer): string {
+  const used = field[field.length - 1];
+  return used > 0 ? decodeDChars(field.subarray(0, used)) : '';
+}
@@ -2,11 +2,23 @@
  * ISO Generator
  * Creates a burnable ISO image from workspace files
  * User downloads ISO and burns on any Windows/Mac computer
+ * Encrypted discs carry the sealed image and its decryption tool (see sealed-disc.ts)
  */
 
 import * as fs from 'fs/promises';
+import { constants as fsConstants } from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { uploadToOneDrive } from '../adapters/onedrive';
+import { uploadFile, uploadFileFromPath, describeLocation } from './storage';
+import { BurnManifest, DiscEncryption, DISC_CAPACITY, planVolumes, volumeLabel as volumeLabelFor } from './manifest';
+import { writeIsoImage, ISO9660_MAX_EXTENT_SIZE } from './iso9660';
+import { writeUdfImage } from './udf';
+import { ImageEntry } from './disc-image';
+import { sha256File, merkleRoot } from './checksum';
+import { createProgressTracker } from './progress';
+import { sealDiscImage, createDecryptTool, createDecryptInstructions, DECRYPT_TOOL_NAME, DECRYPT_README_NAME } from './sealed-disc';
+
+export type ImageFormat = 'iso9660' | 'udf';
 
 interface ISOManifest {
   id: string;
@@ -14,109 +26,310 @@ interface ISOManifest {
   files: FileEntry[];
   totalSize: number;
   isoPath: string;
+  imageFormat: ImageFormat;
+  volumeLabel: string;
+  imageSize: number;
+  volumes: PackageVolume[];
+  skipped: SkippedFile[];
+  discEncryption?: DiscEncryption;
+}
+
+interface PackageVolume {
+  number: number;
+  label: string;
+  isoPath: string;
+  imageFormat: ImageFormat;
+  imageSize: number;
+  imageChecksum: string;
+  fileCount: number;
+  totalSize: number;
 }
 
 interface FileEntry {
   path: string;
   size: number;
-  content: string;
+  modified: string;
+  checksum: string;
+}
+
+export interface SkippedFile {
+  path: string;
+  reason: string;
+}
+
+export const DISC_INDEX_NAME = 'DISCBURN_INDEX.json';
+
+// Blu-ray media and files past the ISO 9660 single-extent limit need UDF
+export function selectImageFormat(
+  discType: BurnManifest['target']['discSettings']['type'],
+  fileSizes: number[]
+): ImageFormat {
+  if (discType === 'BD-R' || discType === 'BD-RE') return 'udf';
+  if (fileSizes.some(size => size > ISO9660_MAX_EXTENT_SIZE)) return 'udf';
+  return 'iso9660';
+}
+
+// Keep the manifest's volume plan when it covers every readable file, otherwise plan from real sizes
+function assignVolumes(files: FileEntry[], burnManifest?: BurnManifest): FileEntry[][] {
+  const planned = new Map(burnManifest?.payload.files.map(f => [f.path, f.volume]) || []);
+  const totalVolumes = burnManifest?.payload.volumes?.length || 0;
+  
+  if (totalVolumes > 0 && files.every(f => planned.get(f.path))) {
+    const volumes: FileEntry[][] = Array.from({ length: totalVolumes }, () => []);
+    files.forEach(f => volumes[planned.get(f.path)! - 1]?.push(f));
+    if (volumes.every(v => v.length > 0) && volumes.flat().length === files.length) {
+      return volumes;
+    }
+  }
+  
+  const capacity = DISC_CAPACITY[burnManifest?.target.discSettings.type || 'DVD-R'];
+  const byPath = new Map(files.map(f => [f.path, f]));
+  const plan = planVolumes(files, capacity).map(paths => paths.map(p => byPath.get(p)!));
+  return plan.length > 0 ? plan : [[]];
 }
 
-export async function generateBurnPackage(files: string[]): Promise<{
+export async function generateBurnPackage(
+  files: string[],
+  burnManifest?: BurnManifest,
+  scanSkipped: SkippedFile[] = []
+): Promise<{
   success: boolean;
   manifest: ISOManifest | null;
+  skipped: SkippedFile[];
   message: string;
 }> {
-  const id = `disc-${Date.now()}`;
-  const created = new Date().toISOString();
+  const id = burnManifest?.job.id || `disc-${Date.now()}`;
+  // The job's creation time, so an image rebuilt for the same job has the same
+  // digest and an interrupted upload of it can resume
+  const created = burnManifest?.job.created || new Date().toISOString();
+  const baseLabel = burnManifest?.target.discSettings.label || `DiscBurn_${id.split('-')[1]?.substring(0, 10) || 'backup'}`;
+  const workDir = path.join(os.tmpdir(), 'discburn', id);
+  const skipped: SkippedFile[] = [...scanSkipped];
+  const discEncryption = burnManifest?.target.discSettings.encryption;
   
   try {
     const fileEntries: FileEntry[] = [];
+    const imageEntries = new Map<string, ImageEntry>();
     let totalSize = 0;
+    const plannedSizes = new Map(burnManifest?.payload.files.map(f => [f.path, f.size || 0]) || []);
+    // Digests the manifest already recorded are reused while the size still matches
+    const recorded = new Map(burnManifest?.payload.files.map(f => [f.path, f]) || []);
+    const hashing = createProgressTracker({
+      id,
+      phase: 'hashing',
+      label: 'Reading files',
+      bytesTotal: files.reduce((sum, f) => sum + (plannedSizes.get(f) || 0), 0),
+      filesTotal: files.length,
+    });
     
+    // Contents are copied byte-for-byte from disk into the image
     for (const filePath of files) {
+      hashing.advance(0, filePath);
+      const fullPath = path.join(process.cwd(), filePath);
       try {
-        const fullPath = path.join(process.cwd(), filePath);
-        const content = await fs.readFile(fullPath, 'utf-8');
-        const size = Buffer.byteLength(content, 'utf-8');
+        const stats = await fs.stat(fullPath);
+        if (!stats.isFile()) {
+          throw new Error('Not a regular file');
+        }
+        await fs.access(fullPath, fsConstants.R_OK);
         
+        const known = recorded.get(filePath);
         fileEntries.push({
           path: filePath,
-          size,
-          content,
+          size: stats.size,
+          modified: stats.mtime.toISOString(),
+          checksum: known?.checksum && known.size === stats.size ? known.checksum : await sha256File(fullPath),
+        });
+        imageEntries.set(filePath, {
+          path: filePath,
+          size: stats.size,
+          mtime: stats.mtime,
+          sourcePath: fullPath,
         });
         
-        totalSize += size;
-      } catch {
-        // Skip files that can't be read
+        totalSize += stats.size;
+      } catch (error: any) {
+        skipped.push({ path: filePath, reason: error.message });
+      }
+      hashing.advance(plannedSizes.get(filePath) || 0);
+      hashing.fileDone();
+    }
+    hashing.finish();
+    
+    const discType = burnManifest?.target.discSettings.type || 'DVD-R';
+    const volumePlan = assignVolumes(fileEntries, burnManifest);
+    const totalVolumes = volumePlan.length;
+    const burnFolder = `burn-ready/${id}`;
+    const volumes: PackageVolume[] = [];
+    
+    await fs.mkdir(workDir, { recursive: true });
+    
+    // One image per disc, each carrying an index of the whole set
+    for (let i = 0; i < totalVolumes; i++) {
+      const number = i + 1;
+      const label = volumeLabelFor(baseLabel, number, totalVolumes);
+      const imageName = `${label}.iso`;
+      const volumeFiles = volumePlan[i];
+      const imageFormat = selectImageFormat(discType, volumeFiles.map(f => f.size));
+      const writeImage = imageFormat === 'udf' ? writeUdfImage : writeIsoImage;
+      
+      const discIndex = Buffer.from(JSON.stringify({
+        jobId: id,
+        created,
+        volume: number,
+        totalVolumes,
+        label,
+        files: volumeFiles,
+        set: volumePlan.map((v, j) => ({
+          volume: j + 1,
+          label: volumeLabelFor(baseLabel, j + 1, totalVolumes),
+          files: v.map(f => f.path),
+        })),
+      }, null, 2));
+      
+      const imaging = createProgressTracker({
+        id,
+        phase: 'imaging',
+        label: totalVolumes > 1 ? `Writing image ${number} of ${totalVolumes}` : 'Writing image',
+        bytesTotal: volumeFiles.reduce((sum, f) => sum + f.size, 0),
+        filesTotal: volumeFiles.length,
+      });
+      let image = await writeImage([
+        ...volumeFiles.map(f => imageEntries.get(f.path)!),
+        { path: DISC_INDEX_NAME, size: discIndex.length, mtime: new Date(created), data: discIndex },
+      ], path.join(workDir, imageName), { volumeLabel: label, created: new Date(created) });
+      
+      // The encrypted disc holds the sealed image, not the files
+      let discFormat = imageFormat;
+      if (discEncryption) {
+        const sealedPath = path.join(workDir, `${label}.sealed`);
+        const discEntries = await sealDiscImage(image.path, sealedPath, label, discEncryption);
+        await fs.rm(image.path, { force: true });
+        discFormat = selectImageFormat(discType, discEntries.map(e => e.size));
+        const writeDisc = discFormat === 'udf' ? writeUdfImage : writeIsoImage;
+        image = await writeDisc(discEntries, path.join(workDir, imageName), { volumeLabel: label });
+        await fs.rm(sealedPath, { force: true });
       }
+      imaging.finish();
+      
+      // Images are burned as downloaded, so they skip envelope encryption; with
+      // encryption on, the disc set is an encrypted one (see executor.ts)
+      const uploading = createProgressTracker({
+        id,
+        phase: 'uploading',
+        label: totalVolumes > 1 ? `Uploading image ${number} of ${totalVolumes}` : 'Uploading image',
+        bytesTotal: image.size,
+        filesTotal: 1,
+      });
+      const imageChecksum = await sha256File(image.path);
+      await uploadFileFromPath(`${burnFolder}/${imageName}`, image.path, bytesSent => {
+        uploading.update({ bytesDone: bytesSent, currentFile: imageName });
+      }, { seal: false, checksum: imageChecksum });
+      uploading.finish();
+      await fs.rm(image.path, { force: true });
+      
+      volumes.push({
+        number,
+        label,
+        isoPath: await describeLocation(`${burnFolder}/${imageName}`),
+        imageFormat: discFormat,
+        imageSize: image.size,
+        imageChecksum,
+        fileCount: volumeFiles.length,
+        totalSize: volumeFiles.reduce((sum, f) => sum + f.size, 0),
+      });
     }
     
-    // Create burn package (ZIP-like structure as JSON for now)
+    const formatName = (format: ImageFormat) => format === 'udf' ? 'UDF 2.50' : 'ISO 9660 + Joliet + Rock Ridge';
+    const imageSize = volumes.reduce((sum, v) => sum + v.imageSize, 0);
+    const discSteps = totalVolumes > 1
+      ? volumes.map(v => `   Disc ${v.number} of ${totalVolumes}: ${v.label}.iso (${v.fileCount} files, ${formatName(v.imageFormat)})`).join('\n')
+      : `   Image: ${volumes[0].label}.iso (${formatName(volumes[0].imageFormat)})`;
+    const decryptNote = discEncryption
+      ? `\nEncrypted: ${discEncryption.algorithm}, key ${discEncryption.keyId}\nThe discs can only be read with that key; see ${DECRYPT_README_NAME}.\n`
+      : '';
+    
+    // Package index (file list only, contents live in the images)
     const burnPackage = {
       id,
       created,
       platform: 'DiscBurn v2.0',
       device: 'HP DVD557s',
+      images: volumes.map(v => ({
+        volume: v.number,
+        name: `${v.label}.iso`,
+        format: v.imageFormat === 'udf' ? 'udf-2.50' : 'iso9660+joliet+rockridge',
+        volumeLabel: v.label,
+        size: v.imageSize,
+        checksum: v.imageChecksum,
+      })),
       files: fileEntries.map(f => ({
         path: f.path,
         size: f.size,
+        checksum: f.checksum,
+        volume: volumePlan.findIndex(v => v.includes(f)) + 1,
       })),
       totalSize,
       totalFiles: fileEntries.length,
+      checksum: merkleRoot(fileEntries),
+      totalVolumes,
+      skipped,
+      discEncryption,
       instructions: `
 === BURN INSTRUCTIONS ===
 1. Download this package from OneDrive
-2. Extract files to a folder
-3. Use Windows: Right-click folder -> "Burn to disc"
-   Or use ImgBurn/CDBurnerXP for more control
-4. Insert blank DVD-R in HP DVD557s
-5. Start burn process
+2. Windows: Run BURN.bat, or right-click each .iso -> "Burn disc image"
+   Mac: Open Disk Utility -> Images -> Burn, select each .iso
+   Linux: growisofs -dvd-compat -Z /dev/sr0=<image>.iso
+3. Insert a blank ${discType} in HP DVD557s for each disc:
+${discSteps}
+4. Start burn process
 
 Device: HP DVD557s
-Files: ${fileEntries.length}
+Discs: ${totalVolumes}
+Files: ${fileEntries.length}${skipped.length > 0 ? ` (${skipped.length} skipped, see BURN_PACKAGE.json)` : ''}
 Size: ${(totalSize / 1024 / 1024).toFixed(2)} MB
-`,
-    };
-    
-    // Upload single combined package (faster than individual files)
-    const burnFolder = `burn-ready/${id}`;
-    
-    // Create combined archive
-    const archive = {
-      ...burnPackage,
-      fileContents: fileEntries.reduce((acc, entry) => {
-        acc[entry.path] = entry.content;
-        return acc;
-      }, {} as Record<string, string>),
+Image: ${(imageSize / 1024 / 1024).toFixed(2)} MB
+${decryptNote}`,
     };
     
-    // Upload single archive file
-    await uploadToOneDrive(`${burnFolder}/BURN_PACKAGE.json`, JSON.stringify(archive, null, 2));
-    
-    // Upload instructions
-    await uploadToOneDrive(`${burnFolder}/README_BURN.txt`, burnPackage.instructions);
+    await uploadFile(`${burnFolder}/BURN_PACKAGE.json`, JSON.stringify(burnPackage, null, 2));
+    await uploadFile(`${burnFolder}/README_BURN.txt`, burnPackage.instructions);
+    if (discEncryption) {
+      await uploadFile(`${burnFolder}/${DECRYPT_README_NAME}`, createDecryptInstructions(discEncryption, volumes[0].label));
+      await uploadFile(`${burnFolder}/${DECRYPT_TOOL_NAME}`, createDecryptTool());
+    }
     
     const manifest: ISOManifest = {
       id,
       created,
       files: fileEntries,
       totalSize,
-      isoPath: `OneDrive/DiscBurn/${burnFolder}`,
+      isoPath: volumes[0].isoPath,
+      imageFormat: volumes[0].imageFormat,
+      volumeLabel: volumes[0].label,
+      imageSize,
+      volumes,
+      skipped,
+      discEncryption,
     };
     
     return {
       success: true,
       manifest,
-      message: `Burn package ready: ${fileEntries.length} files, ${(totalSize / 1024 / 1024).toFixed(2)} MB`,
+      skipped,
+      message: `Burn package ready: ${fileEntries.length} files, ${(totalSize / 1024 / 1024).toFixed(2)} MB${totalVolumes > 1 ? ` across ${totalVolumes} discs` : ''}${skipped.length > 0 ? `, ${skipped.length} skipped` : ''}`,
     };
     
   } catch (error: any) {
     return {
       success: false,
       manifest: null,
+      skipped,
       message: `Failed to generate burn package: ${error.message}`,
     };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
   }
 }
 
@@ -147,9 +360,13 @@ set BURN_FOLDER=%~dp0
 echo Burning files from: %BURN_FOLDER%
 echo.
 
-REM Use isoburn.exe (Windows built-in)
+REM Use isoburn.exe (Windows built-in), one blank disc per image
 if exist "%BURN_FOLDER%\\*.iso" (
-    isoburn.exe /Q "%BURN_FOLDER%\\*.iso"
+    for %%I in ("%BURN_FOLDER%\\*.iso") do (
+        echo Insert a blank disc for %%~nI
+        pause
+        isoburn.exe /Q "%%I"
+    )
 ) else (
     echo No ISO found. Please use Windows Explorer to burn the folder contents.
     echo Right-click the folder -> Send to -> DVD RW Drive
@@ -0,0 +1,561 @@
+/**
+ * ISO 9660 Writer
+ * Pure TypeScript ISO 9660 image writer with Joliet and Rock Ridge extensions
+ *
+ * Layout: system area (0-15) | PVD | Joliet SVD | terminator | path tables |
+ *         primary directories | Joliet directories | file data | run-out padding
+ * File data is shared by both directory trees.
+ */
+
+import {
+  SECTOR_SIZE,
+  ImageEntry,
+  ImageNode,
+  ImageChunk,
+  sectorsFor,
+  entryChunk,
+  buildImageTree,
+  listDirectories,
+  writeImageChunks,
+} from './disc-image';
+
+export const ISO9660_MAX_EXTENT_SIZE = 0xffffffff;
+
+const PVD_SECTOR = 16;
+const FIRST_FREE_SECTOR = 19;
+const RUNOUT_PAD_SECTORS = 150;
+const MAX_RECORD_LENGTH = 255;
+const JOLIET_MAX_NAME = 64;
+
+const RRIP_ID = 'RRIP_1991A';
+const RRIP_DESCRIPTOR = 'THE ROCK RIDGE INTERCHANGE PROTOCOL PROVIDES SUPPORT FOR POSIX FILE SYSTEM SEMANTICS';
+const RRIP_SOURCE = 'DISCBURN';
+
+export interface IsoImageOptions {
+  volumeLabel: string;
+  systemId?: string;
+  publisher?: string;
+  application?: string;
+  created?: Date;
+}
+
+export interface IsoImageInfo {
+  path: string;
+  size: number;
+  volumeId: string;
+  fileCount: number;
+  directoryCount: number;
+}
+
+interface DirLayout {
+  node: ImageNode;
+  number: number;
+  sector: number;
+  size: number;
+  children: ImageNode[];
+}
+
+interface Namespace {
+  identifiers: Map<ImageNode, Buffer>;
+  dirs: DirLayout[];
+  byNode: Map<ImageNode, DirLayout>;
+  susp: (node: ImageNode, self: 'self' | 'parent' | 'child') => Buffer;
+}
+
+export async function writeIsoImage(
+  entries: ImageEntry[],
+  outputPath: string,
+  options: IsoImageOptions
+): Promise<IsoImageInfo> {
+  for (const entry of entries) {
+    if (entry.size > ISO9660_MAX_EXTENT_SIZE) {
+      throw new Error(`File exceeds ISO 9660 extent limit: ${entry.path}`);
+    }
+  }
+
+  const created = options.created || new Date();
+  const root = buildImageTree(entries);
+  const volumeId = toVolumeId(options.volumeLabel);
+
+  const primaryIds = new Map<ImageNode, Buffer>();
+  const jolietIds = new Map<ImageNode, Buffer>();
+  assignIdentifiers(root, primaryIds, isoIdentifier, compareIsoIdentifiers);
+  assignIdentifiers(root, jolietIds, jolietIdentifier, Buffer.compare);
+
+  const primary: Namespace = {
+    identifiers: primaryIds,
+    dirs: [],
+    byNode: new Map(),
+    susp: (node, kind) => rockRidgeEntries(node, kind, created),
+  };
+  const joliet: Namespace = {
+    identifiers: jolietIds,
+    dirs: [],
+    byNode: new Map(),
+    susp: () => Buffer.alloc(0),
+  };
+
+  for (const ns of [primary, joliet]) {
+    const sorted = sortBy(ns.identifiers, ns === primary ? compareIsoIdentifiers : Buffer.compare);
+    ns.dirs = listDirectories(root, sorted).map((node, i) => ({
+      node,
+      number: i + 1,
+      sector: 0,
+      size: 0,
+      children: sorted(node.children),
+    }));
+    for (const dir of ns.dirs) {
+      ns.byNode.set(dir.node, dir);
+      dir.size = directorySize(ns, dir);
+    }
+  }
+
+  // Path tables, little-endian then big-endian for each namespace
+  const pathTableSize = [pathTable(primary, 'L').length, pathTable(joliet, 'L').length];
+  const pathTableSectors = {
+    primaryL: FIRST_FREE_SECTOR,
+    primaryM: FIRST_FREE_SECTOR + sectorsFor(pathTableSize[0]),
+    jolietL: FIRST_FREE_SECTOR + 2 * sectorsFor(pathTableSize[0]),
+    jolietM: FIRST_FREE_SECTOR + 2 * sectorsFor(pathTableSize[0]) + sectorsFor(pathTableSize[1]),
+  };
+  let sector = pathTableSectors.jolietM + sectorsFor(pathTableSize[1]);
+
+  for (const ns of [primary, joliet]) {
+    for (const dir of ns.dirs) {
+      dir.sector = sector;
+      sector += sectorsFor(dir.size);
+    }
+  }
+
+  const fileExtents = new Map<ImageNode, number>();
+  let fileCount = 0;
+  for (const dir of primary.dirs) {
+    for (const child of dir.children) {
+      if (child.isDirectory) continue;
+      fileExtents.set(child, sector);
+      sector += sectorsFor(child.entry!.size);
+      fileCount++;
+    }
+  }
+
+  const totalSectors = sector + RUNOUT_PAD_SECTORS;
+  const extentOf = (node: ImageNode, ns: Namespace) =>
+    node.isDirectory
+      ? { sector: ns.byNode.get(node)!.sector, size: ns.byNode.get(node)!.size }
+      : { sector: fileExtents.get(node)!, size: node.entry!.size };
+
+  const chunks: ImageChunk[] = [];
+  const descriptorFields = {
+    systemId: options.systemId || 'DISCBURN',
+    volumeId,
+    volumeLabel: options.volumeLabel,
+    publisher: options.publisher || 'DISCBURN',
+    application: options.application || 'DISCBURN V2.0',
+    created,
+    totalSectors,
+  };
+
+  chunks.push({
+    offset: PVD_SECTOR * SECTOR_SIZE,
+    data: volumeDescriptor('primary', descriptorFields, {
+      pathTableSize: pathTableSize[0],
+      lSector: pathTableSectors.primaryL,
+      mSector: pathTableSectors.primaryM,
+      rootRecord: directoryRecord(Buffer.from([0]), extentOf(root, primary), true, created, Buffer.alloc(0)),
+    }),
+  });
+  chunks.push({
+    offset: (PVD_SECTOR + 1) * SECTOR_SIZE,
+    data: volumeDescriptor('joliet', descriptorFields, {
+      pathTableSize: pathTableSize[1],
+      lSector: pathTableSectors.jolietL,
+      mSector: pathTableSectors.jolietM,
+      rootRecord: directoryRecord(Buffer.from([0]), extentOf(root, joliet), true, created, Buffer.alloc(0)),
+    }),
+  });
+  chunks.push({ offset: (PVD_SECTOR + 2) * SECTOR_SIZE, data: terminatorDescriptor() });
+
+  chunks.push({ offset: pathTableSectors.primaryL * SECTOR_SIZE, data: pathTable(primary, 'L') });
+  chunks.push({ offset: pathTableSectors.primaryM * SECTOR_SIZE, data: pathTable(primary, 'M') });
+  chunks.push({ offset: pathTableSectors.jolietL * SECTOR_SIZE, data: pathTable(joliet, 'L') });
+  chunks.push({ offset: pathTableSectors.jolietM * SECTOR_SIZE, data: pathTable(joliet, 'M') });
+
+  for (const ns of [primary, joliet]) {
+    for (const dir of ns.dirs) {
+      chunks.push({ offset: dir.sector * SECTOR_SIZE, data: directoryExtent(ns, dir, extentOf, created) });
+    }
+  }
+
+  for (const [node, fileSector] of fileExtents) {
+    chunks.push(entryChunk(node.entry!, fileSector * SECTOR_SIZE));
+  }
+
+  const size = totalSectors * SECTOR_SIZE;
+  await writeImageChunks(outputPath, size, chunks);
+
+  return {
+    path: outputPath,
+    size,
+    volumeId,
+    fileCount,
+    directoryCount: primary.dirs.length,
+  };
+}
+
+// ============================================
+// NAMING
+// ============================================
+
+function toVolumeId(label: string): string {
+  const id = label.toUpperCase().replace(/[^A-Z0-9_]/g, '_').substring(0, 32);
+  return id || 'DISCBURN';
+}
+
+function isoIdentifier(node: ImageNode, attempt: number): Buffer {
+  const upper = node.name.toUpperCase().replace(/[^A-Z0-9_.]/g, '_');
+  const suffix = attempt > 0 ? `_${attempt}` : '';
+
+  if (node.isDirectory) {
+    const base = upper.replace(/\./g, '_').substring(0, 31 - suffix.length);
+    return Buffer.from(base + suffix, 'ascii');
+  }
+
+  const dot = upper.lastIndexOf('.');
+  const stem = (dot > 0 ? upper.substring(0, dot) : upper).replace(/\./g, '_');
+  const ext = dot > 0 ? upper.substring(dot + 1).substring(0, 8) : '';
+  const trimmed = stem.substring(0, 30 - ext.length - 1 - suffix.length) || '_';
+  return Buffer.from(`${trimmed}${suffix}.${ext};1`, 'ascii');
+}
+
+function jolietIdentifier(node: ImageNode, attempt: number): Buffer {
+  const suffix = attempt > 0 ? `~${attempt}` : '';
+  const version = node.isDirectory ? '' : ';1';
+  let name = node.name.replace(/[*/:;?\\]/g, '_');
+  const limit = JOLIET_MAX_NAME - version.length - suffix.length;
+
+  if (name.length > limit || suffix) {
+    const dot = node.isDirectory ? -1 : name.lastIndexOf('.');
+    const ext = dot > 0 ? name.substring(dot) : '';
+    name = name.substring(0, dot > 0 ? dot : name.length).substring(0, limit - ext.length) + suffix + ext;
+  }
+
+  return toUcs2(name + version);
+}
+
+function assignIdentifiers(
+  dir: ImageNode,
+  ids: Map<ImageNode, Buffer>,
+  makeId: (node: ImageNode, attempt: number) => Buffer,
+  compare: (a: Buffer, b: Buffer) => number
+): void {
+  const used: Buffer[] = [];
+  for (const child of dir.children) {
+    let attempt = 0;
+    let id = makeId(child, attempt);
+    while (used.some(u => compare(u, id) === 0)) {
+      id = makeId(child, ++attempt);
+    }
+    used.push(id);
+    ids.set(child, id);
+    if (child.isDirectory) assignIdentifiers(child, ids, makeId, compare);
+  }
+}
+
+function sortBy(ids: Map<ImageNode, Buffer>, compare: (a: Buffer, b: Buffer) => number) {
+  return (nodes: ImageNode[]) => [...nodes].sort((a, b) => compare(ids.get(a)!, ids.get(b)!));
+}
+
+// ECMA-119 9.3: compare name, then extension, each padded with spaces
+function compareIsoIdentifiers(a: Buffer, b: Buffer): number {
+  const split = (id: Buffer) => {
+    const text = id.toString('ascii').replace(/;\d+$/, '');
+    const dot = text.indexOf('.');
+    return dot >= 0 ? [text.substring(0, dot), text.substring(dot + 1)] : [text, ''];
+  };
+  const [aName, aExt] = split(a);
+  const [bName, bExt] = split(b);
+  const byPadded = (x: string, y: string) => {
+    const len = Math.max(x.length, y.length);
+    return Buffer.compare(Buffer.from(x.padEnd(len)), Buffer.from(y.padEnd(len)));
+  };
+  return byPadded(aName, bName) || byPadded(aExt, bExt);
+}
+
+// ============================================
+// ROCK RIDGE
+// ============================================
+
+function rockRidgeEntries(node: ImageNode, kind: 'self' | 'parent' | 'child', created: Date): Buffer {
+  const entries: Buffer[] = [];
+  const target = kind === 'parent' ? node.parent || node : node;
+
+  if (kind === 'self' && !node.parent) {
+    entries.push(Buffer.from([0x53, 0x50, 7, 1, 0xbe, 0xef, 0]));
+  }
+
+  const subdirs = target.children.filter(c => c.isDirectory).length;
+  const mode = target.isDirectory ? 0o40555 : 0o100444;
+  const px = Buffer.alloc(36);
+  px.write('PX', 0, 'ascii');
+  px[2] = 36;
+  px[3] = 1;
+  both32(mode).copy(px, 4);
+  both32(target.isDirectory ? 2 + subdirs : 1).copy(px, 12);
+  both32(0).copy(px, 20);
+  both32(0).copy(px, 28);
+  entries.push(px);
+
+  const tf = Buffer.alloc(12);
+  tf.write('TF', 0, 'ascii');
+  tf[2] = 12;
+  tf[3] = 1;
+  tf[4] = 0x02;
+  recordingDate(target.entry?.mtime || created).copy(tf, 5);
+  entries.push(tf);
+
+  if (kind === 'child') {
+    const name = Buffer.from(node.name, 'utf-8');
+    const nm = Buffer.alloc(5 + name.length);
+    nm.write('NM', 0, 'ascii');
+    nm[2] = nm.length;
+    nm[3] = 1;
+    name.copy(nm, 5);
+    entries.push(nm);
+  }
+
+  if (kind === 'self' && !node.parent) {
+    const id = Buffer.from(RRIP_ID, 'ascii');
+    const des = Buffer.from(RRIP_DESCRIPTOR, 'ascii');
+    const src = Buffer.from(RRIP_SOURCE, 'ascii');
+    const er = Buffer.alloc(8 + id.length + des.length + src.length);
+    er.write('ER', 0, 'ascii');
+    er[2] = er.length;
+    er[3] = 1;
+    er[4] = id.length;
+    er[5] = des.length;
+    er[6] = src.length;
+    er[7] = 1;
+    Buffer.concat([id, des, src]).copy(er, 8);
+    entries.push(er);
+  }
+
+  return Buffer.concat(entries);
+}
+
+// ============================================
+// DIRECTORIES AND PATH TABLES
+// ============================================
+
+function recordLength(identifierLength: number, suspLength: number): number {
+  const base = 33 + identifierLength + (identifierLength % 2 === 0 ? 1 : 0);
+  return base + suspLength + (suspLength % 2);
+}
+
+function directoryRecords(ns: Namespace, dir: DirLayout): { id: Buffer; node: ImageNode; susp: Buffer }[] {
+  const records: { id: Buffer; node: ImageNode; susp: Buffer }[] = [
+    { id: Buffer.from([0]), node: dir.node, susp: ns.susp(dir.node, 'self') },
+    { id: Buffer.from([1]), node: dir.node.parent || dir.node, susp: ns.susp(dir.node, 'parent') },
+  ];
+  for (const child of dir.children) {
+    const record = { id: ns.identifiers.get(child)!, node: child, susp: ns.susp(child, 'child') };
+    if (recordLength(record.id.length, record.susp.length) > MAX_RECORD_LENGTH) {
+      throw new Error(`File name too long for ISO 9660 directory record: ${child.name}`);
+    }
+    records.push(record);
+  }
+  return records;
+}
+
+function directorySize(ns: Namespace, dir: DirLayout): number {
+  let offset = 0;
+  for (const record of directoryRecords(ns, dir)) {
+    const length = recordLength(record.id.length, record.susp.length);
+    if ((offset % SECTOR_SIZE) + length > SECTOR_SIZE) {
+      offset = sectorsFor(offset) * SECTOR_SIZE;
+    }
+    offset += length;
+  }
+  return sectorsFor(offset) * SECTOR_SIZE;
+}
+
+function directoryExtent(
+  ns: Namespace,
+  dir: DirLayout,
+  extentOf: (node: ImageNode, ns: Namespace) => { sector: number; size: number },
+  created: Date
+): Buffer {
+  const extent = Buffer.alloc(dir.size);
+  let offset = 0;
+  for (const record of directoryRecords(ns, dir)) {
+    const data = directoryRecord(
+      record.id,
+      extentOf(record.node, ns),
+      record.node.isDirectory,
+      record.node.entry?.mtime || created,
+      record.susp
+    );
+    if ((offset % SECTOR_SIZE) + data.length > SECTOR_SIZE) {
+      offset = sectorsFor(offset) * SECTOR_SIZE;
+    }
+    data.copy(extent, offset);
+    offset += data.length;
+  }
+  return extent;
+}
+
+function directoryRecord(
+  identifier: Buffer,
+  extent: { sector: number; size: number },
+  isDirectory: boolean,
+  date: Date,
+  susp: Buffer
+): Buffer {
+  const record = Buffer.alloc(recordLength(identifier.length, susp.length));
+  record[0] = record.length;
+  both32(extent.sector).copy(record, 2);
+  both32(extent.size).copy(record, 10);
+  recordingDate(date).copy(record, 18);
+  record[25] = isDirectory ? 0x02 : 0x00;
+  both16(1).copy(record, 28);
+  record[32] = identifier.length;
+  identifier.copy(record, 33);
+  susp.copy(record, 33 + identifier.length + (identifier.length % 2 === 0 ? 1 : 0));
+  return record;
+}
+
+function pathTable(ns: Namespace, byteOrder: 'L' | 'M'): Buffer {
+  const records: Buffer[] = [];
+  for (const dir of ns.dirs) {
+    const id = dir.node.parent ? ns.identifiers.get(dir.node)! : Buffer.from([0]);
+    const parent = dir.node.parent ? ns.byNode.get(dir.node.parent)!.number : 1;
+    const record = Buffer.alloc(8 + id.length + (id.length % 2));
+    record[0] = id.length;
+    if (byteOrder === 'L') {
+      record.writeUInt32LE(dir.sector, 2);
+      record.writeUInt16LE(parent, 6);
+    } else {
+      record.writeUInt32BE(dir.sector, 2);
+      record.writeUInt16BE(parent, 6);
+    }
+    id.copy(record, 8);
+    records.push(record);
+  }
+  return Buffer.concat(records);
+}
+
+// ============================================
+// VOLUME DESCRIPTORS
+// ============================================
+
+function volumeDescriptor(
+  kind: 'primary' | 'joliet',
+  fields: {
+    systemId: string;
+    volumeId: string;
+    volumeLabel: string;
+    publisher: string;
+    application: string;
+    created: Date;
+    totalSectors: number;
+  },
+  tables: { pathTableSize: number; lSector: number; mSector: number; rootRecord: Buffer }
+): Buffer {
+  const vd = Buffer.alloc(SECTOR_SIZE);
+  const text = kind === 'joliet' ? padUcs2 : padAscii;
+
+  vd[0] = kind === 'primary' ? 1 : 2;
+  vd.write('CD001', 1, 'ascii');
+  vd[6] = 1;
+  text(fields.systemId, 32).copy(vd, 8);
+  text(kind === 'joliet' ? fields.volumeLabel : fields.volumeId, 32).copy(vd, 40);
+  both32(fields.totalSectors).copy(vd, 80);
+  if (kind === 'joliet') {
+    vd.write('%/E', 88, 'ascii');
+  }
+  both16(1).copy(vd, 120);
+  both16(1).copy(vd, 124);
+  both16(SECTOR_SIZE).copy(vd, 128);
+  both32(tables.pathTableSize).copy(vd, 132);
+  vd.writeUInt32LE(tables.lSector, 140);
+  vd.writeUInt32BE(tables.mSector, 148);
+  tables.rootRecord.copy(vd, 156);
+  text('', 128).copy(vd, 190);
+  text(fields.publisher, 128).copy(vd, 318);
+  text('', 128).copy(vd, 446);
+  text(fields.application, 128).copy(vd, 574);
+  text('', 37).copy(vd, 702);
+  text('', 37).copy(vd, 739);
+  text('', 37).copy(vd, 776);
+  volumeDate(fields.created).copy(vd, 813);
+  volumeDate(fields.created).copy(vd, 830);
+  volumeDate(null).copy(vd, 847);
+  volumeDate(null).copy(vd, 864);
+  vd[881] = 1;
+  return vd;
+}
+
+function terminatorDescriptor(): Buffer {
+  const vd = Buffer.alloc(SECTOR_SIZE);
+  vd[0] = 255;
+  vd.write('CD001', 1, 'ascii');
+  vd[6] = 1;
+  return vd;
+}
+
+// ============================================
+// ENCODING HELPERS
+// ============================================
+
+function both16(value: number): Buffer {
+  const buf = Buffer.alloc(4);
+  buf.writeUInt16LE(value, 0);
+  buf.writeUInt16BE(value, 2);
+  return buf;
+}
+
+function both32(value: number): Buffer {
+  const buf = Buffer.alloc(8);
+  buf.writeUInt32LE(value, 0);
+  buf.writeUInt32BE(value, 4);
+  return buf;
+}
+
+function recordingDate(date: Date): Buffer {
+  return Buffer.from([
+    date.getUTCFullYear() - 1900,
+    date.getUTCMonth() + 1,
+    date.getUTCDate(),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds(),
+    0,
+  ]);
+}
+
+function volumeDate(date: Date | null): Buffer {
+  const buf = Buffer.alloc(17);
+  if (!date) {
+    buf.write('0000000000000000', 0, 'ascii');
+    return buf;
+  }
+  const digits = date.toISOString().replace(/[-:T.Z]/g, '').substring(0, 16);
+  buf.write(digits, 0, 'ascii');
+  return buf;
+}
+
+function padAscii(value: string, length: number): Buffer {
+  return Buffer.from(value.substring(0, length).padEnd(length, ' '), 'ascii');
+}
+
+function toUcs2(value: string): Buffer {
+  return Buffer.from(value, 'utf16le').swap16();
+}
+
+function padUcs2(value: string, length: number): Buffer {
+  const buf = Buffer.alloc(length);
+  for (let i = 0; i + 1 < length; i += 2) {
+    buf.writeUInt16BE(0x0020, i);
+  }
+  toUcs2(value.substring(0, Math.floor(length / 2))).copy(buf, 0);
+  return buf;
+}
@@ -0,0 +1,70 @@
+/**
+ * Job Lifecycle
+ * Applies status changes to the stored job manifest through the state machine
+ * so lifecycle.states and admin.auditLog hold the full history of every job
+ */
+
+import { uploadFile, readFile } from './storage';
+import { transitionState, isValidTransition, BurnManifest, JobStatus } from './manifest';
+
+export const IN_FLIGHT: JobStatus[] = ['queued', 'downloading', 'burning', 'paused', 'verifying'];
+
+export async function loadJobManifest(jobId: string): Promise<BurnManifest | null> {
+  try {
+    const content = await readFile(`jobs/${jobId}/manifest.json`);
+    return content ? JSON.parse(content) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveJobManifest(manifest: BurnManifest): Promise<void> {
+  await uploadFile(`jobs/${manifest.job.id}/manifest.json`, JSON.stringify(manifest, null, 2));
+}
+
+// Moves the job to a new state and persists it; staying in the same state is a no-op
+export async function advanceJob(
+  manifest: BurnManifest,
+  to: JobStatus,
+  actor: string,
+  reason?: string
+): Promise<BurnManifest> {
+  if (manifest.lifecycle.currentState === to) {
+    return manifest;
+  }
+  transitionState(manifest, to, actor, reason);
+  await saveJobManifest(manifest);
+  return manifest;
+}
+
+// Brings a claimed job back to pending: retries of failed or cancelled jobs,
+// and jobs left in flight by an executor whose lease expired
+export async function prepareAttempt(manifest: BurnManifest, actor: string, attempt: number): Promise<BurnManifest> {
+  const state = manifest.lifecycle.currentState;
+  if (state === 'pending') {
+    return manifest;
+  }
+
+  if (IN_FLIGHT.includes(state)) {
+    transitionState(manifest, 'failed', actor, `Interrupted while ${state}: previous executor lease expired`);
+  }
+  if (!isValidTransition(manifest.lifecycle.currentState, 'pending')) {
+    throw Object.assign(new Error(`Job ${manifest.job.id} is ${manifest.lifecycle.currentState} and cannot be run again`), { permanent: true });
+  }
+  transitionState(manifest, 'pending', actor, `Retry attempt ${attempt}`);
+
+  await saveJobManifest(manifest);
+  return manifest;
+}
+
+// Final failure from any state that allows it; returns false if it does not
+export async function failJob(manifest: BurnManifest, actor: string, reason: string): Promise<boolean> {
+  if (manifest.lifecycle.currentState === 'failed') {
+    return true;
+  }
+  if (!isValidTransition(manifest.lifecycle.currentState, 'failed')) {
+    return false;
+  }
+  await advanceJob(manifest, 'failed', actor, reason);
+  return true;
+}
@@ -0,0 +1,241 @@
+/**
+ * Job Queue
+ * Burn job queue kept on a single storage destination
+ *
+ *   pending/<jobId>.json       queued job
+ *   leases/<jobId>/<n>.json    lease generations, the highest is current
+ *
+ * Claiming a job creates the next lease generation with create-if-absent,
+ * so two executors racing for the same job can never both win. A lease that
+ * is not renewed before its visibility timeout lapses makes the job
+ * claimable again. The attempt count travels in the lease until a nack
+ * writes it back to pending/.
+ */
+
+import * as os from 'os';
+import { BurnManifest, JobStatus } from './manifest';
+import { StorageDestination, getPrimaryDestination } from './storage';
+
+export type JobPriority = BurnManifest['job']['priority'];
+
+export interface QueuedJob {
+  jobId: string;
+  status: JobStatus;
+  priority: JobPriority;
+  created: string;
+  files: string[];
+  fileCount: number;
+  volumes: number;
+  attempts: number;
+  availableAt?: string;
+  lastError?: string;
+}
+
+export interface JobLease {
+  jobId: string;
+  leaseId: string;
+  owner: string;
+  generation: number;
+  claimedAt: string;
+  expiresAt: string;
+  released?: boolean;
+  job: QueuedJob;
+}
+
+export interface QueueEntry {
+  job: QueuedJob;
+  lease: JobLease | null;
+  state: 'available' | 'leased' | 'delayed';
+}
+
+export const DEFAULT_VISIBILITY_TIMEOUT = 10 * 60 * 1000;
+
+const PRIORITY_ORDER: Record<JobPriority, number> = { urgent: 0, high: 1, normal: 2, low: 3 };
+
+export function jobFromManifest(manifest: BurnManifest): QueuedJob {
+  const files = manifest.payload.files.filter(f => f.include).map(f => f.path);
+  return {
+    jobId: manifest.job.id,
+    status: manifest.job.status,
+    priority: manifest.job.priority,
+    created: manifest.job.created,
+    files,
+    fileCount: files.length,
+    volumes: manifest.payload.volumes?.length || 1,
+    attempts: 0,
+  };
+}
+
+export function getExecutorId(): string {
+  return `${os.hostname()}-${process.pid}`;
+}
+
+export function createJobQueue(storage: StorageDestination) {
+  async function readJson<T>(fileName: string): Promise<T | null> {
+    const content = await storage.read(fileName);
+    if (!content) return null;
+    try {
+      return JSON.parse(content) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  async function currentLease(jobId: string): Promise<JobLease | null> {
+    const items = await storage.list(`/DiscBurn/leases/${jobId}`);
+    const generations = items
+      .map((item: any) => /^(\d+)\.json$/.exec(item.name))
+      .filter((m): m is RegExpExecArray => !!m)
+      .map(m => parseInt(m[1], 10));
+    if (generations.length === 0) return null;
+    return readJson<JobLease>(`leases/${jobId}/${Math.max(...generations)}.json`);
+  }
+
+  function isHeld(lease: JobLease | null, now: number = Date.now()): boolean {
+    return !!lease && !lease.released && Date.parse(lease.expiresAt) > now;
+  }
+
+  async function assertHolder(lease: JobLease): Promise<void> {
+    const current = await currentLease(lease.jobId);
+    if (!current || current.leaseId !== lease.leaseId || current.released) {
+      throw new Error(`Lease lost for job ${lease.jobId}`);
+    }
+  }
+
+  async function enqueue(job: QueuedJob): Promise<QueuedJob> {
+    await storage.upload(`pending/${job.jobId}.json`, JSON.stringify(job, null, 2));
+    return job;
+  }
+
+  async function list(): Promise<QueueEntry[]> {
+    const items = await storage.list('/DiscBurn/pending');
+    const entries: QueueEntry[] = [];
+    const now = Date.now();
+
+    for (const item of items) {
+      if (!item.name?.endsWith('.json')) continue;
+      const job = await readJson<QueuedJob>(`pending/${item.name}`);
+      if (!job) continue;
+      const lease = await currentLease(job.jobId);
+      const state = isHeld(lease, now)
+        ? 'leased'
+        : job.availableAt && Date.parse(job.availableAt) > now ? 'delayed' : 'available';
+      entries.push({ job, lease, state });
+    }
+
+    return entries.sort((a, b) =>
+      (PRIORITY_ORDER[a.job.priority] ?? 2) - (PRIORITY_ORDER[b.job.priority] ?? 2) ||
+      a.job.created.localeCompare(b.job.created)
+    );
+  }
+
+  // Claim one specific job
+  async function lease(
+    jobId: string,
+    owner: string = getExecutorId(),
+    visibilityTimeout: number = DEFAULT_VISIBILITY_TIMEOUT
+  ): Promise<JobLease | null> {
+    const job = await readJson<QueuedJob>(`pending/${jobId}.json`);
+    if (!job) return null;
+    if (job.availableAt && Date.parse(job.availableAt) > Date.now()) return null;
+
+    const current = await currentLease(jobId);
+    if (isHeld(current)) return null;
+
+    const now = new Date();
+    const claimed: JobLease = {
+      jobId,
+      leaseId: `${owner}-${now.getTime()}`,
+      owner,
+      generation: (current?.generation || 0) + 1,
+      claimedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + visibilityTimeout).toISOString(),
+      // An expired lease counts as an attempt even though it never nacked
+      job: { ...job, attempts: Math.max(job.attempts || 0, current?.job.attempts || 0) + 1 },
+    };
+
+    if (!(await storage.create(`leases/${jobId}/${claimed.generation}.json`, JSON.stringify(claimed, null, 2)))) {
+      return null;
+    }
+
+    // Another executor may have acked the job since it was read; pending is only
+    // ever written back by nack, from the lease
+    if (!(await readJson<QueuedJob>(`pending/${jobId}.json`))) {
+      await storage.delete(`leases/${jobId}/${claimed.generation}.json`);
+      return null;
+    }
+    return claimed;
+  }
+
+  // Claim the highest-priority available job
+  async function claim(
+    owner: string = getExecutorId(),
+    visibilityTimeout: number = DEFAULT_VISIBILITY_TIMEOUT
+  ): Promise<JobLease | null> {
+    for (const entry of await list()) {
+      if (entry.state !== 'available') continue;
+      const claimed = await lease(entry.job.jobId, owner, visibilityTimeout);
+      if (claimed) return claimed;
+    }
+    return null;
+  }
+
+  // Checked again after the write: another executor may have claimed the job between
+  // the check and the write once the lease had expired, and then the newer generation wins
+  async function renew(held: JobLease, visibilityTimeout: number = DEFAULT_VISIBILITY_TIMEOUT): Promise<JobLease> {
+    await assertHolder(held);
+    const renewed = { ...held, expiresAt: new Date(Date.now() + visibilityTimeout).toISOString() };
+    await storage.upload(`leases/${held.jobId}/${held.generation}.json`, JSON.stringify(renewed, null, 2));
+    await assertHolder(held);
+    return renewed;
+  }
+
+  // Renews once less than half of the visibility timeout is left
+  async function keepAlive(held: JobLease, visibilityTimeout: number = DEFAULT_VISIBILITY_TIMEOUT): Promise<JobLease> {
+    if (Date.parse(held.expiresAt) - Date.now() > visibilityTimeout / 2) {
+      return held;
+    }
+    return renew(held, visibilityTimeout);
+  }
+
+  // Done with the job: remove it from the queue
+  async function ack(held: JobLease): Promise<void> {
+    await assertHolder(held);
+    await storage.delete(`pending/${held.jobId}.json`);
+    await storage.delete(`leases/${held.jobId}`);
+  }
+
+  // Give the job back, optionally delayed, recording why
+  async function nack(held: JobLease, options: { delayMs?: number; error?: string } = {}): Promise<QueuedJob> {
+    await assertHolder(held);
+    const job: QueuedJob = {
+      ...held.job,
+      availableAt: options.delayMs ? new Date(Date.now() + options.delayMs).toISOString() : undefined,
+      lastError: options.error ?? held.job.lastError,
+    };
+    await storage.upload(`pending/${held.jobId}.json`, JSON.stringify(job, null, 2));
+    await storage.upload(`leases/${held.jobId}/${held.generation}.json`, JSON.stringify({ ...held, released: true }, null, 2));
+    return job;
+  }
+
+  // Put a job that left the queue (failed, cancelled) back in
+  async function requeue(job: QueuedJob, options: { delayMs?: number } = {}): Promise<QueuedJob> {
+    if (isHeld(await currentLease(job.jobId))) {
+      throw new Error(`Job ${job.jobId} is currently leased`);
+    }
+    await storage.delete(`leases/${job.jobId}`);
+    return enqueue({
+      ...job,
+      status: 'pending',
+      availableAt: options.delayMs ? new Date(Date.now() + options.delayMs).toISOString() : undefined,
+    });
+  }
+
+  return { enqueue, list, lease, claim, renew, keepAlive, ack, nack, requeue };
+}
+
+export type JobQueue = ReturnType<typeof createJobQueue>;
+
+export async function getJobQueue(): Promise<JobQueue> {
+  return createJobQueue(await getPrimaryDestination());
+}
@@ -1,14 +1,33 @@
+import { merkleRoot } from './checksum';
+
 export const MANIFEST_VERSION = '2.0.0';
 
+export type DiscType = 'DVD-R' | 'DVD+R' | 'DVD-RW' | 'BD-R' | 'BD-RE';
+
+export const DISC_CAPACITY: Record<DiscType, number> = {
+  'DVD-R': 4700000000,
+  'DVD+R': 4700000000,
+  'DVD-RW': 4700000000,
+  'BD-R': 25000000000,
+  'BD-RE': 25000000000,
+};
+
+// Space held back on every disc for filesystem structures and the disc index
+const VOLUME_RESERVE_BYTES = 16 * 1024 * 1024;
+const FILE_OVERHEAD_BYTES = 2048;
+
 export type JobStatus = 
   | 'created'
+  | 'awaiting_approval'
   | 'pending'
   | 'queued'
   | 'downloading'
   | 'burning'
+  | 'paused'
   | 'verifying'
   | 'complete'
   | 'failed'
+  | 'rejected'
   | 'cancelled';
 
 export interface BurnManifest {
@@ -37,11 +56,13 @@ export interface BurnManifest {
     };
     destinations: string[];
     discSettings: {
-      type: 'DVD-R' | 'DVD+R' | 'DVD-RW' | 'BD-R' | 'BD-RE';
+      type: DiscType;
       speed: 'auto' | number;
       verify: boolean;
       finalize: boolean;
       label?: string;
+      // Set for encrypted discs; names the key needed to read them back
+      encryption?: DiscEncryption;
     };
   };
   
@@ -50,6 +71,7 @@ export interface BurnManifest {
     totalSize?: number;
     checksum?: string;
     files: PayloadFile[];
+    volumes?: DiscVolume[];
   };
   
   lifecycle: {
@@ -57,6 +79,10 @@ export interface BurnManifest {
     currentState: JobStatus;
     retryCount: number;
     maxRetries: number;
+    errors?: JobError[];
+    checkpoint?: BurnCheckpoint;
+    // Why a completed job's discs were not read back; absent when every disc was verified
+    unverified?: string;
   };
   
   notifications: {
@@ -69,6 +95,8 @@ export interface BurnManifest {
   admin: {
     createdBy?: string;
     approvedBy?: string;
+    approvedAt?: string;
+    rejectedBy?: string;
     executorId?: string;
     auditLog: AuditEntry[];
   };
@@ -79,6 +107,23 @@ export interface PayloadFile {
   size?: number;
   checksum?: string;
   include: boolean;
+  volume?: number;
+}
+
+export interface DiscEncryption {
+  algorithm: 'AES-256-GCM';
+  keyId: string;
+  // Salt the key ID was derived with, so any install can check a key against it
+  keySalt?: string;
+}
+
+export interface DiscVolume {
+  number: number;
+  label: string;
+  fileCount: number;
+  totalSize: number;
+  burned: boolean;
+  burnedAt?: string;
 }
 
 export interface StateTransition {
@@ -89,6 +134,22 @@ export interface StateTransition {
   reason?: string;
 }
 
+// Where a paused burn stopped; the executor resumes from the next step
+export interface BurnCheckpoint {
+  volume: number;
+  step: number;
+  progress: number;
+  savedAt: string;
+}
+
+export interface JobError {
+  attempt: number;
+  timestamp: string;
+  actor: string;
+  message: string;
+  kind: 'transient' | 'permanent';
+}
+
 export interface AuditEntry {
   timestamp: string;
   action: string;
@@ -96,25 +157,102 @@ export interface AuditEntry {
   details?: Record<string, any>;
 }
 
-export function calculatePayloadChecksum(files: string[]): string {
-  const content = files.sort().join('\n');
-  let hash = 0;
-  for (let i = 0; i < content.length; i++) {
-    const char = content.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
+// Merkle root over the per-file content digests; unreadable files carry no digest and are left out
+export function calculatePayloadChecksum(files: { path: string; checksum?: string }[]): string | undefined {
+  const hashed = files.filter((f): f is { path: string; checksum: string } => !!f.checksum);
+  return hashed.length > 0 ? merkleRoot(hashed) : undefined;
+}
+
+export function volumeLabel(baseLabel: string, volume: number, totalVolumes: number): string {
+  return totalVolumes > 1 ? `${baseLabel}_${volume}of${totalVolumes}` : baseLabel;
+}
+
+// First-fit decreasing bin packing of files onto discs of the given capacity
+export function planVolumes(files: { path: string; size: number }[], capacity: number): string[][] {
+  const usable = capacity - VOLUME_RESERVE_BYTES;
+  const cost = (size: number) => Math.ceil(size / 2048) * 2048 + FILE_OVERHEAD_BYTES;
+  const bins: { free: number; paths: string[] }[] = [];
+  
+  for (const file of [...files].sort((a, b) => b.size - a.size)) {
+    const needed = cost(file.size);
+    if (needed > usable) {
+      throw Object.assign(new Error(`File does not fit on a single disc: ${file.path}`), { permanent: true });
+    }
+    
+    let bin = bins.find(b => b.free >= needed);
+    if (!bin) {
+      bin = { free: usable, paths: [] };
+      bins.push(bin);
+    }
+    bin.free -= needed;
+    bin.paths.push(file.path);
   }
-  return `sha256:${Math.abs(hash).toString(16).padStart(16, '0')}`;
+  
+  const order = new Map(files.map((f, i) => [f.path, i]));
+  return bins.map(b => b.paths.sort((x, y) => order.get(x)! - order.get(y)!));
+}
+
+export function markVolumeBurned(manifest: BurnManifest, volume: number, actor: string = 'executor'): BurnManifest {
+  const entry = manifest.payload.volumes?.find(v => v.number === volume);
+  if (!entry) {
+    throw new Error(`Unknown volume ${volume} for job ${manifest.job.id}`);
+  }
+  
+  const now = new Date().toISOString();
+  entry.burned = true;
+  entry.burnedAt = now;
+  manifest.job.updated = now;
+  manifest.admin.auditLog.push({
+    timestamp: now,
+    action: 'VOLUME_BURNED',
+    actor,
+    details: { volume, label: entry.label, totalVolumes: manifest.payload.volumes!.length },
+  });
+  
+  return manifest;
 }
 
 export function createManifest(options: {
   jobId: string;
   files: string[];
+  fileSizes?: Record<string, number>;
+  fileChecksums?: Record<string, string>;
+  // Files to burn; the rest are listed with include: false. Defaults to all files
+  selected?: string[];
   target?: string;
   priority?: 'low' | 'normal' | 'high' | 'urgent';
   device?: string;
+  discType?: DiscType;
+  encryption?: DiscEncryption;
 }): BurnManifest {
   const now = new Date().toISOString();
+  const discType = options.discType || 'DVD-R';
+  const label = `DiscBurn_${options.jobId.split('-')[1]?.substring(0, 10) || 'backup'}`;
+  const sizes = options.fileSizes;
+  const selected = options.selected ? new Set(options.selected) : null;
+  const payloadFiles: PayloadFile[] = options.files.map(f => ({
+    path: f,
+    size: sizes?.[f],
+    checksum: options.fileChecksums?.[f],
+    include: !selected || selected.has(f),
+  }));
+  const included = payloadFiles.filter(f => f.include);
+  
+  let volumes: DiscVolume[] | undefined;
+  if (sizes) {
+    const byPath = new Map(payloadFiles.map(f => [f.path, f]));
+    const plan = planVolumes(included.map(f => ({ path: f.path, size: sizes[f.path] || 0 })), DISC_CAPACITY[discType]);
+    volumes = plan.map((paths, i) => {
+      paths.forEach(p => { byPath.get(p)!.volume = i + 1; });
+      return {
+        number: i + 1,
+        label: volumeLabel(label, i + 1, plan.length),
+        fileCount: paths.length,
+        totalSize: paths.reduce((sum, p) => sum + (sizes[p] || 0), 0),
+        burned: false,
+      };
+    });
+  }
   
   return {
     version: MANIFEST_VERSION,
@@ -135,28 +273,27 @@ export function createManifest(options: {
     target: {
       device: {
         name: options.device || 'HP DVD557s',
-        type: 'dvd',
+        type: discType.startsWith('BD') ? 'bluray' : 'dvd',
         model: 'HP DVD557s',
         connection: 'usb',
       },
       destinations: ['OneDrive', 'SovereignCapsule'],
       discSettings: {
-        type: 'DVD-R',
+        type: discType,
         speed: 'auto',
         verify: true,
         finalize: true,
-        label: `DiscBurn_${options.jobId.split('-')[1]?.substring(0, 10) || 'backup'}`,
+        label,
+        encryption: options.encryption,
       },
     },
     
     payload: {
-      totalFiles: options.files.length,
-      totalSize: 0,
-      checksum: calculatePayloadChecksum(options.files),
-      files: options.files.map(f => ({
-        path: f,
-        include: true,
-      })),
+      totalFiles: included.length,
+      totalSize: sizes ? included.reduce((sum, f) => sum + (sizes[f.path] || 0), 0) : 0,
+      checksum: calculatePayloadChecksum(included),
+      files: payloadFiles,
+      volumes,
     },
     
     lifecycle: {
@@ -183,20 +320,25 @@ export function createManifest(options: {
         timestamp: now,
         action: 'JOB_CREATED',
         actor: 'system',
-        details: { fileCount: options.files.length },
+        details: { fileCount: included.length, volumes: volumes?.length || 1 },
       }],
     },
   };
 }
 
 const VALID_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
-  'created': ['pending', 'cancelled'],
-  'pending': ['queued', 'cancelled'],
-  'queued': ['downloading', 'cancelled'],
+  'created': ['pending', 'awaiting_approval', 'cancelled'],
+  'awaiting_approval': ['pending', 'rejected', 'cancelled'],
+  // Back to awaiting_approval when an executor finds an unapproved job under requireApproval
+  'pending': ['queued', 'awaiting_approval', 'cancelled'],
+  'queued': ['downloading', 'failed', 'cancelled'],
   'downloading': ['burning', 'failed', 'cancelled'],
-  'burning': ['verifying', 'failed', 'cancelled'],
-  'verifying': ['complete', 'failed'],
+  'burning': ['verifying', 'paused', 'failed', 'cancelled'],
+  'paused': ['burning', 'failed', 'cancelled'],
+  // Back to burning for the next disc of a multi-disc set
+  'verifying': ['burning', 'complete', 'failed'],
   'complete': [],
+  'rejected': [],
   'failed': ['pending'],
   'cancelled': ['pending'],
 };
@@ -215,7 +357,7 @@ export function transitionState(
   const previousState = manifest.lifecycle.currentState;
   
   if (!isValidTransition(previousState, newState)) {
-    throw new Error(`Invalid state transition: ${previousState} -> ${newState}`);
+    throw Object.assign(new Error(`Invalid state transition: ${previousState} -> ${newState}`), { permanent: true });
   }
   
   manifest.lifecycle.states.push({
@@ -0,0 +1,164 @@
+/**
+ * Policy Enforcement
+ * Checks every new job against PolicyConfig quotas before it is enqueued
+ *
+ * The daily job count comes from the burn jobs and backup snapshots stored
+ * on the primary destination since local midnight, so it holds across CLI
+ * sessions and automation runs however busy the audit log is.
+ *
+ * maxJobSizeMB caps each disc of a burn job as planned for its disc type, so
+ * a payload spanning several discs is not refused for its total size.
+ * Backups are stored, not burned, and have no size cap.
+ */
+
+import { getConfig, logAudit, PolicyConfig } from './admin';
+import { listFiles } from './storage';
+import { listSnapshots } from './snapshots';
+import { DiscType, DISC_CAPACITY, planVolumes } from './manifest';
+
+export type JobKind = 'burn' | 'backup';
+
+export interface PolicyViolation {
+  policy: keyof PolicyConfig;
+  limit: number;
+  actual: number;
+  message: string;
+}
+
+export interface PolicyEvaluation {
+  allowed: boolean;
+  kind: JobKind;
+  usage: {
+    jobsToday: number;
+    fileCount: number;
+    totalSizeMB: number;
+    // Largest planned disc of a burn job
+    volumeSizeMB?: number;
+  };
+  violations: PolicyViolation[];
+}
+
+// Job and snapshot IDs carry their creation time: burn-2024-01-01T10-00-00-000Z
+function createdAt(id: string): number | null {
+  const match = id.match(/(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/);
+  return match ? Date.parse(`${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z`) : null;
+}
+
+export async function countJobsToday(now: Date = new Date()): Promise<number> {
+  const midnight = new Date(now);
+  midnight.setHours(0, 0, 0, 0);
+
+  const burnJobs = (await listFiles('/DiscBurn/jobs')).filter(f => f.folder).map(f => f.name as string);
+  const backups = await listSnapshots();
+  return [...burnJobs, ...backups].filter(id => (createdAt(id) ?? 0) >= midnight.getTime()).length;
+}
+
+function toMB(bytes: number): number {
+  return Math.round((bytes / 1024 / 1024) * 100) / 100;
+}
+
+// Size of the largest disc the files are planned onto; a file that fits on no
+// disc counts on its own and is refused later by volume planning
+function largestVolumeBytes(fileSizes: Record<string, number>, discType: DiscType): number {
+  const files = Object.entries(fileSizes).map(([path, size]) => ({ path, size }));
+  try {
+    const plan = planVolumes(files, DISC_CAPACITY[discType]);
+    return Math.max(0, ...plan.map(paths => paths.reduce((sum, p) => sum + fileSizes[p], 0)));
+  } catch {
+    return Math.max(0, ...files.map(f => f.size));
+  }
+}
+
+export async function evaluateJobPolicy(
+  kind: JobKind,
+  fileSizes: Record<string, number>,
+  discType: DiscType = 'DVD-R'
+): Promise<PolicyEvaluation> {
+  const { policies } = await getConfig();
+  const fileCount = Object.keys(fileSizes).length;
+  const totalSizeMB = toMB(Object.values(fileSizes).reduce((sum, size) => sum + size, 0));
+  const volumeSizeMB = kind === 'burn' ? toMB(largestVolumeBytes(fileSizes, discType)) : undefined;
+  const jobsToday = await countJobsToday();
+  const violations: PolicyViolation[] = [];
+
+  if (jobsToday >= policies.maxJobsPerDay) {
+    violations.push({
+      policy: 'maxJobsPerDay',
+      limit: policies.maxJobsPerDay,
+      actual: jobsToday,
+      message: `Daily job limit reached: ${jobsToday} of ${policies.maxJobsPerDay} jobs already created today`,
+    });
+  }
+  if (fileCount > policies.maxFilesPerJob) {
+    violations.push({
+      policy: 'maxFilesPerJob',
+      limit: policies.maxFilesPerJob,
+      actual: fileCount,
+      message: `Too many files: ${fileCount} exceeds the limit of ${policies.maxFilesPerJob} per job`,
+    });
+  }
+  if (volumeSizeMB !== undefined && volumeSizeMB > policies.maxJobSizeMB) {
+    violations.push({
+      policy: 'maxJobSizeMB',
+      limit: policies.maxJobSizeMB,
+      actual: volumeSizeMB,
+      message: `Disc too large: ${volumeSizeMB.toFixed(2)} MB on one disc exceeds the limit of ${policies.maxJobSizeMB} MB`,
+    });
+  }
+
+  return {
+    allowed: violations.length === 0,
+    kind,
+    usage: { jobsToday, fileCount, totalSizeMB, volumeSizeMB },
+    violations,
+  };
+}
+
+// Evaluates the job and logs a warn audit entry when it is refused
+export async function enforceJobPolicy(
+  kind: JobKind,
+  fileSizes: Record<string, number>,
+  target?: string,
+  discType?: DiscType
+): Promise<PolicyEvaluation> {
+  const evaluation = await evaluateJobPolicy(kind, fileSizes, discType);
+
+  if (!evaluation.allowed) {
+    await logAudit({
+      level: 'warn',
+      category: 'policy',
+      action: 'POLICY_VIOLATION',
+      actor: 'system',
+      target,
+      details: { kind, usage: evaluation.usage, violations: evaluation.violations },
+      result: 'failure',
+    });
+  }
+
+  return evaluation;
+}
+
+// Audit record of a job that passed the policy checks
+export async function recordJobCreated(kind: JobKind, jobId: string, usage: PolicyEvaluation['usage']): Promise<void> {
+  await logAudit({
+    level: 'info',
+    category: 'job',
+    action: 'JOB_CREATED',
+    actor: 'system',
+    target: jobId,
+    details: { kind, fileCount: usage.fileCount, totalSizeMB: usage.totalSizeMB },
+    result: 'success',
+  });
+}
+
+export function formatPolicyViolations(evaluation: PolicyEvaluation): string {
+  const label = evaluation.kind === 'burn' ? 'BURN JOB' : 'BACKUP';
+  return `
+POLICY VIOLATION - ${label} REFUSED
+${'='.repeat(label.length + 27)}
+${evaluation.violations.map(v => `  - ${v.message}`).join('\n')}
+
+Usage: ${evaluation.usage.fileCount} files, ${evaluation.usage.totalSizeMB.toFixed(2)} MB, ${evaluation.usage.jobsToday} jobs today
+Adjust limits with the policies section of data/config.json.
+`;
+}
@@ -0,0 +1,157 @@
+/**
+ * Progress Events
+ * Byte-level progress of long-running steps: packaging, uploads, backups,
+ * burning and verification
+ *
+ * A step reports through a tracker, which works out percent, speed (over a
+ * short sliding window) and ETA and publishes events to every listener. The
+ * CLI draws them as a progress bar; the burn executor also writes the latest
+ * event into status/<jobId>.json for the phone.
+ */
+
+export type ProgressPhase = 'hashing' | 'imaging' | 'uploading' | 'backup' | 'burning' | 'verifying';
+
+export interface ProgressEvent {
+  // Job, package or snapshot the step belongs to
+  id: string;
+  phase: ProgressPhase;
+  label: string;
+  bytesDone: number;
+  bytesTotal: number;
+  percent: number;
+  currentFile?: string;
+  filesDone: number;
+  filesTotal: number;
+  bytesPerSecond: number;
+  // null until there is a speed to go on
+  etaSeconds: number | null;
+  done: boolean;
+  timestamp: string;
+}
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+export interface ProgressTracker {
+  advance(bytes: number, currentFile?: string): void;
+  // Absolute position, for steps that report confirmed offsets (uploads, burns)
+  update(position: { bytesDone: number; currentFile?: string; filesDone?: number }): void;
+  fileDone(): void;
+  finish(): void;
+  current(): ProgressEvent;
+}
+
+const SPEED_WINDOW_MS = 5000;
+const EMIT_INTERVAL_MS = 200;
+
+const listeners = new Set<ProgressListener>();
+
+// Returns the unsubscribe function
+export function onProgress(listener: ProgressListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function publish(event: ProgressEvent) {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch {}
+  }
+}
+
+export function createProgressTracker(options: {
+  id: string;
+  phase: ProgressPhase;
+  label?: string;
+  bytesTotal: number;
+  filesTotal?: number;
+}): ProgressTracker {
+  const samples = [{ at: Date.now(), bytes: 0 }];
+  let bytesDone = 0;
+  let filesDone = 0;
+  let currentFile: string | undefined;
+  let done = false;
+  let lastEmit = 0;
+
+  const current = (): ProgressEvent => {
+    const now = Date.now();
+    const base = samples[0];
+    const seconds = (now - base.at) / 1000;
+    const bytesPerSecond = seconds > 0 ? Math.max(0, (bytesDone - base.bytes) / seconds) : 0;
+    const remaining = Math.max(0, options.bytesTotal - bytesDone);
+    return {
+      id: options.id,
+      phase: options.phase,
+      label: options.label || options.phase,
+      bytesDone,
+      bytesTotal: options.bytesTotal,
+      percent: options.bytesTotal > 0 ? Math.min(100, Math.floor((bytesDone / options.bytesTotal) * 100)) : done ? 100 : 0,
+      currentFile,
+      filesDone,
+      filesTotal: options.filesTotal ?? 0,
+      bytesPerSecond: Math.round(bytesPerSecond),
+      etaSeconds: done ? 0 : bytesPerSecond > 0 ? Math.ceil(remaining / bytesPerSecond) : null,
+      done,
+      timestamp: new Date(now).toISOString(),
+    };
+  };
+
+  // Speed is measured against the oldest sample still inside the window
+  const record = (force: boolean) => {
+    const now = Date.now();
+    samples.push({ at: now, bytes: bytesDone });
+    while (samples.length > 2 && samples[1].at <= now - SPEED_WINDOW_MS) {
+      samples.shift();
+    }
+    if (force || now - lastEmit >= EMIT_INTERVAL_MS) {
+      lastEmit = now;
+      publish(current());
+    }
+  };
+
+  record(true);
+
+  return {
+    advance(bytes, file) {
+      bytesDone += bytes;
+      if (file !== undefined) currentFile = file;
+      record(false);
+    },
+    update(position) {
+      bytesDone = position.bytesDone;
+      if (position.currentFile !== undefined) currentFile = position.currentFile;
+      if (position.filesDone !== undefined) filesDone = position.filesDone;
+      record(false);
+    },
+    fileDone() {
+      filesDone++;
+      record(false);
+    },
+    finish() {
+      if (done) return;
+      done = true;
+      bytesDone = Math.max(bytesDone, options.bytesTotal);
+      filesDone = Math.max(filesDone, options.filesTotal ?? 0);
+      record(true);
+    },
+    current,
+  };
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
+
+export function formatEta(seconds: number | null): string {
+  if (seconds === null) return '--:--';
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const mmss = `${String(m).padStart(h > 0 ? 2 : 1, '0')}:${String(s).padStart(2, '0')}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+}
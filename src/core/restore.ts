@@ -0,0 +1,422 @@
+/**
+ * Restore
+ * Brings files back from backup snapshots and burn packages on any readable
+ * destination
+ *
+ *   snapshots/<id>.json + objects/   backup runs
+ *   burn-ready/<id>/                 burn packages (BURN_PACKAGE.json and disc images)
+ *
+ * Every file is checked against its recorded SHA-256 before it is moved into
+ * place. Encrypted packages need the key recorded in BURN_PACKAGE.json. A file already in the target directory with other content is a
+ * conflict, and nothing is written while conflicts remain unless forced.
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { getDestinations, StorageDestination } from './storage';
+import { logAudit } from './admin';
+import { sha256, sha256File } from './checksum';
+import { objectPath, SnapshotIndex } from './snapshots';
+import { pathSelector } from './burn-targets';
+import { readImageFiles, extractImageFile } from './image-reader';
+import { describeEncryptionKey, configuredKeyMatches, ObjectEncryption, PASSPHRASE_ENV } from './encryption';
+import { unsealDiscImage } from './sealed-disc';
+import { DiscEncryption } from './manifest';
+
+export type RestoreSourceKind = 'snapshot' | 'package';
+
+export interface RestoreSource {
+  kind: RestoreSourceKind;
+  id: string;
+  created: string;
+  totalFiles: number;
+  totalSize: number;
+  destinations: string[];
+  // Key needed for an encrypted package
+  keyId?: string;
+  keySalt?: string;
+}
+
+export type RestoreFileStatus = 'restored' | 'unchanged' | 'conflict' | 'skipped' | 'corrupt' | 'failed';
+
+export interface RestoreFileResult {
+  path: string;
+  size: number;
+  checksum: string;
+  status: RestoreFileStatus;
+  message?: string;
+}
+
+export interface RestoreOptions {
+  targetDir?: string;
+  paths?: string[];
+  force?: boolean;
+}
+
+export interface RestoreReport {
+  success: boolean;
+  message: string;
+  source?: RestoreSource;
+  destination?: string;
+  targetDir: string;
+  forced: boolean;
+  files: RestoreFileResult[];
+  unmatched: string[];
+}
+
+interface RestoreEntry {
+  path: string;
+  size: number;
+  checksum: string;
+  mtime?: string;
+  volume?: number;
+  // Snapshot objects: where the content is stored and how it was sealed
+  object?: string;
+  encryption?: ObjectEncryption;
+}
+
+interface BurnPackageIndex {
+  id: string;
+  created: string;
+  totalFiles: number;
+  totalSize: number;
+  images: { volume: number; name: string }[];
+  files: RestoreEntry[];
+  discEncryption?: DiscEncryption;
+}
+
+interface LocatedSource {
+  source: RestoreSource;
+  destination: StorageDestination;
+  entries: RestoreEntry[];
+  images: BurnPackageIndex['images'];
+}
+
+export async function listRestoreSources(): Promise<RestoreSource[]> {
+  const sources = new Map<string, RestoreSource>();
+  const add = (source: Omit<RestoreSource, 'destinations'>, destination: string) => {
+    const known = sources.get(source.id);
+    if (known) {
+      known.destinations.push(destination);
+    } else {
+      sources.set(source.id, { ...source, destinations: [destination] });
+    }
+  };
+
+  for (const destination of await readableDestinations()) {
+    try {
+      for (const entry of await destination.list('/DiscBurn/snapshots')) {
+        if (entry.folder || !entry.name.endsWith('.json')) continue;
+        const snapshot = await readJson<SnapshotIndex>(destination, `snapshots/${entry.name}`);
+        if (!snapshot) continue;
+        add({ kind: 'snapshot', id: snapshot.id, created: snapshot.created, totalFiles: snapshot.totalFiles, totalSize: snapshot.totalSize }, destination.name);
+      }
+      for (const entry of await destination.list('/DiscBurn/burn-ready')) {
+        if (!entry.folder) continue;
+        const burnPackage = await readJson<BurnPackageIndex>(destination, `burn-ready/${entry.name}/BURN_PACKAGE.json`);
+        if (!burnPackage) continue;
+        add({ kind: 'package', id: burnPackage.id, created: burnPackage.created, totalFiles: burnPackage.totalFiles, totalSize: burnPackage.totalSize, keyId: burnPackage.discEncryption?.keyId, keySalt: burnPackage.discEncryption?.keySalt }, destination.name);
+      }
+    } catch {}
+  }
+
+  return [...sources.values()].sort((a, b) => a.created.localeCompare(b.created));
+}
+
+export async function restore(sourceId: string, options: RestoreOptions = {}): Promise<RestoreReport> {
+  const targetDir = path.resolve(process.cwd(), options.targetDir || path.join('data', 'restore', sourceId));
+  const forced = options.force ?? false;
+  const report: RestoreReport = { success: false, message: '', targetDir, forced, files: [], unmatched: [] };
+
+  const problems: string[] = [];
+  const located = await locateSource(sourceId, problems);
+  if (!located) {
+    report.message = problems.length > 0
+      ? `Could not read ${sourceId}: ${problems.join('; ')}`
+      : `No snapshot or burn package named ${sourceId} on any readable destination`;
+    return report;
+  }
+  report.source = located.source;
+  report.destination = located.destination.name;
+
+  // Encrypted packages name their key, so a wrong one is refused before any download
+  if (located.source.keyId) {
+    const key = await describeEncryptionKey();
+    if (!key || !(await configuredKeyMatches({ keyId: located.source.keyId, keySalt: located.source.keySalt }))) {
+      report.message = key
+        ? `${sourceId} is encrypted with key ${located.source.keyId}, which the configured key (${key.keyId}) does not match`
+        : `${sourceId} is encrypted with key ${located.source.keyId}: set ${PASSPHRASE_ENV} or encryption.keyfile`;
+      return report;
+    }
+  }
+
+  let entries = located.entries;
+  if (options.paths && options.paths.length > 0) {
+    const picked = new Set<RestoreEntry>();
+    for (const selector of options.paths) {
+      const selects = pathSelector(selector);
+      const matches = entries.filter(e => selects(e.path));
+      if (matches.length === 0) report.unmatched.push(selector);
+      matches.forEach(e => picked.add(e));
+    }
+    entries = entries.filter(e => picked.has(e));
+  }
+  if (entries.length === 0) {
+    report.message = `Nothing to restore from ${sourceId}`;
+    return report;
+  }
+
+  // Check the target before writing anything
+  const todo: RestoreEntry[] = [];
+  for (const entry of entries) {
+    const result: RestoreFileResult = { path: entry.path, size: entry.size, checksum: entry.checksum, status: 'skipped' };
+    report.files.push(result);
+    try {
+      const target = resolveTarget(targetDir, entry.path);
+      const existing = await fs.stat(target).catch(() => null);
+      if (!existing) {
+        todo.push(entry);
+      } else if (existing.isFile() && await sha256File(target) === entry.checksum) {
+        result.status = 'unchanged';
+      } else {
+        result.status = 'conflict';
+        result.message = existing.isFile() ? 'Differs from backup' : 'Not a regular file';
+        todo.push(entry);
+      }
+    } catch (error: any) {
+      result.status = 'failed';
+      result.message = error.message;
+    }
+  }
+
+  const conflicts = report.files.filter(f => f.status === 'conflict');
+  if (conflicts.length > 0 && !forced) {
+    report.message = `Refusing to overwrite ${conflicts.length} changed file${conflicts.length === 1 ? '' : 's'}; use --force to replace them`;
+    return finish(report);
+  }
+
+  const results = new Map(report.files.map(f => [f.path, f]));
+  if (located.source.kind === 'snapshot') {
+    await restoreObjects(located.destination, todo, targetDir, results);
+  } else {
+    await restoreFromImages(located, todo, targetDir, results);
+  }
+
+  const failed = report.files.filter(f => f.status === 'corrupt' || f.status === 'failed');
+  report.success = failed.length === 0;
+  report.message = report.success
+    ? `Restored ${report.files.filter(f => f.status === 'restored').length} files from ${sourceId}`
+    : `${failed.length} files could not be restored from ${sourceId}`;
+  return finish(report);
+}
+
+async function restoreObjects(
+  destination: StorageDestination,
+  entries: RestoreEntry[],
+  targetDir: string,
+  results: Map<string, RestoreFileResult>
+): Promise<void> {
+  for (const entry of entries) {
+    const result = results.get(entry.path)!;
+    try {
+      // Only objects recorded as unsealed may come back as plaintext
+      const content = await destination.readBinary(entry.object ?? objectPath(entry.checksum), { allowPlain: !entry.encryption });
+      if (!content) {
+        setOutcome(result, 'failed', `Object missing on ${destination.name}`);
+        continue;
+      }
+      if (sha256(content) !== entry.checksum) {
+        setOutcome(result, 'corrupt', 'Stored object does not match its checksum');
+        continue;
+      }
+      const target = resolveTarget(targetDir, entry.path);
+      const tempPath = await tempPathFor(target);
+      await fs.writeFile(tempPath, content);
+      await placeFile(tempPath, target, entry.mtime);
+      setOutcome(result, 'restored');
+    } catch (error: any) {
+      setOutcome(result, 'failed', error.message);
+    }
+  }
+}
+
+// Each disc image is streamed to a file once and the wanted files are copied out of it
+async function restoreFromImages(
+  located: LocatedSource,
+  entries: RestoreEntry[],
+  targetDir: string,
+  results: Map<string, RestoreFileResult>
+): Promise<void> {
+  const workDir = path.join(os.tmpdir(), 'discburn-restore', located.source.id);
+  const byVolume = new Map<number, RestoreEntry[]>();
+  for (const entry of entries) {
+    const volume = entry.volume || 1;
+    byVolume.set(volume, [...(byVolume.get(volume) || []), entry]);
+  }
+
+  try {
+    await fs.mkdir(workDir, { recursive: true });
+    for (const [volume, volumeEntries] of byVolume) {
+      const image = located.images.find(i => i.volume === volume);
+      let imagePath = path.join(workDir, image?.name || '');
+      // Images are never envelope-sealed; what comes out of them is checked against the package digests
+      const downloaded = image
+        ? await located.destination.download(`burn-ready/${located.source.id}/${image.name}`, imagePath, { allowPlain: true }).catch((error: Error) => error)
+        : false;
+      if (!image || downloaded !== true) {
+        const reason = downloaded instanceof Error ? downloaded.message : `Disc image for volume ${volume} not found`;
+        volumeEntries.forEach(e => setOutcome(results.get(e.path)!, 'failed', reason));
+        continue;
+      }
+      if (located.source.keyId) {
+        const discPath = imagePath;
+        imagePath = path.join(workDir, `decrypted-${image.name}`);
+        const unsealed = await unsealDiscImage(discPath, imagePath).catch((error: Error) => error);
+        await fs.rm(discPath, { force: true });
+        if (unsealed !== true) {
+          const reason = unsealed instanceof Error ? unsealed.message : `${image.name} is not an encrypted disc`;
+          volumeEntries.forEach(e => setOutcome(results.get(e.path)!, 'failed', reason));
+          continue;
+        }
+      }
+      const listing = await readImageFiles(imagePath);
+      const files = new Map(listing.files.map(f => [f.path, f]));
+
+      for (const entry of volumeEntries) {
+        const result = results.get(entry.path)!;
+        const imageFile = files.get(entry.path);
+        if (!imageFile) {
+          setOutcome(result, 'failed', `Not found in ${image.name}`);
+          continue;
+        }
+        try {
+          const target = resolveTarget(targetDir, entry.path);
+          const tempPath = await tempPathFor(target);
+          if (await extractImageFile(imagePath, imageFile, tempPath) !== entry.checksum) {
+            await fs.rm(tempPath, { force: true });
+            setOutcome(result, 'corrupt', `Checksum mismatch in ${image.name}`);
+            continue;
+          }
+          await placeFile(tempPath, target);
+          setOutcome(result, 'restored');
+        } catch (error: any) {
+          setOutcome(result, 'failed', error.message);
+        }
+      }
+      await fs.rm(imagePath, { force: true });
+    }
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+async function locateSource(sourceId: string, problems: string[]): Promise<LocatedSource | null> {
+  for (const destination of await readableDestinations()) {
+    const snapshot = await readJson<SnapshotIndex>(destination, `snapshots/${sourceId}.json`, problems);
+    if (snapshot) {
+      return {
+        source: { kind: 'snapshot', id: snapshot.id, created: snapshot.created, totalFiles: snapshot.totalFiles, totalSize: snapshot.totalSize, destinations: [destination.name] },
+        destination,
+        entries: snapshot.files,
+        images: [],
+      };
+    }
+
+    const burnPackage = await readJson<BurnPackageIndex>(destination, `burn-ready/${sourceId}/BURN_PACKAGE.json`, problems);
+    if (burnPackage) {
+      return {
+        source: { kind: 'package', id: burnPackage.id, created: burnPackage.created, totalFiles: burnPackage.totalFiles, totalSize: burnPackage.totalSize, destinations: [destination.name], keyId: burnPackage.discEncryption?.keyId, keySalt: burnPackage.discEncryption?.keySalt },
+        destination,
+        entries: burnPackage.files,
+        images: burnPackage.images,
+      };
+    }
+  }
+  return null;
+}
+
+async function readableDestinations(): Promise<StorageDestination[]> {
+  return (await getDestinations()).filter(d => d.readable && d.configured);
+}
+
+// Read failures (an unavailable key, a damaged index) are collected when problems is given
+async function readJson<T>(destination: StorageDestination, fileName: string, problems?: string[]): Promise<T | null> {
+  try {
+    const content = await destination.read(fileName);
+    return content ? JSON.parse(content) : null;
+  } catch (error: any) {
+    problems?.push(`${destination.name}: ${error.message}`);
+    return null;
+  }
+}
+
+function resolveTarget(targetDir: string, relativePath: string): string {
+  const fullPath = path.resolve(targetDir, relativePath);
+  if (!fullPath.startsWith(targetDir + path.sep)) {
+    throw new Error(`Path escapes restore directory: ${relativePath}`);
+  }
+  return fullPath;
+}
+
+async function tempPathFor(target: string): Promise<string> {
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  return `${target}.${process.pid}.${Date.now()}.restore`;
+}
+
+// Renamed into place so a failed restore never leaves a partial file
+async function placeFile(tempPath: string, target: string, mtime?: string): Promise<void> {
+  if (mtime) {
+    await fs.utimes(tempPath, new Date(mtime), new Date(mtime));
+  }
+  await fs.rm(target, { recursive: true, force: true });
+  await fs.rename(tempPath, target);
+}
+
+function setOutcome(result: RestoreFileResult, status: RestoreFileStatus, message?: string) {
+  result.status = status;
+  result.message = message;
+}
+
+async function finish(report: RestoreReport): Promise<RestoreReport> {
+  const count = (status: RestoreFileStatus) => report.files.filter(f => f.status === status).length;
+  await logAudit({
+    level: report.success ? 'info' : 'warn',
+    category: 'restore',
+    action: 'RESTORE',
+    actor: 'user',
+    target: report.source?.id,
+    details: {
+      kind: report.source?.kind,
+      destination: report.destination,
+      targetDir: report.targetDir,
+      forced: report.forced,
+      restored: count('restored'),
+      unchanged: count('unchanged'),
+      conflicts: count('conflict'),
+      failed: count('failed') + count('corrupt'),
+    },
+    result: report.success ? 'success' : 'failure',
+  });
+  return report;
+}
+
+export function formatRestoreReport(report: RestoreReport): string {
+  const count = (status: RestoreFileStatus) => report.files.filter(f => f.status === status).length;
+  const problems = report.files.filter(f => ['conflict', 'corrupt', 'failed'].includes(f.status));
+  const lines = problems.slice(0, 20).map(f => `  [${f.status.toUpperCase()}] ${f.path}${f.message ? ` - ${f.message}` : ''}`);
+  const more = problems.length > 20 ? `\n  ... and ${problems.length - 20} more` : '';
+
+  return `
+RESTORE ${report.success ? 'COMPLETE' : 'FAILED'}
+========${report.success ? '========' : '======'}
+${report.message}
+${report.source ? `Source: ${report.source.id} (${report.source.kind} on ${report.destination})
+` : ''}Target: ${report.targetDir}${report.forced ? ' (forced)' : ''}
+
+Restored: ${count('restored')}
+Unchanged: ${count('unchanged')}
+Conflicts: ${count('conflict')}
+Failed: ${count('failed') + count('corrupt')}
+${lines.length > 0 ? `\n${lines.join('\n')}${more}\n` : ''}${report.unmatched.length > 0 ? `\nNo match: ${report.unmatched.join(', ')}\n` : ''}`;
+}
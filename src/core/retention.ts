@@ -0,0 +1,319 @@
+/**
+ * Retention
+ * Garbage collection of job records older than policies.retentionDays on
+ * every readable destination
+ *
+ *   jobs/<id>/          finished jobs (complete, failed, cancelled, rejected)
+ *   status/, completed/, dead-letter/, commands/   per-job records
+ *   archive/<date>/     daily archive folders
+ *   signals/*.json      signal queue entries
+ *   burn-ready/<id>/    burn packages and their disc images
+ *   snapshots/<id>.json backup snapshots, except the newest
+ *   objects/            backup content no remaining snapshot references
+ *
+ * Queued and running jobs are never touched, whatever their age. The newest
+ * snapshot is always kept, since the next backup builds on it, and objects
+ * go only once they are older than the cutoff too, so a backup still writing
+ * its objects ahead of its index does not lose them.
+ */
+
+import { getConfig, logAudit } from './admin';
+import { BurnManifest, JobStatus } from './manifest';
+import { getDestinations, StorageDestination } from './storage';
+import { objectPath, SnapshotIndex } from './snapshots';
+
+export type GcCategory =
+  | 'jobs'
+  | 'status'
+  | 'completed'
+  | 'dead-letter'
+  | 'commands'
+  | 'archive'
+  | 'signals'
+  | 'burn-ready'
+  | 'snapshots'
+  | 'objects';
+
+export interface GcItem {
+  destination: string;
+  category: GcCategory;
+  path: string;
+  lastModified: string;
+  detail?: string;
+  deleted?: boolean;
+  error?: string;
+}
+
+export interface GcReport {
+  dryRun: boolean;
+  retentionDays: number;
+  cutoff: string;
+  items: GcItem[];
+  skippedDestinations: string[];
+}
+
+const FINISHED: JobStatus[] = ['complete', 'failed', 'cancelled', 'rejected'];
+const RECORD_FOLDERS: GcCategory[] = ['status', 'completed', 'dead-letter', 'commands'];
+
+export async function collectGarbage(options: { dryRun?: boolean; now?: Date } = {}): Promise<GcReport> {
+  const dryRun = options.dryRun ?? false;
+  const { policies } = await getConfig();
+  const cutoff = new Date((options.now || new Date()).getTime() - policies.retentionDays * 24 * 60 * 60 * 1000);
+  const report: GcReport = { dryRun, retentionDays: policies.retentionDays, cutoff: cutoff.toISOString(), items: [], skippedDestinations: [] };
+
+  for (const destination of await getDestinations()) {
+    if (!destination.readable || !destination.configured) {
+      report.skippedDestinations.push(destination.name);
+      continue;
+    }
+
+    const found = [
+      ...(await expiredJobs(destination, cutoff)),
+      ...(await expiredRecords(destination, cutoff)),
+      ...(await expiredArchives(destination, cutoff)),
+      ...(await expiredPackages(destination, cutoff)),
+    ];
+    for (const item of found) {
+      if (!dryRun) {
+        item.deleted = await destination.delete(item.path);
+        if (!item.deleted) item.error = 'Delete failed';
+      }
+      report.items.push(item);
+    }
+
+    report.items.push(...(await pruneSignals(destination, cutoff, dryRun)));
+    report.items.push(...(await pruneBackups(destination, cutoff, dryRun)));
+  }
+
+  if (!dryRun && report.items.length > 0) {
+    await logAudit({
+      level: 'admin',
+      category: 'retention',
+      action: 'GARBAGE_COLLECTED',
+      actor: 'system',
+      details: {
+        retentionDays: policies.retentionDays,
+        deleted: report.items.filter(i => i.deleted).length,
+        failed: report.items.filter(i => i.error).length,
+      },
+      result: report.items.some(i => i.error) ? 'failure' : 'success',
+    });
+  }
+
+  return report;
+}
+
+async function expiredJobs(destination: StorageDestination, cutoff: Date): Promise<GcItem[]> {
+  const items: GcItem[] = [];
+  for (const entry of await destination.list('/DiscBurn/jobs')) {
+    if (!entry.folder) continue;
+
+    let manifest: BurnManifest | null = null;
+    try {
+      const content = await destination.read(`jobs/${entry.name}/manifest.json`);
+      manifest = content ? JSON.parse(content) : null;
+    } catch {}
+
+    const state = manifest?.lifecycle.currentState;
+    if (state && !FINISHED.includes(state)) continue;
+
+    const lastModified = manifest?.job.updated || entry.lastModifiedDateTime;
+    if (isExpired(lastModified, cutoff)) {
+      items.push({
+        destination: destination.name,
+        category: 'jobs',
+        path: `jobs/${entry.name}`,
+        lastModified,
+        detail: state || 'no readable manifest',
+      });
+    }
+  }
+  return items;
+}
+
+async function expiredRecords(destination: StorageDestination, cutoff: Date): Promise<GcItem[]> {
+  const items: GcItem[] = [];
+  for (const category of RECORD_FOLDERS) {
+    for (const entry of await destination.list(`/DiscBurn/${category}`)) {
+      if (entry.folder || !isExpired(entry.lastModifiedDateTime, cutoff)) continue;
+      items.push({ destination: destination.name, category, path: `${category}/${entry.name}`, lastModified: entry.lastModifiedDateTime });
+    }
+  }
+  return items;
+}
+
+// Archive folders are named by date, so the name decides
+async function expiredArchives(destination: StorageDestination, cutoff: Date): Promise<GcItem[]> {
+  const cutoffDate = cutoff.toISOString().split('T')[0];
+  return (await destination.list('/DiscBurn/archive'))
+    .filter(entry => entry.folder && /^\d{4}-\d{2}-\d{2}$/.test(entry.name) && entry.name < cutoffDate)
+    .map(entry => ({
+      destination: destination.name,
+      category: 'archive' as const,
+      path: `archive/${entry.name}`,
+      lastModified: entry.lastModifiedDateTime,
+      detail: `${entry.folder.childCount ?? '?'} records`,
+    }));
+}
+
+// Packages hold full disc images; their index records when they were built
+async function expiredPackages(destination: StorageDestination, cutoff: Date): Promise<GcItem[]> {
+  const items: GcItem[] = [];
+  for (const entry of await destination.list('/DiscBurn/burn-ready')) {
+    if (!entry.folder) continue;
+
+    let created: string | undefined;
+    try {
+      const content = await destination.read(`burn-ready/${entry.name}/BURN_PACKAGE.json`);
+      created = content ? JSON.parse(content).created : undefined;
+    } catch {}
+
+    const lastModified = created || entry.lastModifiedDateTime;
+    if (isExpired(lastModified, cutoff)) {
+      items.push({
+        destination: destination.name,
+        category: 'burn-ready',
+        path: `burn-ready/${entry.name}`,
+        lastModified,
+        detail: `${entry.folder.childCount ?? '?'} files`,
+      });
+    }
+  }
+  return items;
+}
+
+// Snapshots first, then the objects only deleted snapshots referenced. An object is
+// kept while any snapshot that could not be read or deleted might still need it
+async function pruneBackups(destination: StorageDestination, cutoff: Date, dryRun: boolean): Promise<GcItem[]> {
+  const items: GcItem[] = [];
+  const snapshots = (await destination.list('/DiscBurn/snapshots'))
+    .filter(entry => !entry.folder && entry.name.endsWith('.json'))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const kept: SnapshotIndex[] = [];
+  let unreadable = false;
+  for (const [i, entry] of snapshots.entries()) {
+    let snapshot: SnapshotIndex | null = null;
+    try {
+      const content = await destination.read(`snapshots/${entry.name}`);
+      snapshot = content ? JSON.parse(content) : null;
+    } catch {}
+
+    const lastModified = snapshot?.created || entry.lastModifiedDateTime;
+    const newest = i === snapshots.length - 1;
+    if (newest || !snapshot || !isExpired(lastModified, cutoff)) {
+      if (snapshot) kept.push(snapshot);
+      else unreadable = true;
+      continue;
+    }
+
+    const item: GcItem = {
+      destination: destination.name,
+      category: 'snapshots',
+      path: `snapshots/${entry.name}`,
+      lastModified,
+      detail: `${snapshot.totalFiles} files`,
+    };
+    if (!dryRun) {
+      item.deleted = await destination.delete(item.path);
+      if (!item.deleted) {
+        item.error = 'Delete failed';
+        kept.push(snapshot);
+      }
+    }
+    items.push(item);
+  }
+  if (unreadable) {
+    return items;
+  }
+
+  const referenced = new Set(kept.flatMap(snapshot => snapshot.files.map(f => f.object ?? objectPath(f.checksum))));
+  for (const prefix of await destination.list('/DiscBurn/objects')) {
+    if (!prefix.folder) continue;
+    for (const entry of await destination.list(`/DiscBurn/objects/${prefix.name}`)) {
+      const item: GcItem = {
+        destination: destination.name,
+        category: 'objects',
+        path: `objects/${prefix.name}/${entry.name}`,
+        lastModified: entry.lastModifiedDateTime,
+        detail: `${entry.size ?? '?'} bytes`,
+      };
+      if (entry.folder || referenced.has(item.path) || !isExpired(item.lastModified, cutoff)) continue;
+      if (!dryRun) {
+        item.deleted = await destination.delete(item.path);
+        if (!item.deleted) item.error = 'Delete failed';
+      }
+      items.push(item);
+    }
+  }
+  return items;
+}
+
+// Signal files are rolling queues: old entries are dropped, the file goes once it is empty
+async function pruneSignals(destination: StorageDestination, cutoff: Date, dryRun: boolean): Promise<GcItem[]> {
+  const items: GcItem[] = [];
+  for (const entry of await destination.list('/DiscBurn/signals')) {
+    if (entry.folder || !entry.name.endsWith('.json')) continue;
+    const filePath = `signals/${entry.name}`;
+
+    let data: { queue?: { timestamp: number }[]; lastUpdate?: number } | null = null;
+    try {
+      const content = await destination.read(filePath);
+      data = content ? JSON.parse(content) : null;
+    } catch {}
+    if (!data?.queue) continue;
+
+    const kept = data.queue.filter(s => s.timestamp >= cutoff.getTime());
+    const dropped = data.queue.length - kept.length;
+    if (dropped === 0) continue;
+
+    const item: GcItem = {
+      destination: destination.name,
+      category: 'signals',
+      path: filePath,
+      lastModified: entry.lastModifiedDateTime,
+      detail: kept.length === 0 ? `all ${dropped} signals` : `${dropped} of ${data.queue.length} signals`,
+    };
+    if (!dryRun) {
+      try {
+        if (kept.length === 0) {
+          item.deleted = await destination.delete(filePath);
+        } else {
+          await destination.upload(filePath, JSON.stringify({ ...data, queue: kept }, null, 2));
+          item.deleted = true;
+        }
+        if (!item.deleted) item.error = 'Delete failed';
+      } catch (error: any) {
+        item.error = error.message;
+      }
+    }
+    items.push(item);
+  }
+  return items;
+}
+
+function isExpired(timestamp: string | undefined, cutoff: Date): boolean {
+  return !!timestamp && Date.parse(timestamp) < cutoff.getTime();
+}
+
+export function formatGcReport(report: GcReport): string {
+  const byCategory = new Map<GcCategory, number>();
+  for (const item of report.items) {
+    byCategory.set(item.category, (byCategory.get(item.category) || 0) + 1);
+  }
+
+  const verb = report.dryRun ? 'Would delete' : 'Deleted';
+  const lines = report.items.slice(0, 25).map(item => {
+    const outcome = item.error ? ` FAILED: ${item.error}` : '';
+    return `  [${item.destination}] ${item.path}${item.detail ? ` (${item.detail})` : ''}${outcome}`;
+  });
+  const more = report.items.length > 25 ? `\n  ... and ${report.items.length - 25} more` : '';
+
+  return `
+GARBAGE COLLECTION${report.dryRun ? ' (DRY RUN)' : ''}
+==================${report.dryRun ? '==========' : ''}
+Retention: ${report.retentionDays} days (older than ${report.cutoff.split('T')[0]})
+${verb}: ${report.items.filter(i => !i.error).length} items
+${[...byCategory].map(([category, count]) => `  ${category}: ${count}`).join('\n') || '  (nothing expired)'}
+${lines.length > 0 ? `\n${lines.join('\n')}${more}\n` : ''}${report.skippedDestinations.length > 0 ? `\nSkipped (not readable): ${report.skippedDestinations.join(', ')}\n` : ''}${report.dryRun ? "\nRun 'admin gc' to delete.\n" : ''}`;
+}
@@ -0,0 +1,209 @@
+/**
+ * Retry Policy
+ * Decides what happens after a failed burn attempt: another attempt after an
+ * exponential backoff with jitter, or the dead-letter area
+ *
+ *   dead-letter/<jobId>.json   jobs that failed permanently or ran out of retries
+ *
+ * Jobs held because auto-retry is off, and dead-lettered ones, go back in the
+ * queue only through retryJob (the retry command).
+ */
+
+import { uploadFile, listFiles, readFile, deleteFile } from './storage';
+import { BurnManifest, JobError } from './manifest';
+import { getConfig, logAudit } from './admin';
+import { saveJobManifest, loadJobManifest, advanceJob, failJob } from './job-lifecycle';
+import { getJobQueue, jobFromManifest } from './job-queue';
+import { ApprovalResult, getOperatorId } from './approval';
+
+export type ErrorKind = JobError['kind'];
+
+export interface RetryPolicy {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  jitter: number;
+}
+
+export type RetryDecision =
+  | { action: 'retry'; kind: ErrorKind; retry: number; delayMs: number; retryAt: string }
+  | { action: 'hold'; kind: ErrorKind; reason: string }
+  | { action: 'dead_letter'; kind: ErrorKind; reason: string };
+
+export interface DeadLetterRecord {
+  jobId: string;
+  deadLetteredAt: string;
+  reason: string;
+  retryCount: number;
+  maxRetries: number;
+  errors: JobError[];
+  manifest: string;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  baseDelayMs: 30 * 1000,
+  maxDelayMs: 30 * 60 * 1000,
+  multiplier: 2,
+  jitter: 0.2,
+};
+
+// Failures no retry can fix are marked on the error itself: { permanent: true } from our
+// own checks, a system error code, or an HTTP status from a storage backend. Anything
+// else (drive hiccups, bad blanks, storage outages) is retried; messages are never parsed
+const PERMANENT_CODES = new Set(['ENOENT', 'EACCES', 'EPERM', 'EISDIR', 'ENOTDIR', 'ENOSIGNALSECRET']);
+const PERMANENT_STATUSES = new Set([400, 401, 403, 404]);
+
+export function classifyError(error: unknown): ErrorKind {
+  const { permanent, code, statusCode, status } = (error ?? {}) as { permanent?: unknown; code?: unknown; statusCode?: unknown; status?: unknown };
+  if (permanent === true) {
+    return 'permanent';
+  }
+  if (typeof code === 'string' && PERMANENT_CODES.has(code)) {
+    return 'permanent';
+  }
+  const httpStatus = typeof statusCode === 'number' ? statusCode : status;
+  return typeof httpStatus === 'number' && PERMANENT_STATUSES.has(httpStatus) ? 'permanent' : 'transient';
+}
+
+// Delay before the given retry (1-based), spread by +/- jitter so executors do not retry in lockstep
+export function backoffDelay(retry: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY, random: () => number = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * policy.multiplier ** (retry - 1));
+  const spread = exponential * policy.jitter;
+  return Math.round(exponential - spread + random() * 2 * spread);
+}
+
+export function decideRetry(
+  manifest: BurnManifest,
+  kind: ErrorKind,
+  autoRetry: boolean,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): RetryDecision {
+  const { retryCount, maxRetries } = manifest.lifecycle;
+
+  if (kind === 'permanent') {
+    return { action: 'dead_letter', kind, reason: 'Permanent error' };
+  }
+  if (retryCount >= maxRetries) {
+    return { action: 'dead_letter', kind, reason: `Retries exhausted (${retryCount}/${maxRetries})` };
+  }
+  if (!autoRetry) {
+    return { action: 'hold', kind, reason: 'Auto-retry disabled' };
+  }
+
+  const retry = retryCount + 1;
+  const delayMs = backoffDelay(retry, policy);
+  return { action: 'retry', kind, retry, delayMs, retryAt: new Date(Date.now() + delayMs).toISOString() };
+}
+
+// Records the failed attempt on the manifest and schedules a retry or dead-letters the job
+export async function handleJobFailure(
+  jobId: string,
+  manifest: BurnManifest | null,
+  error: unknown,
+  actor: string,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<RetryDecision> {
+  const message = error instanceof Error ? error.message : String(error);
+  const kind = classifyError(error);
+
+  if (!manifest) {
+    const decision: RetryDecision = { action: 'dead_letter', kind: 'permanent', reason: 'Permanent error' };
+    await deadLetter(jobId, null, decision.reason, [{ attempt: 1, timestamp: new Date().toISOString(), actor, message, kind: 'permanent' }]);
+    return decision;
+  }
+
+  const errors = (manifest.lifecycle.errors ||= []);
+  errors.push({ attempt: manifest.lifecycle.retryCount + 1, timestamp: new Date().toISOString(), actor, message, kind });
+  await failJob(manifest, actor, message);
+
+  const config = await getConfig();
+  const decision = decideRetry(manifest, kind, config.features.autoRetry, policy);
+
+  switch (decision.action) {
+    case 'retry':
+      manifest.lifecycle.retryCount = decision.retry;
+      await advanceJob(
+        manifest,
+        'pending',
+        actor,
+        `Retry ${decision.retry}/${manifest.lifecycle.maxRetries} in ${Math.round(decision.delayMs / 1000)}s after ${kind} error`
+      );
+      break;
+    case 'dead_letter':
+      await deadLetter(jobId, manifest, decision.reason, errors);
+      break;
+    case 'hold':
+      await saveJobManifest(manifest);
+      break;
+  }
+
+  return decision;
+}
+
+async function deadLetter(jobId: string, manifest: BurnManifest | null, reason: string, errors: JobError[]): Promise<void> {
+  const now = new Date().toISOString();
+  const record: DeadLetterRecord = {
+    jobId,
+    deadLetteredAt: now,
+    reason,
+    retryCount: manifest?.lifecycle.retryCount ?? 0,
+    maxRetries: manifest?.lifecycle.maxRetries ?? 0,
+    errors,
+    manifest: `jobs/${jobId}/manifest.json`,
+  };
+
+  if (manifest) {
+    manifest.admin.auditLog.push({ timestamp: now, action: 'DEAD_LETTERED', actor: 'system', details: { reason } });
+    await saveJobManifest(manifest);
+  }
+  await uploadFile(`dead-letter/${jobId}.json`, JSON.stringify(record, null, 2));
+
+  await logAudit({
+    level: 'error',
+    category: 'job',
+    action: 'DEAD_LETTER',
+    actor: 'system',
+    target: jobId,
+    details: { reason, lastError: errors[errors.length - 1]?.message },
+    result: 'failure',
+  });
+}
+
+export async function listDeadLetters(): Promise<DeadLetterRecord[]> {
+  const records: DeadLetterRecord[] = [];
+  for (const file of await listFiles('/DiscBurn/dead-letter')) {
+    if (!file.name?.endsWith('.json')) continue;
+    try {
+      const content = await readFile(`dead-letter/${file.name}`);
+      if (content) records.push(JSON.parse(content));
+    } catch {}
+  }
+  return records;
+}
+
+// Puts a failed job back in the queue for one more attempt and drops its dead-letter record
+export async function retryJob(jobId: string, actor: string = getOperatorId()): Promise<ApprovalResult> {
+  const manifest = await loadJobManifest(jobId);
+  if (!manifest) {
+    return { success: false, message: `Job not found: ${jobId}` };
+  }
+  if (manifest.lifecycle.currentState !== 'failed') {
+    return { success: false, message: `Job ${jobId} is ${manifest.lifecycle.currentState}, only failed jobs can be retried`, manifest };
+  }
+
+  await advanceJob(manifest, 'pending', actor, `Retry requested by ${actor}`);
+  await (await getJobQueue()).requeue(jobFromManifest(manifest));
+  await deleteFile(`dead-letter/${jobId}.json`);
+
+  await logAudit({
+    level: 'admin',
+    category: 'job',
+    action: 'JOB_RETRIED',
+    actor,
+    target: jobId,
+    details: { retryCount: manifest.lifecycle.retryCount, maxRetries: manifest.lifecycle.maxRetries },
+    result: 'success',
+  });
+
+  return { success: true, message: `Job ${jobId} queued again by ${actor}`, manifest };
+}
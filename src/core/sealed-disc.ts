@@ -0,0 +1,186 @@
+/**
+ * Encrypted Discs
+ * Disc images whose contents are sealed, for discs that leave the building
+ *
+ *   DISCBURN_IMAGE.sealed    the ordinary disc image, sealed (see encryption.ts)
+ *   decrypt-disc.js          offline decryption tool, needs only Node.js
+ *   DECRYPT.txt              instructions and the key fingerprint
+ *
+ * Discs use the configured encryption key whether or not encryption.enabled
+ * is on. The key ID is recorded in the burn manifest and BURN_PACKAGE.json,
+ * so a restore can name the key it needs before reading any image.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { sealFile, openFile, describeEncryptionKey, ENCRYPTION_ALGORITHM, PASSPHRASE_ENV } from './encryption';
+import { DiscEncryption } from './manifest';
+import { ImageEntry } from './disc-image';
+import { readImageFiles, extractImageFile } from './image-reader';
+
+export const SEALED_IMAGE_NAME = 'DISCBURN_IMAGE.sealed';
+export const DECRYPT_TOOL_NAME = 'decrypt-disc.js';
+export const DECRYPT_README_NAME = 'DECRYPT.txt';
+
+// The key an encrypted disc would be sealed with; throws when none is configured
+export async function discEncryptionKey(): Promise<DiscEncryption> {
+  const key = await describeEncryptionKey();
+  if (!key) {
+    throw new Error(`Encrypted discs need a key: set ${PASSPHRASE_ENV} or encryption.keyfile`);
+  }
+  return { algorithm: ENCRYPTION_ALGORITHM, keyId: key.keyId, keySalt: key.keySalt };
+}
+
+// Seals a finished disc image into sealedPath and returns the entries of the disc
+// that carries it. Nothing is held in memory: the disc is written from sealedPath.
+export async function sealDiscImage(imagePath: string, sealedPath: string, label: string, encryption: DiscEncryption): Promise<ImageEntry[]> {
+  const sealed = await sealFile(imagePath, sealedPath, { force: true });
+  if (sealed?.keyId !== encryption.keyId) {
+    await fs.rm(sealedPath, { force: true });
+    throw new Error(`This disc set was planned for key ${encryption.keyId}, but the configured key is ${sealed?.keyId}`);
+  }
+
+  const mtime = new Date();
+  const tool = Buffer.from(createDecryptTool(), 'utf-8');
+  const instructions = Buffer.from(createDecryptInstructions(encryption, label), 'utf-8');
+  return [
+    { path: SEALED_IMAGE_NAME, size: (await fs.stat(sealedPath)).size, mtime, sourcePath: sealedPath },
+    { path: DECRYPT_TOOL_NAME, size: tool.length, mtime, data: tool },
+    { path: DECRYPT_README_NAME, size: instructions.length, mtime, data: instructions },
+  ];
+}
+
+// Writes the decrypted inner image when the source (an image or a mounted disc) is
+// an encrypted disc; returns false for an ordinary disc
+export async function unsealDiscImage(source: string, outputPath: string): Promise<boolean> {
+  if ((await fs.stat(source)).isDirectory()) {
+    const sealedPath = path.join(source, SEALED_IMAGE_NAME);
+    if (!(await fs.stat(sealedPath).catch(() => null))) return false;
+    return openSealedImage(sealedPath, outputPath);
+  }
+
+  const file = (await readImageFiles(source)).files.find(f => f.path === SEALED_IMAGE_NAME);
+  if (!file) return false;
+  const sealedPath = `${outputPath}.sealed`;
+  try {
+    await extractImageFile(source, file, sealedPath);
+    return await openSealedImage(sealedPath, outputPath);
+  } finally {
+    await fs.rm(sealedPath, { force: true });
+  }
+}
+
+async function openSealedImage(sealedPath: string, outputPath: string): Promise<boolean> {
+  if (!(await openFile(sealedPath, outputPath))) {
+    throw new Error(`${SEALED_IMAGE_NAME} on this disc is not a sealed image`);
+  }
+  return true;
+}
+
+export function createDecryptInstructions(encryption: DiscEncryption, label: string): string {
+  return `
+=== DECRYPTING THIS DISC ===
+The files on this disc are encrypted (${encryption.algorithm}). The disc holds:
+  ${SEALED_IMAGE_NAME}   the encrypted disc image
+  ${DECRYPT_TOOL_NAME}         decryption tool (needs Node.js 12 or later)
+  ${DECRYPT_README_NAME}              these instructions
+
+Key required: ${encryption.keyId}
+(the key ID DiscBurn showed under 'status' when this disc was made; key IDs
+ are salted per install, so another install shows the same key differently)
+
+1. Copy ${SEALED_IMAGE_NAME} and ${DECRYPT_TOOL_NAME} to a folder on your computer
+2. Run: node ${DECRYPT_TOOL_NAME} ${SEALED_IMAGE_NAME} ${label}.iso
+   The passphrase is taken from ${PASSPHRASE_ENV}, or asked for.
+   For a keyfile add: --keyfile <file>
+3. Open ${label}.iso
+   Windows/Mac: double-click it
+   Linux: sudo mount -o loop ${label}.iso /mnt
+
+A wrong key is refused before anything is written. If the image was
+damaged or altered, decryption stops and no output is kept.
+`;
+}
+
+// Self-contained: Node.js built-ins only, same envelope and key derivation as encryption.ts
+export function createDecryptTool(): string {
+  return `#!/usr/bin/env node
+// DiscBurn offline decryption tool
+//   node ${DECRYPT_TOOL_NAME} <sealed image> <output.iso> [--keyfile <file>]
+// Without --keyfile the passphrase comes from ${PASSPHRASE_ENV} or is asked for.
+'use strict';
+const fs = require('fs');
+const crypto = require('crypto');
+const readline = require('readline');
+
+const MAGIC = Buffer.from('DISCBURN-SEALED-1\\n');
+
+function fail(message) {
+  console.error('decrypt-disc: ' + message);
+  process.exit(1);
+}
+
+function readHeader(file) {
+  const fd = fs.openSync(file, 'r');
+  try {
+    const start = Buffer.alloc(MAGIC.length + 4);
+    fs.readSync(fd, start, 0, start.length, 0);
+    if (!start.slice(0, MAGIC.length).equals(MAGIC)) fail(file + ' is not a DiscBurn sealed image');
+    const header = Buffer.alloc(start.readUInt32BE(MAGIC.length));
+    fs.readSync(fd, header, 0, header.length, start.length);
+    return { header: JSON.parse(header.toString('utf-8')), bodyStart: start.length + header.length };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function askPassphrase() {
+  return new Promise(resolve => {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+    rl.question('Passphrase: ', answer => {
+      rl.close();
+      resolve(answer);
+    });
+  });
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const keyfileAt = args.indexOf('--keyfile');
+  const keyfile = keyfileAt >= 0 ? args.splice(keyfileAt, 2)[1] : null;
+  const [input, output] = args;
+  if (!input || !output) fail('usage: node ${DECRYPT_TOOL_NAME} <sealed image> <output.iso> [--keyfile <file>]');
+
+  const { header, bodyStart } = readHeader(input);
+  const passphrase = keyfile ? null : process.env.${PASSPHRASE_ENV} || await askPassphrase();
+  if (!keyfile && !passphrase) fail('no passphrase given');
+  const material = keyfile ? fs.readFileSync(keyfile) : Buffer.from(passphrase, 'utf-8');
+
+  // The key ID is derived with the salt the header records; older discs have none
+  if (header.keySalt) {
+    const keyId = crypto.createHmac('sha256', crypto.scryptSync(material, Buffer.from(header.keySalt, 'base64'), 32)).update('discburn-key-id').digest('hex').slice(0, 16);
+    if (keyId !== header.keyId) fail('wrong key: this disc needs key ' + header.keyId + ', the key given is ' + keyId);
+  }
+
+  const key = crypto.scryptSync(material, Buffer.from(header.salt, 'base64'), 32);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(header.nonce, 'base64'));
+  decipher.setAuthTag(Buffer.from(header.tag, 'base64'));
+
+  // Written under a temporary name until the authentication tag checks out
+  const partial = output + '.partial';
+  fs.createReadStream(input, { start: bodyStart })
+    .pipe(decipher)
+    .on('error', () => {
+      try { fs.unlinkSync(partial); } catch (error) {}
+      fail('decryption failed: the image is damaged or was altered');
+    })
+    .pipe(fs.createWriteStream(partial))
+    .on('finish', () => {
+      fs.renameSync(partial, output);
+      console.log('Decrypted to ' + output);
+    });
+}
+
+main().catch(error => fail(error.message));
+`;
+}
@@ -0,0 +1,218 @@
+/**
+ * Snapshot Diff
+ * Compares two file sets: backup snapshots, burn jobs, burn packages or the
+ * live workspace
+ *
+ *   backup-<ts> | latest      snapshots/<id>.json (latest = newest snapshot)
+ *   burn-<ts>                 jobs/<id>/manifest.json, included files only
+ *   disc-<ts>                 burn-ready/<id>/BURN_PACKAGE.json
+ *   workspace                 the files a backup would take now
+ *
+ * Content is compared by SHA-256. Workspace files are hashed only when their
+ * size or mtime differs from the other side's record.
+ */
+
+import * as path from 'path';
+import { readFile } from './storage';
+import { sha256File } from './checksum';
+import { listSnapshots, loadSnapshot } from './snapshots';
+import { loadJobManifest } from './job-lifecycle';
+import { scanWorkspaceFiles } from './workspace';
+
+export type DiffSideKind = 'snapshot' | 'job' | 'package' | 'workspace';
+
+export interface DiffFile {
+  size: number;
+  checksum?: string;
+  mtime?: string;
+}
+
+export interface DiffSide {
+  id: string;
+  kind: DiffSideKind;
+  created: string;
+  files: Map<string, DiffFile>;
+}
+
+export interface FileChange {
+  path: string;
+  change: 'added' | 'removed' | 'modified';
+  sizeBefore: number;
+  sizeAfter: number;
+  sizeDelta: number;
+}
+
+export interface SnapshotDiff {
+  from: { id: string; kind: DiffSideKind; created: string; totalFiles: number; totalSize: number };
+  to: { id: string; kind: DiffSideKind; created: string; totalFiles: number; totalSize: number };
+  added: FileChange[];
+  removed: FileChange[];
+  modified: FileChange[];
+  unchanged: number;
+  sizeDelta: number;
+}
+
+export const WORKSPACE_REF = 'workspace';
+
+export async function loadDiffSide(ref: string, reference?: DiffSide): Promise<DiffSide | null> {
+  if (ref === WORKSPACE_REF) {
+    return loadWorkspaceSide(reference);
+  }
+
+  const snapshotId = ref === 'latest' ? (await listSnapshots()).pop() : ref;
+  const snapshot = snapshotId ? await loadSnapshot(snapshotId) : null;
+  if (snapshot) {
+    return {
+      id: snapshot.id,
+      kind: 'snapshot',
+      created: snapshot.created,
+      files: new Map(snapshot.files.map(f => [f.path, { size: f.size, checksum: f.checksum, mtime: f.mtime }])),
+    };
+  }
+
+  const manifest = await loadJobManifest(ref);
+  if (manifest) {
+    return {
+      id: manifest.job.id,
+      kind: 'job',
+      created: manifest.job.created,
+      files: new Map(manifest.payload.files.filter(f => f.include).map(f => [f.path, { size: f.size || 0, checksum: f.checksum }])),
+    };
+  }
+
+  try {
+    const content = await readFile(`burn-ready/${ref}/BURN_PACKAGE.json`);
+    if (content) {
+      const burnPackage = JSON.parse(content);
+      return {
+        id: burnPackage.id,
+        kind: 'package',
+        created: burnPackage.created,
+        files: new Map((burnPackage.files as { path: string; size: number; checksum: string }[]).map(f => [f.path, { size: f.size, checksum: f.checksum }])),
+      };
+    }
+  } catch {}
+
+  return null;
+}
+
+// Unchanged size and mtime reuse the reference digest, as incremental backups do
+async function loadWorkspaceSide(reference?: DiffSide): Promise<DiffSide> {
+  const files = new Map<string, DiffFile>();
+  for (const entry of await scanWorkspaceFiles()) {
+    const known = reference?.files.get(entry.path);
+    let checksum: string | undefined;
+    if (known?.checksum && known.size === entry.size && known.mtime === entry.mtime) {
+      checksum = known.checksum;
+    } else if (known) {
+      checksum = await sha256File(path.join(process.cwd(), entry.path)).catch(() => undefined);
+    }
+    files.set(entry.path, { size: entry.size, checksum, mtime: entry.mtime });
+  }
+  return { id: WORKSPACE_REF, kind: 'workspace', created: new Date().toISOString(), files };
+}
+
+export function diffSides(from: DiffSide, to: DiffSide): SnapshotDiff {
+  const change = (filePath: string, kind: FileChange['change'], before?: DiffFile, after?: DiffFile): FileChange => ({
+    path: filePath,
+    change: kind,
+    sizeBefore: before?.size || 0,
+    sizeAfter: after?.size || 0,
+    sizeDelta: (after?.size || 0) - (before?.size || 0),
+  });
+
+  const added: FileChange[] = [];
+  const removed: FileChange[] = [];
+  const modified: FileChange[] = [];
+  let unchanged = 0;
+
+  for (const [filePath, before] of from.files) {
+    const after = to.files.get(filePath);
+    if (!after) {
+      removed.push(change(filePath, 'removed', before));
+    } else if (isModified(before, after)) {
+      modified.push(change(filePath, 'modified', before, after));
+    } else {
+      unchanged++;
+    }
+  }
+  for (const [filePath, after] of to.files) {
+    if (!from.files.has(filePath)) {
+      added.push(change(filePath, 'added', undefined, after));
+    }
+  }
+
+  const byPath = (a: FileChange, b: FileChange) => a.path.localeCompare(b.path);
+  const summary = (side: DiffSide) => ({
+    id: side.id,
+    kind: side.kind,
+    created: side.created,
+    totalFiles: side.files.size,
+    totalSize: [...side.files.values()].reduce((sum, f) => sum + f.size, 0),
+  });
+  const fromSummary = summary(from);
+  const toSummary = summary(to);
+
+  return {
+    from: fromSummary,
+    to: toSummary,
+    added: added.sort(byPath),
+    removed: removed.sort(byPath),
+    modified: modified.sort(byPath),
+    unchanged,
+    sizeDelta: toSummary.totalSize - fromSummary.totalSize,
+  };
+}
+
+// Digests decide when both sides have one; otherwise only the size can tell
+function isModified(before: DiffFile, after: DiffFile): boolean {
+  if (before.checksum && after.checksum) {
+    return before.checksum !== after.checksum;
+  }
+  return before.size !== after.size;
+}
+
+// Returns an error message when either side cannot be found
+export async function diffSnapshots(fromRef: string, toRef: string = WORKSPACE_REF): Promise<SnapshotDiff | string> {
+  // The recorded side loads first so the workspace side can reuse its digests
+  const workspaceFirst = fromRef === WORKSPACE_REF && toRef !== WORKSPACE_REF;
+  const first = await loadDiffSide(workspaceFirst ? toRef : fromRef);
+  if (!first) {
+    return `No snapshot, burn job or package named ${workspaceFirst ? toRef : fromRef}`;
+  }
+  const second = await loadDiffSide(workspaceFirst ? fromRef : toRef, first);
+  if (!second) {
+    return `No snapshot, burn job or package named ${toRef}`;
+  }
+  return workspaceFirst ? diffSides(second, first) : diffSides(first, second);
+}
+
+function formatBytes(bytes: number, signed: boolean = false): string {
+  const sign = signed && bytes > 0 ? '+' : bytes < 0 ? '-' : '';
+  const abs = Math.abs(bytes);
+  const value = abs >= 1024 * 1024 ? `${(abs / 1024 / 1024).toFixed(2)} MB` : abs >= 1024 ? `${(abs / 1024).toFixed(1)} KB` : `${abs} B`;
+  return sign + value;
+}
+
+export function formatDiff(diff: SnapshotDiff, limit: number = 20): string {
+  const section = (title: string, marker: string, changes: FileChange[]) => {
+    if (changes.length === 0) return '';
+    const lines = changes.slice(0, limit).map(c =>
+      `  ${marker} ${c.path} (${c.change === 'modified' ? `${formatBytes(c.sizeBefore)} -> ${formatBytes(c.sizeAfter)}, ${formatBytes(c.sizeDelta, true)}` : formatBytes(c.change === 'added' ? c.sizeAfter : c.sizeBefore)})`
+    );
+    const more = changes.length > limit ? `\n  ... and ${changes.length - limit} more` : '';
+    return `\n${title} (${changes.length})\n${lines.join('\n')}${more}\n`;
+  };
+  const describe = (side: SnapshotDiff['from']) =>
+    `${side.id} (${side.kind}, ${side.kind === 'workspace' ? 'now' : side.created.replace('T', ' ').slice(0, 19)}) - ${side.totalFiles} files, ${formatBytes(side.totalSize)}`;
+
+  return `
+SNAPSHOT DIFF
+=============
+From: ${describe(diff.from)}
+To:   ${describe(diff.to)}
+
+Added: ${diff.added.length}  Removed: ${diff.removed.length}  Modified: ${diff.modified.length}  Unchanged: ${diff.unchanged}
+Size change: ${formatBytes(diff.sizeDelta, true)}
+${section('ADDED', '+', diff.added)}${section('REMOVED', '-', diff.removed)}${section('MODIFIED', '~', diff.modified)}`;
+}
@@ -0,0 +1,166 @@
+/**
+ * Backup Snapshots
+ * Incremental, content-addressed backups of the workspace
+ *
+ *   objects/<aa>/<name>       file content, stored once per distinct digest
+ *   snapshots/<id>.json       one index per backup run, path -> digest
+ *
+ * A file whose size and mtime match the previous snapshot keeps its digest
+ * without being read again. Content is uploaded only when its digest is not
+ * in the previous snapshot, and the index is written last, so every stored
+ * snapshot references objects that exist. Objects are named by their
+ * digest, or with encryption on by a keyed HMAC of it, so a listing does not
+ * tell which content is backed up; each file records its object and, with
+ * encryption on, the key ID and nonce the object was sealed with.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { listFiles, readFile, writeToDestinations, FanOutResult } from './storage';
+import { sha256, CHECKSUM_PREFIX, merkleRoot } from './checksum';
+import { WorkspaceEntry } from './workspace';
+import { SkippedFile } from './iso-generator';
+import { ObjectEncryption, objectNamer } from './encryption';
+import { createProgressTracker } from './progress';
+
+export const SNAPSHOT_SCHEMA = 'discburn-snapshot-v1';
+
+export interface SnapshotFile {
+  path: string;
+  size: number;
+  mtime: string;
+  checksum: string;
+  // Absent in snapshots written before objects were recorded: objectPath(checksum)
+  object?: string;
+  encryption?: ObjectEncryption;
+}
+
+export interface SnapshotIndex {
+  schema: typeof SNAPSHOT_SCHEMA;
+  id: string;
+  created: string;
+  target: string;
+  parent?: string;
+  workspace: string;
+  totalFiles: number;
+  totalSize: number;
+  checksum: string;
+  files: SnapshotFile[];
+  skipped: SkippedFile[];
+  stats: {
+    uploadedObjects: number;
+    uploadedBytes: number;
+    reusedFiles: number;
+    rehashedFiles: number;
+  };
+}
+
+export interface SnapshotResult {
+  success: boolean;
+  snapshot?: SnapshotIndex;
+  fanOut?: FanOutResult;
+  error?: string;
+}
+
+export function objectPath(checksum: string, nameObject?: ((digest: string) => string) | null): string {
+  const hex = checksum.startsWith(CHECKSUM_PREFIX) ? checksum.slice(CHECKSUM_PREFIX.length) : checksum;
+  const name = nameObject ? nameObject(hex) : hex;
+  return `objects/${name.slice(0, 2)}/${name}`;
+}
+
+// Oldest first; snapshot IDs carry their timestamp
+export async function listSnapshots(): Promise<string[]> {
+  return (await listFiles('/DiscBurn/snapshots'))
+    .filter(f => !f.folder && f.name?.endsWith('.json'))
+    .map(f => f.name.replace(/\.json$/, ''))
+    .sort();
+}
+
+export async function loadSnapshot(id: string): Promise<SnapshotIndex | null> {
+  try {
+    const content = await readFile(`snapshots/${id}.json`);
+    return content ? JSON.parse(content) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function createSnapshot(
+  entries: WorkspaceEntry[],
+  options: { id: string; target?: string; root?: string }
+): Promise<SnapshotResult> {
+  const root = options.root || process.cwd();
+  const ids = await listSnapshots();
+  const parent = ids.length > 0 ? await loadSnapshot(ids[ids.length - 1]) : null;
+
+  const previous = new Map((parent?.files || []).map(f => [f.path, f]));
+  const stored = new Map((parent?.files || []).map(f => [f.checksum, { object: f.object ?? objectPath(f.checksum), encryption: f.encryption }]));
+  const nameObject = await objectNamer();
+  const files: SnapshotFile[] = [];
+  const skipped: SkippedFile[] = [];
+  const stats = { uploadedObjects: 0, uploadedBytes: 0, reusedFiles: 0, rehashedFiles: 0 };
+  const progress = createProgressTracker({
+    id: options.id,
+    phase: 'backup',
+    label: 'Backing up',
+    bytesTotal: entries.reduce((sum, e) => sum + e.size, 0),
+    filesTotal: entries.length,
+  });
+
+  for (const entry of entries) {
+    progress.advance(entry.size, entry.path);
+    progress.fileDone();
+    const before = previous.get(entry.path);
+    if (before && before.size === entry.size && before.mtime === entry.mtime) {
+      files.push({ ...entry, checksum: before.checksum, object: before.object ?? objectPath(before.checksum), encryption: before.encryption });
+      stats.reusedFiles++;
+      continue;
+    }
+
+    let content: Buffer;
+    try {
+      content = await fs.readFile(path.join(root, entry.path));
+    } catch (error: any) {
+      skipped.push({ path: entry.path, reason: error.message });
+      continue;
+    }
+    const checksum = sha256(content);
+    stats.rehashedFiles++;
+
+    if (stored.has(checksum)) {
+      stats.reusedFiles++;
+    } else {
+      const object = objectPath(checksum, nameObject);
+      const fanOut = await writeToDestinations(object, content);
+      if (!fanOut.success) {
+        return { success: false, fanOut, error: `Failed to store ${entry.path}: ${fanOut.summary}` };
+      }
+      stored.set(checksum, { object, encryption: fanOut.encryption });
+      stats.uploadedObjects++;
+      stats.uploadedBytes += content.length;
+    }
+    files.push({ path: entry.path, size: content.length, mtime: entry.mtime, checksum, ...stored.get(checksum)! });
+  }
+
+  progress.finish();
+
+  const snapshot: SnapshotIndex = {
+    schema: SNAPSHOT_SCHEMA,
+    id: options.id,
+    created: new Date().toISOString(),
+    target: options.target || 'all',
+    parent: parent?.id,
+    workspace: root,
+    totalFiles: files.length,
+    totalSize: files.reduce((sum, f) => sum + f.size, 0),
+    checksum: merkleRoot(files),
+    files,
+    skipped,
+    stats,
+  };
+
+  const fanOut = await writeToDestinations(`snapshots/${options.id}.json`, JSON.stringify(snapshot, null, 2));
+  return fanOut.success
+    ? { success: true, snapshot, fanOut }
+    : { success: false, snapshot, fanOut, error: `Failed to write snapshot index: ${fanOut.summary}` };
+}
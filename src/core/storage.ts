@@ -0,0 +1,345 @@
+/**
+ * Storage Destinations
+ * Registry of storage backends built from getConfig().destinations
+ *
+ * Jobs, status, signals and archives live on the primary destination (the
+ * readable destination with the lowest priority number). Payload writes fan
+ * out to every enabled destination in priority order when dual-write is on.
+ * With encryption on, every write but disc images is sealed client-side (see
+ * encryption.ts), and unsealed content is refused on read unless the caller
+ * recorded it as unsealed.
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { uploadToOneDrive, uploadPathToOneDrive, oneDriveConfig, UploadProgressCallback, createOnOneDrive, readFromOneDrive, readBinaryFromOneDrive, downloadFromOneDrive, listOneDriveFiles, deleteFromOneDrive, checkOneDriveConnection } from '../adapters/onedrive';
+import { uploadToLocal, uploadPathToLocal, createOnLocal, readFromLocal, readBinaryFromLocal, downloadFromLocal, listLocalFiles, deleteFromLocal, checkLocalConnection } from '../adapters/local';
+import { uploadToSovereignCapsule, checkSovereignCapsuleConnection, listSovereignCapsuleFiles, configureSovereignCapsule, getSovereignCapsuleStatus } from '../adapters/sovereigncapsule';
+import { getConfig, DestinationConfig } from './admin';
+import { sealContent, sealFile, openContent, openFile, isSealed, encryptionEnabled, ObjectEncryption } from './encryption';
+
+export type { UploadProgressCallback };
+
+export interface PathUploadOptions {
+  // false keeps the file out of envelope encryption (disc images, which have disc encryption)
+  seal?: boolean;
+  // Content digest, when known, so an upload session can resume without rehashing the file
+  checksum?: string;
+}
+
+export interface ReadOptions {
+  // Accept unsealed content while encryption is on: disc images, and objects recorded as stored unsealed
+  allowPlain?: boolean;
+}
+
+export interface StorageDestination {
+  id: string;
+  name: string;
+  type: string;
+  priority: number;
+  required: boolean;
+  readable: boolean;
+  configured: boolean;
+  upload(fileName: string, content: Buffer | string): Promise<string>;
+  // Large files (disc images) without holding them in memory where the backend allows
+  uploadFromPath(fileName: string, sourcePath: string, onProgress?: UploadProgressCallback, options?: PathUploadOptions): Promise<string>;
+  create(fileName: string, content: Buffer | string): Promise<boolean>;
+  read(fileName: string): Promise<string | null>;
+  readBinary(fileName: string, options?: ReadOptions): Promise<Buffer | null>;
+  // Streams a file (a disc image) to targetPath; false when it does not exist
+  download(fileName: string, targetPath: string, options?: ReadOptions): Promise<boolean>;
+  list(folderPath?: string): Promise<any[]>;
+  delete(fileName: string): Promise<boolean>;
+  checkConnection(): Promise<boolean>;
+  locate(fileName: string): string;
+}
+
+export type DestinationFactory = (config: DestinationConfig) => StorageDestination;
+
+export interface DestinationResult {
+  id: string;
+  name: string;
+  required: boolean;
+  status: 'written' | 'failed' | 'skipped';
+  message: string;
+}
+
+export interface FanOutResult {
+  success: boolean;
+  results: DestinationResult[];
+  summary: string;
+  encryption?: ObjectEncryption;
+}
+
+const DEFAULT_DESTINATION: DestinationConfig = {
+  id: 'dest-onedrive',
+  name: 'OneDrive',
+  type: 'onedrive',
+  enabled: true,
+  priority: 1,
+  settings: { folder: '/DiscBurn' },
+};
+
+const factories = new Map<string, DestinationFactory>();
+
+export function registerDestinationType(type: string, factory: DestinationFactory) {
+  factories.set(type, factory);
+}
+
+// Each destination keeps its own settings and passes them on every call
+registerDestinationType('onedrive', config => {
+  const drive = oneDriveConfig({
+    ...(config.settings.graphUrl ? { graphUrl: config.settings.graphUrl } : {}),
+    ...(config.settings.accessToken ? { accessToken: config.settings.accessToken } : {}),
+    ...(config.settings.chunkSize ? { chunkSize: config.settings.chunkSize } : {}),
+  });
+  return {
+    ...describe(config),
+    readable: true,
+    configured: true,
+    upload: (fileName, content) => uploadToOneDrive(fileName, content, undefined, drive),
+    uploadFromPath: (fileName, sourcePath, onProgress, options) => uploadPathToOneDrive(fileName, sourcePath, onProgress, options, drive),
+    create: (fileName, content) => createOnOneDrive(fileName, content, drive),
+    read: fileName => readFromOneDrive(fileName, drive),
+    readBinary: fileName => readBinaryFromOneDrive(fileName, drive),
+    download: (fileName, targetPath) => downloadFromOneDrive(fileName, targetPath, drive),
+    list: folderPath => listOneDriveFiles(folderPath, drive),
+    delete: fileName => deleteFromOneDrive(fileName, drive),
+    checkConnection: () => checkOneDriveConnection(drive),
+    locate: fileName => `OneDrive/DiscBurn/${fileName}`,
+  };
+});
+
+registerDestinationType('local', config => {
+  const folder = path.resolve(process.cwd(), config.settings.folder || 'data/discburn');
+  return {
+    ...describe(config),
+    readable: true,
+    configured: true,
+    upload: (fileName, content) => uploadToLocal(fileName, content, folder),
+    uploadFromPath: (fileName, sourcePath, onProgress) => uploadPathToLocal(fileName, sourcePath, onProgress, folder),
+    create: (fileName, content) => createOnLocal(fileName, content, folder),
+    read: fileName => readFromLocal(fileName, folder),
+    readBinary: fileName => readBinaryFromLocal(fileName, folder),
+    download: (fileName, targetPath) => downloadFromLocal(fileName, targetPath, folder),
+    list: folderPath => listLocalFiles(folderPath, folder),
+    delete: fileName => deleteFromLocal(fileName, folder),
+    checkConnection: () => checkLocalConnection(folder),
+    locate: fileName => path.join(folder, fileName),
+  };
+});
+
+// Write-only archive: no read or delete API
+registerDestinationType('sovereigncapsule', config => {
+  configureSovereignCapsule({
+    enabled: true,
+    ...(config.settings.endpoint ? { endpoint: config.settings.endpoint } : {}),
+    ...(config.settings.apiKey ? { apiKey: config.settings.apiKey } : {}),
+  });
+  return {
+    ...describe(config),
+    readable: false,
+    configured: getSovereignCapsuleStatus().configured,
+    upload: uploadToSovereignCapsule,
+    uploadFromPath: async (fileName, sourcePath, onProgress) => {
+      const content = await fs.readFile(sourcePath);
+      const result = await uploadToSovereignCapsule(fileName, content);
+      onProgress?.(content.length, content.length);
+      return result;
+    },
+    create: async () => {
+      throw new Error('SovereignCapsule does not support create-if-absent');
+    },
+    read: async () => null,
+    readBinary: async () => null,
+    download: async () => false,
+    list: listSovereignCapsuleFiles,
+    delete: async () => false,
+    checkConnection: checkSovereignCapsuleConnection,
+    locate: fileName => `SovereignCapsule/${fileName}`,
+  };
+});
+
+function describe(config: DestinationConfig) {
+  return {
+    id: config.id,
+    name: config.name,
+    type: config.type,
+    priority: config.priority,
+    required: config.required ?? false,
+  };
+}
+
+// A single destination without encryption, for tools that work on one folder or drive directly
+export function createDestination(config: DestinationConfig): StorageDestination {
+  const factory = factories.get(config.type);
+  if (!factory) {
+    throw new Error(`Unknown destination type: ${config.type}`);
+  }
+  return factory(config);
+}
+
+// Anyone who can write to a destination could swap in plaintext, so while
+// encryption is on it is only accepted where the caller expects it
+async function acceptPlain(fileName: string, options: ReadOptions = {}): Promise<void> {
+  if (!options.allowPlain && (await encryptionEnabled())) {
+    throw Object.assign(new Error(`Refusing ${fileName}: it is not sealed, but encryption is enabled`), { permanent: true });
+  }
+}
+
+// Writes are sealed while encryption is on; sealed content is opened on every read
+function withEncryption(destination: StorageDestination): StorageDestination {
+  const readOpened = async (fileName: string, options?: ReadOptions) => {
+    const content = await destination.readBinary(fileName);
+    if (!content) {
+      return null;
+    }
+    if (!isSealed(content)) {
+      await acceptPlain(fileName, options);
+    }
+    return openContent(content);
+  };
+  return {
+    ...destination,
+    upload: async (fileName, content) => destination.upload(fileName, (await sealContent(content)).data),
+    // Path uploads are sealed into a temporary file, so they still stream
+    uploadFromPath: async (fileName, sourcePath, onProgress, options = {}) => {
+      if (options.seal === false) {
+        return destination.uploadFromPath(fileName, sourcePath, onProgress, options);
+      }
+      const sealedPath = path.join(os.tmpdir(), `discburn-sealed-${randomUUID()}`);
+      try {
+        const sealed = await sealFile(sourcePath, sealedPath);
+        return sealed
+          ? await destination.uploadFromPath(fileName, sealedPath, onProgress)
+          : await destination.uploadFromPath(fileName, sourcePath, onProgress, options);
+      } finally {
+        await fs.rm(sealedPath, { force: true });
+      }
+    },
+    create: async (fileName, content) => destination.create(fileName, (await sealContent(content)).data),
+    read: async fileName => (await readOpened(fileName))?.toString('utf-8') ?? null,
+    readBinary: readOpened,
+    // Sealed files are opened on the way to targetPath, accepted plain ones are moved there
+    download: async (fileName, targetPath, options) => {
+      const storedPath = `${targetPath}.stored`;
+      try {
+        if (!(await destination.download(fileName, storedPath))) {
+          return false;
+        }
+        if (!(await openFile(storedPath, targetPath))) {
+          await acceptPlain(fileName, options);
+          await fs.rename(storedPath, targetPath);
+        }
+        return true;
+      } finally {
+        await fs.rm(storedPath, { force: true });
+      }
+    },
+  };
+}
+
+// Enabled destinations in priority order; the first readable one is always required
+export async function getDestinations(): Promise<StorageDestination[]> {
+  const config = await getConfig();
+  const destinations = config.destinations
+    .filter(d => d.enabled && factories.has(d.type))
+    .sort((a, b) => a.priority - b.priority)
+    .map(d => withEncryption(factories.get(d.type)!(d)));
+
+  const primary = destinations.find(d => d.readable);
+  if (!primary) {
+    destinations.unshift(withEncryption(factories.get(DEFAULT_DESTINATION.type)!(DEFAULT_DESTINATION)));
+  }
+  (primary || destinations[0]).required = true;
+  return destinations;
+}
+
+export async function getPrimaryDestination(): Promise<StorageDestination> {
+  const destinations = await getDestinations();
+  return destinations.find(d => d.readable)!;
+}
+
+// Writes to every destination (or only the primary when dual-write is off).
+// Fails only if a required destination could not be written.
+export async function writeToDestinations(fileName: string, content: Buffer | string): Promise<FanOutResult> {
+  const config = await getConfig();
+  const all = await getDestinations();
+  const primary = all.find(d => d.readable)!;
+  const destinations = config.features.dualWrite ? all : all.filter(d => d === primary || d.required);
+  const results: DestinationResult[] = [];
+  
+  // Sealed once, so every destination holds the same ciphertext and nonce
+  const sealed = await sealContent(content);
+
+  for (const destination of destinations) {
+    const base = { id: destination.id, name: destination.name, required: destination.required };
+    if (!destination.configured) {
+      results.push({ ...base, status: destination.required ? 'failed' : 'skipped', message: 'Awaiting configuration' });
+      continue;
+    }
+    try {
+      await destination.upload(fileName, sealed.data);
+      results.push({ ...base, status: 'written', message: destination.locate(fileName) });
+    } catch (error: any) {
+      results.push({ ...base, status: 'failed', message: error.message });
+    }
+  }
+
+  const written = results.filter(r => r.status === 'written').length;
+  const requiredFailures = results.filter(r => r.required && r.status !== 'written');
+  const bestEffortMisses = results.filter(r => !r.required && r.status !== 'written');
+
+  let summary = `${written}/${results.length} destinations written`;
+  if (requiredFailures.length > 0) {
+    summary += `; required failed: ${requiredFailures.map(r => r.name).join(', ')}`;
+  }
+  if (bestEffortMisses.length > 0) {
+    summary += `; best-effort missed: ${bestEffortMisses.map(r => r.name).join(', ')}`;
+  }
+
+  return { success: requiredFailures.length === 0, results, summary, encryption: sealed.encryption };
+}
+
+export function formatDestinationResults(fanOut: FanOutResult): string {
+  const lines = fanOut.results.map(r => {
+    const label = r.status === 'written' ? (r.required ? 'Written' : 'Written (best-effort)') : r.status === 'skipped' ? `Skipped: ${r.message}` : `FAILED: ${r.message}`;
+    return `  - ${r.name}: ${label}`;
+  });
+  return [...lines, `  ${fanOut.summary}`].join('\n');
+}
+
+export async function uploadFile(fileName: string, content: Buffer | string): Promise<string> {
+  return (await getPrimaryDestination()).upload(fileName, content);
+}
+
+export async function uploadFileFromPath(fileName: string, sourcePath: string, onProgress?: UploadProgressCallback, options?: PathUploadOptions): Promise<string> {
+  return (await getPrimaryDestination()).uploadFromPath(fileName, sourcePath, onProgress, options);
+}
+
+export async function readFile(fileName: string): Promise<string | null> {
+  return (await getPrimaryDestination()).read(fileName);
+}
+
+export async function readBinaryFile(fileName: string): Promise<Buffer | null> {
+  return (await getPrimaryDestination()).readBinary(fileName);
+}
+
+export async function listFiles(folderPath: string = '/DiscBurn'): Promise<any[]> {
+  return (await getPrimaryDestination()).list(folderPath);
+}
+
+export async function deleteFile(fileName: string): Promise<boolean> {
+  return (await getPrimaryDestination()).delete(fileName);
+}
+
+export async function checkStorageConnection(): Promise<boolean> {
+  return (await getPrimaryDestination()).checkConnection();
+}
+
+// Human-readable location of a stored file, for CLI output
+export async function describeLocation(fileName: string = ''): Promise<string> {
+  return (await getPrimaryDestination()).locate(fileName);
+}
@@ -0,0 +1,595 @@
+/**
+ * UDF Writer
+ * Pure TypeScript UDF 2.50 image writer for Blu-ray targets and files over 4 GB
+ *
+ * Layout: VRS (16-18) | main VDS (32) | reserve VDS (48) | LVID (64) | AVDP (256) |
+ *         partition: metadata file EFEs | metadata extent | mirror extent | file data |
+ *         closing AVDP
+ * The metadata partition holds the file set descriptor, every (extended) file
+ * entry and all directory data; file contents live in the physical partition.
+ */
+
+import {
+  SECTOR_SIZE,
+  ImageEntry,
+  ImageNode,
+  ImageChunk,
+  sectorsFor,
+  entryChunk,
+  buildImageTree,
+  listDirectories,
+  writeImageChunks,
+} from './disc-image';
+
+export const UDF_REVISION = 0x0250;
+
+const VRS_SECTOR = 16;
+const MAIN_VDS_SECTOR = 32;
+const RESERVE_VDS_SECTOR = 48;
+const VDS_LENGTH = 16;
+const LVID_SECTOR = 64;
+const ANCHOR_SECTOR = 256;
+const PARTITION_START = 257;
+const METADATA_ALIGNMENT = 32;
+const MAX_EXTENT_LENGTH = 0x40000000 - SECTOR_SIZE;
+const FIRST_UNIQUE_ID = 16;
+
+const TAG = {
+  PVD: 1,
+  AVDP: 2,
+  IUVD: 4,
+  PD: 5,
+  LVD: 6,
+  USD: 7,
+  TD: 8,
+  LVID: 9,
+  FSD: 256,
+  FID: 257,
+  EFE: 266,
+};
+
+const FILE_TYPE = {
+  directory: 4,
+  file: 5,
+  metadata: 250,
+  metadataMirror: 251,
+};
+
+const ALLOC_SHORT = 0;
+const ALLOC_LONG = 1;
+
+const PHYSICAL_PARTITION_REF = 0;
+const METADATA_PARTITION_REF = 1;
+
+// Owner/group/other: read + execute for directories, read for files
+const DIRECTORY_PERMISSIONS = 0x14a5;
+const FILE_PERMISSIONS = 0x1084;
+
+export interface UdfImageOptions {
+  volumeLabel: string;
+  created?: Date;
+}
+
+export interface UdfImageInfo {
+  path: string;
+  size: number;
+  volumeId: string;
+  fileCount: number;
+  directoryCount: number;
+}
+
+export async function writeUdfImage(
+  entries: ImageEntry[],
+  outputPath: string,
+  options: UdfImageOptions
+): Promise<UdfImageInfo> {
+  const created = options.created || new Date();
+  const volumeId = options.volumeLabel.substring(0, 30) || 'DiscBurn';
+  const root = buildImageTree(entries);
+  const byName = (nodes: ImageNode[]) =>
+    [...nodes].sort((a, b) => Buffer.compare(Buffer.from(a.name), Buffer.from(b.name)));
+  const dirs = listDirectories(root, byName);
+  const files = dirs.flatMap(dir => byName(dir.children).filter(c => !c.isDirectory));
+
+  // Metadata partition: FSD, TD, entries, directory data
+  const icbs = new Map<ImageNode, number>();
+  const uniqueIds = new Map<ImageNode, number>();
+  let metaBlock = 2;
+  let nextUniqueId = FIRST_UNIQUE_ID;
+  for (const node of [...dirs, ...files]) {
+    icbs.set(node, metaBlock++);
+    uniqueIds.set(node, node === root ? 0 : nextUniqueId++);
+  }
+
+  const dirData = new Map<ImageNode, { block: number; length: number }>();
+  for (const dir of dirs) {
+    const length = byName(dir.children).reduce((sum, c) => sum + fidLength(fileIdentifier(c)), fidLength(null));
+    dirData.set(dir, { block: metaBlock, length });
+    metaBlock += sectorsFor(length);
+  }
+  const metadataBlocks = Math.ceil(metaBlock / METADATA_ALIGNMENT) * METADATA_ALIGNMENT;
+
+  // Physical partition: metadata file entries, metadata + mirror extents, file data
+  const metadataStart = METADATA_ALIGNMENT;
+  const mirrorStart = metadataStart + metadataBlocks;
+  let physBlock = mirrorStart + metadataBlocks;
+  const fileData = new Map<ImageNode, number>();
+  for (const file of files) {
+    fileData.set(file, physBlock);
+    physBlock += sectorsFor(file.entry!.size);
+  }
+  const partitionLength = physBlock;
+  const totalSectors = PARTITION_START + partitionLength + 1;
+
+  const metadata = Buffer.alloc(metadataBlocks * SECTOR_SIZE);
+  const place = (block: number, data: Buffer) => data.copy(metadata, block * SECTOR_SIZE);
+
+  place(0, fileSetDescriptor(volumeId, created, icbs.get(root)!));
+  place(1, terminatingDescriptor(1));
+
+  for (const dir of dirs) {
+    const data = dirData.get(dir)!;
+    const subdirs = dir.children.filter(c => c.isDirectory).length;
+    place(
+      icbs.get(dir)!,
+      extendedFileEntry({
+        location: icbs.get(dir)!,
+        fileType: FILE_TYPE.directory,
+        permissions: DIRECTORY_PERMISSIONS,
+        linkCount: 1 + subdirs,
+        uniqueId: uniqueIds.get(dir)!,
+        length: data.length,
+        date: created,
+        allocType: ALLOC_SHORT,
+        allocDescs: shortAllocations(data.block, data.length),
+      })
+    );
+    place(data.block, directoryData(dir, byName(dir.children), data.block, icbs, uniqueIds));
+  }
+
+  for (const file of files) {
+    const length = file.entry!.size;
+    place(
+      icbs.get(file)!,
+      extendedFileEntry({
+        location: icbs.get(file)!,
+        fileType: FILE_TYPE.file,
+        permissions: FILE_PERMISSIONS,
+        linkCount: 1,
+        uniqueId: uniqueIds.get(file)!,
+        length,
+        date: file.entry!.mtime || created,
+        allocType: ALLOC_LONG,
+        allocDescs: longAllocations(fileData.get(file)!, length, PHYSICAL_PARTITION_REF),
+      })
+    );
+  }
+
+  const chunks: ImageChunk[] = [];
+  const at = (sector: number, data: Buffer) => chunks.push({ offset: sector * SECTOR_SIZE, data });
+
+  at(VRS_SECTOR, volumeStructureDescriptor('BEA01'));
+  at(VRS_SECTOR + 1, volumeStructureDescriptor('NSR03'));
+  at(VRS_SECTOR + 2, volumeStructureDescriptor('TEA01'));
+
+  for (const start of [MAIN_VDS_SECTOR, RESERVE_VDS_SECTOR]) {
+    at(start, primaryVolumeDescriptor(start, volumeId, created));
+    at(start + 1, implementationUseVolumeDescriptor(start + 1, volumeId));
+    at(start + 2, partitionDescriptor(start + 2, partitionLength));
+    at(start + 3, logicalVolumeDescriptor(start + 3, volumeId));
+    at(start + 4, unallocatedSpaceDescriptor(start + 4));
+    at(start + 5, terminatingDescriptor(start + 5));
+  }
+
+  at(
+    LVID_SECTOR,
+    logicalVolumeIntegrityDescriptor(created, nextUniqueId, [partitionLength, metadataBlocks], files.length, dirs.length)
+  );
+  at(LVID_SECTOR + 1, terminatingDescriptor(LVID_SECTOR + 1));
+
+  at(ANCHOR_SECTOR, anchorVolumeDescriptorPointer(ANCHOR_SECTOR));
+  at(totalSectors - 1, anchorVolumeDescriptorPointer(totalSectors - 1));
+
+  at(
+    PARTITION_START,
+    extendedFileEntry({
+      location: 0,
+      fileType: FILE_TYPE.metadata,
+      permissions: 0,
+      linkCount: 1,
+      uniqueId: 0,
+      length: metadata.length,
+      date: created,
+      allocType: ALLOC_SHORT,
+      allocDescs: shortAllocations(metadataStart, metadata.length),
+    })
+  );
+  at(
+    PARTITION_START + 1,
+    extendedFileEntry({
+      location: 1,
+      fileType: FILE_TYPE.metadataMirror,
+      permissions: 0,
+      linkCount: 1,
+      uniqueId: 0,
+      length: metadata.length,
+      date: created,
+      allocType: ALLOC_SHORT,
+      allocDescs: shortAllocations(mirrorStart, metadata.length),
+    })
+  );
+  at(PARTITION_START + metadataStart, metadata);
+  at(PARTITION_START + mirrorStart, metadata);
+
+  for (const [file, block] of fileData) {
+    chunks.push(entryChunk(file.entry!, (PARTITION_START + block) * SECTOR_SIZE));
+  }
+
+  const size = totalSectors * SECTOR_SIZE;
+  await writeImageChunks(outputPath, size, chunks);
+
+  return {
+    path: outputPath,
+    size,
+    volumeId,
+    fileCount: files.length,
+    directoryCount: dirs.length,
+  };
+}
+
+// ============================================
+// VOLUME STRUCTURES
+// ============================================
+
+function volumeStructureDescriptor(identifier: string): Buffer {
+  const buf = Buffer.alloc(SECTOR_SIZE);
+  buf.write(identifier, 1, 'ascii');
+  buf[6] = 1;
+  return buf;
+}
+
+function primaryVolumeDescriptor(location: number, volumeId: string, created: Date): Buffer {
+  const buf = Buffer.alloc(512);
+  buf.writeUInt32LE(1, 16);
+  dstring(volumeId, 32).copy(buf, 24);
+  buf.writeUInt16LE(1, 56);
+  buf.writeUInt16LE(1, 58);
+  buf.writeUInt16LE(2, 60);
+  buf.writeUInt16LE(3, 62);
+  buf.writeUInt32LE(1, 64);
+  buf.writeUInt32LE(1, 68);
+  const volumeSetId = created.getTime().toString(16).toUpperCase().padStart(16, '0') + volumeId;
+  dstring(volumeSetId, 128).copy(buf, 72);
+  charspec().copy(buf, 200);
+  charspec().copy(buf, 264);
+  timestamp(created).copy(buf, 376);
+  entityId('*DiscBurn').copy(buf, 388);
+  return finalizeTag(buf, TAG.PVD, location);
+}
+
+function implementationUseVolumeDescriptor(location: number, volumeId: string): Buffer {
+  const buf = Buffer.alloc(512);
+  buf.writeUInt32LE(2, 16);
+  entityId('*UDF LV Info', udfSuffix()).copy(buf, 20);
+  charspec().copy(buf, 52);
+  dstring(volumeId, 128).copy(buf, 116);
+  entityId('*DiscBurn').copy(buf, 352);
+  return finalizeTag(buf, TAG.IUVD, location);
+}
+
+function partitionDescriptor(location: number, partitionLength: number): Buffer {
+  const buf = Buffer.alloc(512);
+  buf.writeUInt32LE(3, 16);
+  buf.writeUInt16LE(1, 20);
+  buf.writeUInt16LE(0, 22);
+  entityId('+NSR03').copy(buf, 24);
+  buf.writeUInt32LE(1, 184);
+  buf.writeUInt32LE(PARTITION_START, 188);
+  buf.writeUInt32LE(partitionLength, 192);
+  entityId('*DiscBurn').copy(buf, 196);
+  return finalizeTag(buf, TAG.PD, location);
+}
+
+function logicalVolumeDescriptor(location: number, volumeId: string): Buffer {
+  const maps = Buffer.concat([physicalPartitionMap(), metadataPartitionMap()]);
+  const buf = Buffer.alloc(440 + maps.length);
+  buf.writeUInt32LE(4, 16);
+  charspec().copy(buf, 20);
+  dstring(volumeId, 128).copy(buf, 84);
+  buf.writeUInt32LE(SECTOR_SIZE, 212);
+  entityId('*OSTA UDF Compliant', domainSuffix()).copy(buf, 216);
+  longAd(SECTOR_SIZE, 0, METADATA_PARTITION_REF).copy(buf, 248);
+  buf.writeUInt32LE(maps.length, 264);
+  buf.writeUInt32LE(2, 268);
+  entityId('*DiscBurn').copy(buf, 272);
+  buf.writeUInt32LE(2 * SECTOR_SIZE, 432);
+  buf.writeUInt32LE(LVID_SECTOR, 436);
+  maps.copy(buf, 440);
+  return finalizeTag(buf, TAG.LVD, location);
+}
+
+function physicalPartitionMap(): Buffer {
+  const map = Buffer.alloc(6);
+  map[0] = 1;
+  map[1] = 6;
+  map.writeUInt16LE(1, 2);
+  map.writeUInt16LE(0, 4);
+  return map;
+}
+
+function metadataPartitionMap(): Buffer {
+  const map = Buffer.alloc(64);
+  map[0] = 2;
+  map[1] = 64;
+  entityId('*UDF Metadata Partition', udfSuffix()).copy(map, 4);
+  map.writeUInt16LE(1, 36);
+  map.writeUInt16LE(0, 38);
+  map.writeUInt32LE(0, 40);
+  map.writeUInt32LE(1, 44);
+  map.writeUInt32LE(0xffffffff, 48);
+  map.writeUInt32LE(METADATA_ALIGNMENT, 52);
+  map.writeUInt16LE(METADATA_ALIGNMENT, 56);
+  return map;
+}
+
+function unallocatedSpaceDescriptor(location: number): Buffer {
+  const buf = Buffer.alloc(24);
+  buf.writeUInt32LE(5, 16);
+  return finalizeTag(buf, TAG.USD, location);
+}
+
+function terminatingDescriptor(location: number): Buffer {
+  return finalizeTag(Buffer.alloc(512), TAG.TD, location);
+}
+
+function logicalVolumeIntegrityDescriptor(
+  created: Date,
+  nextUniqueId: number,
+  partitionSizes: number[],
+  fileCount: number,
+  directoryCount: number
+): Buffer {
+  const n = partitionSizes.length;
+  const buf = Buffer.alloc(80 + 8 * n + 46);
+  timestamp(created).copy(buf, 16);
+  buf.writeUInt32LE(1, 28);
+  buf.writeBigUInt64LE(BigInt(nextUniqueId), 40);
+  buf.writeUInt32LE(n, 72);
+  buf.writeUInt32LE(46, 76);
+  partitionSizes.forEach((size, i) => buf.writeUInt32LE(size, 80 + 4 * n + 4 * i));
+  const impUse = 80 + 8 * n;
+  entityId('*DiscBurn').copy(buf, impUse);
+  buf.writeUInt32LE(fileCount, impUse + 32);
+  buf.writeUInt32LE(directoryCount, impUse + 36);
+  buf.writeUInt16LE(UDF_REVISION, impUse + 40);
+  buf.writeUInt16LE(UDF_REVISION, impUse + 42);
+  buf.writeUInt16LE(UDF_REVISION, impUse + 44);
+  return finalizeTag(buf, TAG.LVID, LVID_SECTOR);
+}
+
+function anchorVolumeDescriptorPointer(location: number): Buffer {
+  const buf = Buffer.alloc(512);
+  buf.writeUInt32LE(VDS_LENGTH * SECTOR_SIZE, 16);
+  buf.writeUInt32LE(MAIN_VDS_SECTOR, 20);
+  buf.writeUInt32LE(VDS_LENGTH * SECTOR_SIZE, 24);
+  buf.writeUInt32LE(RESERVE_VDS_SECTOR, 28);
+  return finalizeTag(buf, TAG.AVDP, location);
+}
+
+// ============================================
+// FILE STRUCTURES
+// ============================================
+
+function fileSetDescriptor(volumeId: string, created: Date, rootBlock: number): Buffer {
+  const buf = Buffer.alloc(512);
+  timestamp(created).copy(buf, 16);
+  buf.writeUInt16LE(3, 28);
+  buf.writeUInt16LE(3, 30);
+  buf.writeUInt32LE(1, 32);
+  buf.writeUInt32LE(1, 36);
+  charspec().copy(buf, 48);
+  dstring(volumeId, 128).copy(buf, 112);
+  charspec().copy(buf, 240);
+  dstring(volumeId, 32).copy(buf, 304);
+  longAd(SECTOR_SIZE, rootBlock, METADATA_PARTITION_REF).copy(buf, 400);
+  entityId('*OSTA UDF Compliant', domainSuffix()).copy(buf, 416);
+  return finalizeTag(buf, TAG.FSD, 0);
+}
+
+function extendedFileEntry(options: {
+  location: number;
+  fileType: number;
+  permissions: number;
+  linkCount: number;
+  uniqueId: number;
+  length: number;
+  date: Date;
+  allocType: number;
+  allocDescs: Buffer;
+}): Buffer {
+  if (216 + options.allocDescs.length > SECTOR_SIZE) {
+    throw new Error('File too large for a single UDF file entry');
+  }
+
+  const buf = Buffer.alloc(216 + options.allocDescs.length);
+  // ICB tag: strategy 4, one entry
+  buf.writeUInt16LE(4, 20);
+  buf.writeUInt16LE(1, 24);
+  buf[27] = options.fileType;
+  buf.writeUInt16LE(options.allocType, 34);
+
+  buf.writeUInt32LE(0xffffffff, 36);
+  buf.writeUInt32LE(0xffffffff, 40);
+  buf.writeUInt32LE(options.permissions, 44);
+  buf.writeUInt16LE(options.linkCount, 48);
+  buf.writeBigUInt64LE(BigInt(options.length), 56);
+  buf.writeBigUInt64LE(BigInt(options.length), 64);
+  buf.writeBigUInt64LE(BigInt(sectorsFor(options.length)), 72);
+  for (const offset of [80, 92, 104, 116]) {
+    timestamp(options.date).copy(buf, offset);
+  }
+  buf.writeUInt32LE(1, 128);
+  entityId('*DiscBurn').copy(buf, 168);
+  buf.writeBigUInt64LE(BigInt(options.uniqueId), 200);
+  buf.writeUInt32LE(options.allocDescs.length, 212);
+  options.allocDescs.copy(buf, 216);
+  return finalizeTag(buf, TAG.EFE, options.location);
+}
+
+function fileIdentifier(node: ImageNode): Buffer {
+  const id = cs0(node.name);
+  if (id.length > 255) {
+    throw new Error(`File name too long for UDF: ${node.name}`);
+  }
+  return id;
+}
+
+function fidLength(identifier: Buffer | null): number {
+  return Math.ceil((38 + (identifier?.length || 0)) / 4) * 4;
+}
+
+function directoryData(
+  dir: ImageNode,
+  children: ImageNode[],
+  firstBlock: number,
+  icbs: Map<ImageNode, number>,
+  uniqueIds: Map<ImageNode, number>
+): Buffer {
+  const fids: Buffer[] = [];
+  let offset = 0;
+
+  const addFid = (target: ImageNode, characteristics: number, identifier: Buffer | null) => {
+    const fid = Buffer.alloc(fidLength(identifier));
+    fid.writeUInt16LE(1, 16);
+    fid[18] = characteristics;
+    fid[19] = identifier?.length || 0;
+    longAd(SECTOR_SIZE, icbs.get(target)!, METADATA_PARTITION_REF, uniqueIds.get(target)!).copy(fid, 20);
+    identifier?.copy(fid, 38);
+    fids.push(finalizeTag(fid, TAG.FID, firstBlock + Math.floor(offset / SECTOR_SIZE)));
+    offset += fid.length;
+  };
+
+  addFid(dir.parent || dir, 0x0a, null);
+  for (const child of children) {
+    addFid(child, child.isDirectory ? 0x02 : 0x00, fileIdentifier(child));
+  }
+
+  return Buffer.concat(fids);
+}
+
+function shortAllocations(block: number, length: number): Buffer {
+  const ads: Buffer[] = [];
+  for (let done = 0; done < length; done += MAX_EXTENT_LENGTH) {
+    const ad = Buffer.alloc(8);
+    ad.writeUInt32LE(Math.min(MAX_EXTENT_LENGTH, length - done), 0);
+    ad.writeUInt32LE(block + done / SECTOR_SIZE, 4);
+    ads.push(ad);
+  }
+  return Buffer.concat(ads);
+}
+
+function longAllocations(block: number, length: number, partitionRef: number): Buffer {
+  const ads: Buffer[] = [];
+  for (let done = 0; done < length; done += MAX_EXTENT_LENGTH) {
+    ads.push(longAd(Math.min(MAX_EXTENT_LENGTH, length - done), block + done / SECTOR_SIZE, partitionRef));
+  }
+  return Buffer.concat(ads);
+}
+
+// ============================================
+// ENCODING HELPERS
+// ============================================
+
+function longAd(length: number, block: number, partitionRef: number, uniqueId?: number): Buffer {
+  const ad = Buffer.alloc(16);
+  ad.writeUInt32LE(length, 0);
+  ad.writeUInt32LE(block, 4);
+  ad.writeUInt16LE(partitionRef, 8);
+  if (uniqueId !== undefined) {
+    ad.writeUInt32LE(uniqueId, 12);
+  }
+  return ad;
+}
+
+function entityId(identifier: string, suffix: number[] = []): Buffer {
+  const buf = Buffer.alloc(32);
+  buf.write(identifier, 1, 23, 'ascii');
+  Buffer.from(suffix).copy(buf, 24);
+  return buf;
+}
+
+function domainSuffix(): number[] {
+  return [UDF_REVISION & 0xff, UDF_REVISION >> 8, 0];
+}
+
+function udfSuffix(): number[] {
+  return [UDF_REVISION & 0xff, UDF_REVISION >> 8, 0, 0];
+}
+
+function charspec(): Buffer {
+  const buf = Buffer.alloc(64);
+  buf.write('OSTA Compressed Unicode', 1, 'ascii');
+  return buf;
+}
+
+// OSTA CS0: 8-bit when every character fits, otherwise UCS-2 big-endian
+function cs0(value: string): Buffer {
+  if (![...value].some(c => c.charCodeAt(0) > 0xff)) {
+    return Buffer.concat([Buffer.from([8]), Buffer.from(value, 'latin1')]);
+  }
+  return Buffer.concat([Buffer.from([16]), Buffer.from(value, 'utf16le').swap16()]);
+}
+
+function dstring(value: string, length: number): Buffer {
+  const buf = Buffer.alloc(length);
+  if (!value) return buf;
+
+  let encoded = cs0(value);
+  const step = encoded[0] === 16 ? 2 : 1;
+  const usable = 1 + Math.floor((length - 2) / step) * step;
+  encoded = encoded.subarray(0, Math.min(encoded.length, usable));
+  encoded.copy(buf, 0);
+  buf[length - 1] = encoded.length;
+  return buf;
+}
+
+function timestamp(date: Date): Buffer {
+  const buf = Buffer.alloc(12);
+  buf.writeUInt16LE(0x1000, 0);
+  buf.writeUInt16LE(date.getUTCFullYear(), 2);
+  buf[4] = date.getUTCMonth() + 1;
+  buf[5] = date.getUTCDate();
+  buf[6] = date.getUTCHours();
+  buf[7] = date.getUTCMinutes();
+  buf[8] = date.getUTCSeconds();
+  buf[9] = Math.floor(date.getUTCMilliseconds() / 10);
+  return buf;
+}
+
+function finalizeTag(buf: Buffer, tagId: number, location: number): Buffer {
+  buf.writeUInt16LE(tagId, 0);
+  buf.writeUInt16LE(3, 2);
+  buf.writeUInt16LE(1, 6);
+  buf.writeUInt16LE(crc16(buf.subarray(16)), 8);
+  buf.writeUInt16LE(buf.length - 16, 10);
+  buf.writeUInt32LE(location, 12);
+
+  let checksum = 0;
+  for (let i = 0; i < 16; i++) {
+    if (i !== 4) checksum += buf[i];
+  }
+  buf[4] = checksum & 0xff;
+  return buf;
+}
+
+// CRC-ITU-T (x^16 + x^12 + x^5 + 1), as required for descriptor tags
+function crc16(data: Buffer): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
@@ -0,0 +1,200 @@
+/**
+ * Post-Burn Verification
+ * Reads back a mounted disc, drive or image file and checks every file
+ * against the digests recorded in the burn manifest. Encrypted discs are
+ * checked through their decrypted image.
+ *
+ * A file without a recorded digest cannot be verified and fails, as does any
+ * file on the disc the manifest does not list (other than the disc index).
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PayloadFile } from './manifest';
+import { sha256File } from './checksum';
+import { readImageFiles, hashImageFile, ImageFile } from './image-reader';
+import { unsealDiscImage, SEALED_IMAGE_NAME } from './sealed-disc';
+import { DISC_INDEX_NAME } from './iso-generator';
+
+export type FileVerificationStatus = 'ok' | 'mismatch' | 'size_mismatch' | 'missing' | 'unreadable' | 'unverified' | 'unexpected';
+
+export interface FileVerification {
+  path: string;
+  status: FileVerificationStatus;
+  expected?: string;
+  actual?: string;
+  expectedSize?: number;
+  actualSize?: number;
+  error?: string;
+}
+
+export interface VerificationReport {
+  source: string;
+  sourceType: 'directory' | 'image';
+  volume?: number;
+  encrypted?: boolean;
+  verifiedAt: string;
+  passed: boolean;
+  skipped?: boolean;
+  checked: number;
+  failed: number;
+  files: FileVerification[];
+  reason?: string;
+}
+
+interface ReadbackFile {
+  size: number;
+  hash: () => Promise<string>;
+}
+
+export async function verifyBurn(
+  source: string,
+  files: PayloadFile[],
+  // onFile is called as each file is checked, for progress reporting
+  options: { volume?: number; encrypted?: boolean; onFile?: (filePath: string, size: number) => void } = {}
+): Promise<VerificationReport> {
+  const stats = await fs.stat(source);
+  const sourceType = stats.isDirectory() ? 'directory' : 'image';
+
+  if (options.encrypted) {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'discburn-verify-'));
+    try {
+      const imagePath = path.join(workDir, 'disc.iso');
+      if (!(await unsealDiscImage(source, imagePath))) {
+        throw new Error(`Not an encrypted disc: ${SEALED_IMAGE_NAME} not found`);
+      }
+      const report = await verifyBurn(imagePath, files, { volume: options.volume, onFile: options.onFile });
+      return { ...report, source, sourceType, encrypted: true };
+    } catch (error: any) {
+      return {
+        source,
+        sourceType,
+        volume: options.volume,
+        encrypted: true,
+        verifiedAt: new Date().toISOString(),
+        passed: false,
+        checked: 0,
+        failed: 0,
+        files: [],
+        reason: error.message,
+      };
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+  const readback = sourceType === 'directory' ? await indexDirectory(source) : await indexImage(source);
+
+  const expected = files.filter(f => f.include && (options.volume === undefined || f.volume === undefined || f.volume === options.volume));
+  const results: FileVerification[] = [];
+
+  for (const file of expected) {
+    const found = readback.get(normalizePath(file.path));
+    options.onFile?.(file.path, found?.size ?? file.size ?? 0);
+    if (!file.checksum) {
+      results.push({ path: file.path, status: 'unverified', error: 'No checksum recorded in manifest' });
+      continue;
+    }
+    if (!found) {
+      results.push({ path: file.path, status: 'missing', expected: file.checksum });
+      continue;
+    }
+    if (file.size !== undefined && file.size !== found.size) {
+      results.push({
+        path: file.path,
+        status: 'size_mismatch',
+        expected: file.checksum,
+        expectedSize: file.size,
+        actualSize: found.size,
+      });
+      continue;
+    }
+
+    try {
+      const actual = await found.hash();
+      results.push({
+        path: file.path,
+        status: actual === file.checksum ? 'ok' : 'mismatch',
+        expected: file.checksum,
+        actual,
+        actualSize: found.size,
+      });
+    } catch (error: any) {
+      results.push({ path: file.path, status: 'unreadable', expected: file.checksum, error: error.message });
+    }
+  }
+
+  const listed = new Set(expected.map(f => normalizePath(f.path)));
+  for (const [filePath, found] of readback) {
+    if (!listed.has(filePath) && filePath !== DISC_INDEX_NAME) {
+      results.push({ path: filePath, status: 'unexpected', actualSize: found.size });
+    }
+  }
+
+  const failures = results.filter(r => r.status !== 'ok');
+
+  return {
+    source,
+    sourceType,
+    volume: options.volume,
+    verifiedAt: new Date().toISOString(),
+    passed: failures.length === 0,
+    checked: expected.length,
+    failed: failures.length,
+    files: results,
+    reason: failures.length > 0 ? describeFailures(failures) : undefined,
+  };
+}
+
+function describeFailures(failures: FileVerification[]): string {
+  const first = failures.slice(0, 3).map(f => {
+    switch (f.status) {
+      case 'mismatch':
+        return `${f.path}: checksum mismatch (expected ${f.expected}, got ${f.actual})`;
+      case 'size_mismatch':
+        return `${f.path}: size mismatch (expected ${f.expectedSize} bytes, got ${f.actualSize})`;
+      case 'missing':
+        return `${f.path}: missing from disc`;
+      case 'unverified':
+        return `${f.path}: no checksum recorded in manifest`;
+      case 'unexpected':
+        return `${f.path}: on disc but not in manifest`;
+      default:
+        return `${f.path}: unreadable (${f.error})`;
+    }
+  });
+  const more = failures.length > 3 ? `; and ${failures.length - 3} more` : '';
+  return `Verification failed for ${failures.length} file(s): ${first.join('; ')}${more}`;
+}
+
+function normalizePath(filePath: string): string {
+  return filePath.split(/[\\/]+/).filter(p => p && p !== '.').join('/');
+}
+
+async function indexDirectory(root: string): Promise<Map<string, ReadbackFile>> {
+  const index = new Map<string, ReadbackFile>();
+
+  async function scan(dir: string, prefix: string) {
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        await scan(fullPath, relativePath);
+      } else if (entry.isFile()) {
+        const { size } = await fs.stat(fullPath);
+        index.set(relativePath, { size, hash: () => sha256File(fullPath) });
+      }
+    }
+  }
+
+  await scan(root, '');
+  return index;
+}
+
+async function indexImage(imagePath: string): Promise<Map<string, ReadbackFile>> {
+  const listing = await readImageFiles(imagePath);
+  return new Map(listing.files.map((file: ImageFile) => [
+    normalizePath(file.path),
+    { size: file.size, hash: () => hashImageFile(imagePath, file) },
+  ]));
+}
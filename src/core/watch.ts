@@ -0,0 +1,200 @@
+/**
+ * Watch
+ * Live view of the burner: device, pending jobs, active job progress,
+ * inbound signals and HELM blocks
+ *
+ *   watch                      redraw a dashboard every 2 seconds until q
+ *   watch --interval 5         refresh every 5 seconds
+ *   watch --json               one snapshot per line, for piping
+ *
+ * Each refresh reads the state once into a WatchSnapshot. The CLI redraws the
+ * dashboard from it or prints it as a JSON line; the executor returns a
+ * single snapshot where there is no terminal to draw on.
+ */
+
+import { receiveSignals, getDeviceState, getResponseBuffer, getBlockedSignals, getHelmStatus, SignalPacket, BlockedSignal } from '../adapters/usb-signal';
+import { getJobQueue, JobPriority } from './job-queue';
+import { listFiles, readFile } from './storage';
+import { JobStatus } from './manifest';
+import { IN_FLIGHT } from './job-lifecycle';
+import { ProgressEvent, formatBytes, formatEta } from './progress';
+
+export const DEFAULT_WATCH_INTERVAL_MS = 2000;
+const MIN_WATCH_INTERVAL_MS = 500;
+
+// Status files read per refresh, newest first
+const STATUS_FILES_READ = 5;
+const RECENT_ITEMS = 5;
+
+export interface WatchOptions {
+  intervalMs: number;
+  json: boolean;
+}
+
+export interface ActiveJob {
+  jobId: string;
+  status: JobStatus;
+  progress: number;
+  volume?: number;
+  totalVolumes?: number;
+  transfer?: ProgressEvent;
+  updated: string;
+}
+
+export interface WatchSnapshot {
+  timestamp: string;
+  device: {
+    connected: boolean;
+    deviceId: string | null;
+    capabilities: string[];
+    lastSignal: string | null;
+  };
+  pendingJobs: { jobId: string; priority: JobPriority; state: string; attempts: number; availableAt?: string }[];
+  activeJobs: ActiveJob[];
+  signals: {
+    // Received during this refresh
+    received: number;
+    recent: SignalPacket[];
+  };
+  helm: {
+    active: boolean;
+    signalsThisMinute: number;
+    blockedTotal: number;
+    recentBlocks: BlockedSignal[];
+  };
+}
+
+export function parseWatchOptions(target: string = ''): { options?: WatchOptions; error?: string } {
+  const options: WatchOptions = { intervalMs: DEFAULT_WATCH_INTERVAL_MS, json: false };
+  const tokens = target.split(/\s+/).filter(Boolean);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i].toLowerCase();
+    if (token === '--json' || token === 'json') {
+      options.json = true;
+    } else if (token === '--interval' || token.startsWith('--interval=')) {
+      const value = token.includes('=') ? token.slice('--interval='.length) : tokens[++i];
+      const seconds = Number(value);
+      if (!value || !Number.isFinite(seconds) || seconds * 1000 < MIN_WATCH_INTERVAL_MS) {
+        return { error: `Invalid interval: ${value ?? '(missing)'}. Give seconds, at least ${MIN_WATCH_INTERVAL_MS / 1000}.` };
+      }
+      options.intervalMs = Math.round(seconds * 1000);
+    } else {
+      return { error: `Unknown watch option: ${tokens[i]}. Usage: watch [--interval <seconds>] [--json]` };
+    }
+  }
+
+  return { options };
+}
+
+// The device is probed by the caller: a probe moves the signal watermark, so
+// probing on every refresh would skip signals that arrive in between
+export async function collectWatchSnapshot(): Promise<WatchSnapshot> {
+  const received = await receiveSignals();
+  const device = getDeviceState();
+  const queued = await (await getJobQueue()).list();
+  const helm = getHelmStatus();
+  const blocked = getBlockedSignals();
+
+  return {
+    timestamp: new Date().toISOString(),
+    device: {
+      connected: device.connected,
+      deviceId: device.deviceId,
+      capabilities: device.capabilities,
+      lastSignal: device.lastSignal ? new Date(device.lastSignal).toISOString() : null,
+    },
+    pendingJobs: queued.map(e => ({
+      jobId: e.job.jobId,
+      priority: e.job.priority,
+      state: e.state,
+      attempts: e.job.attempts,
+      availableAt: e.job.availableAt,
+    })),
+    activeJobs: await loadActiveJobs(),
+    signals: { received: received.length, recent: getResponseBuffer().slice(-RECENT_ITEMS) },
+    helm: {
+      active: helm.active,
+      signalsThisMinute: helm.stats.signalsThisMinute,
+      blockedTotal: blocked.length,
+      recentBlocks: blocked.slice(-RECENT_ITEMS),
+    },
+  };
+}
+
+async function loadActiveJobs(): Promise<ActiveJob[]> {
+  const statusFiles = (await listFiles('/DiscBurn/status'))
+    .filter(f => !f.folder && f.name?.endsWith('.json'))
+    .sort((a, b) => String(b.lastModifiedDateTime || '').localeCompare(String(a.lastModifiedDateTime || '')))
+    .slice(0, STATUS_FILES_READ);
+
+  const jobs: ActiveJob[] = [];
+  for (const file of statusFiles) {
+    try {
+      const content = await readFile(`status/${file.name}`);
+      const status = content ? JSON.parse(content) : null;
+      if (status && IN_FLIGHT.includes(status.status)) jobs.push(status);
+    } catch {}
+  }
+  return jobs;
+}
+
+export function formatWatchDashboard(snapshot: WatchSnapshot, options: { intervalMs?: number } = {}): string[] {
+  const { device, helm } = snapshot;
+  const refresh = options.intervalMs ? `  (every ${options.intervalMs / 1000}s, q to quit)` : '';
+  return [
+    'BIDIRECTIONAL SIGNAL MONITOR',
+    '============================',
+    `Updated: ${new Date(snapshot.timestamp).toLocaleTimeString()}${refresh}`,
+    `Device: ${device.connected ? `CONNECTED (${device.deviceId})` : 'Searching...'}`,
+    `Capabilities: ${device.capabilities.join(', ') || 'Probing...'}`,
+    `Last Signal: ${device.lastSignal ? new Date(device.lastSignal).toLocaleTimeString() : 'None'}`,
+    '',
+    'OUTBOUND (Phone -> DVD557s)',
+    '---------------------------',
+    `Pending Jobs: ${snapshot.pendingJobs.length}`,
+    ...listOrNone(
+      snapshot.pendingJobs.slice(0, RECENT_ITEMS).map(j => `  - ${j.jobId} (${j.state}, ${j.priority}${j.attempts > 0 ? `, attempt ${j.attempts + 1}` : ''})`),
+      '  (none)'
+    ),
+    '',
+    'ACTIVE JOBS',
+    '-----------',
+    ...listOrNone(snapshot.activeJobs.flatMap(formatActiveJob), '  No active jobs'),
+    '',
+    'INBOUND (DVD557s -> Phone)',
+    '--------------------------',
+    `New Signals: ${snapshot.signals.received}`,
+    ...listOrNone(
+      snapshot.signals.recent.map(s => `  ${new Date(s.timestamp).toLocaleTimeString()} [${s.type}] ${JSON.stringify(s.payload).substring(0, 50)}`),
+      '  (waiting...)'
+    ),
+    '',
+    'HELM',
+    '----',
+    `Security: ${helm.active ? 'ACTIVE' : 'OFF'}  Signals This Minute: ${helm.signalsThisMinute}  Blocked: ${helm.blockedTotal}`,
+    ...listOrNone(
+      helm.recentBlocks.map(b => `  ${new Date(b.blockedAt).toLocaleTimeString()} [${b.type}] ${b.source || 'unknown'}: ${b.reason}`),
+      '  (no blocks)'
+    ),
+  ];
+}
+
+function formatActiveJob(job: ActiveJob): string[] {
+  const disc = job.totalVolumes ? `, disc ${job.volume} of ${job.totalVolumes}` : '';
+  const lines = [`  ${job.jobId}: ${job.status} (${job.progress}%${disc})`];
+  const transfer = job.transfer;
+  if (transfer && !transfer.done) {
+    const filled = Math.round(transfer.percent / 5);
+    lines.push(
+      `    [${'#'.repeat(filled)}${'-'.repeat(20 - filled)}] ${transfer.percent}%  ${formatBytes(transfer.bytesDone)} / ${formatBytes(transfer.bytesTotal)}  ` +
+        `${formatBytes(transfer.bytesPerSecond)}/s  ETA ${formatEta(transfer.etaSeconds)}`
+    );
+    if (transfer.currentFile) lines.push(`    ${transfer.currentFile}`);
+  }
+  return lines;
+}
+
+function listOrNone(lines: string[], none: string): string[] {
+  return lines.length > 0 ? lines : [none];
+}
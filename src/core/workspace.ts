@@ -0,0 +1,129 @@
+/**
+ * Workspace Scanner
+ * Lists the files a burn, backup or package may take from the workspace
+ *
+ * .gitignore files are honoured at every level, on top of DEFAULT_IGNORES.
+ * Dotfiles and symbolic links follow the scan section of data/config.json.
+ * Each entry carries the size and mtime from the scan, so callers need not
+ * stat again.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Stats } from 'fs';
+import { getConfig } from './admin';
+import { createIgnoreMatcher, parseIgnoreFile } from './ignore-rules';
+import { SkippedFile } from './iso-generator';
+
+export interface WorkspaceEntry {
+  path: string;
+  size: number;
+  mtime: string;
+}
+
+export interface ScanOptions {
+  root?: string;
+  includeDotfiles?: boolean;
+  followSymlinks?: boolean;
+  skipped?: SkippedFile[];
+}
+
+// Platform and tooling folders, applied before any .gitignore (which may re-include them)
+export const DEFAULT_IGNORES = [
+  '.git/',
+  'node_modules/',
+  '.cache/',
+  '.expo/',
+  '.local/',
+  '.upm/',
+  '/data/',
+  '.replit',
+  'replit.nix',
+  'package-lock.json',
+];
+
+export async function scanWorkspaceFiles(options: ScanOptions = {}): Promise<WorkspaceEntry[]> {
+  const { scan } = await getConfig();
+  const root = options.root || process.cwd();
+  const includeDotfiles = options.includeDotfiles ?? scan?.includeDotfiles ?? false;
+  const followSymlinks = options.followSymlinks ?? scan?.followSymlinks ?? true;
+  const skipped = options.skipped || [];
+
+  const ignored = createIgnoreMatcher(parseIgnoreFile(DEFAULT_IGNORES.join('\n')));
+  const entries: WorkspaceEntry[] = [];
+  const visited = new Set<string>();
+
+  async function walk(dir: string, prefix: string) {
+    // Followed links can point back up the tree or at a folder taken already
+    if (followSymlinks) {
+      const real = await fs.realpath(dir).catch(() => dir);
+      if (visited.has(real)) {
+        skipped.push({ path: prefix || '.', reason: 'Symbolic link to a folder already scanned' });
+        return;
+      }
+      visited.add(real);
+    }
+
+    let dirents;
+    try {
+      dirents = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error: any) {
+      skipped.push({ path: prefix || '.', reason: error.message });
+      return;
+    }
+
+    try {
+      ignored.add(parseIgnoreFile(await fs.readFile(path.join(dir, '.gitignore'), 'utf-8'), prefix));
+    } catch {}
+
+    for (const dirent of dirents.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (!includeDotfiles && dirent.name.startsWith('.')) continue;
+
+      const fullPath = path.join(dir, dirent.name);
+      const relativePath = prefix ? `${prefix}/${dirent.name}` : dirent.name;
+
+      let stat: Stats | undefined;
+      let isDirectory = dirent.isDirectory();
+      if (dirent.isSymbolicLink()) {
+        if (!followSymlinks) {
+          skipped.push({ path: relativePath, reason: 'Symbolic link (not followed)' });
+          continue;
+        }
+        try {
+          stat = await fs.stat(fullPath);
+        } catch {
+          skipped.push({ path: relativePath, reason: 'Broken symbolic link' });
+          continue;
+        }
+        isDirectory = stat.isDirectory();
+      }
+
+      if (ignored.ignores(relativePath, isDirectory)) continue;
+
+      if (isDirectory) {
+        await walk(fullPath, relativePath);
+        continue;
+      }
+
+      try {
+        stat ||= await fs.stat(fullPath);
+      } catch (error: any) {
+        skipped.push({ path: relativePath, reason: error.message });
+        continue;
+      }
+      if (!stat.isFile()) {
+        skipped.push({ path: relativePath, reason: 'Not a regular file' });
+        continue;
+      }
+
+      entries.push({ path: relativePath, size: stat.size, mtime: stat.mtime.toISOString() });
+    }
+  }
+
+  await walk(root, '');
+  return entries;
+}
+
+export function entrySizes(entries: WorkspaceEntry[]): Record<string, number> {
+  return Object.fromEntries(entries.map(e => [e.path, e.size]));
+}
@@ -83,3 +83,13 @@ export async function createOneDriveFolder(folderName: string): Promise<boolean>
     return false;
   }
 }
+
+export async function readOneDriveJson<T = any>(filePath: string): Promise<T | null> {
+  try {
+    const client = await getOneDriveClient();
+    const content = await client.api(`/me/drive/root:${filePath}:/content`).get();
+    return typeof content === 'string' ? JSON.parse(content) : content;
+  } catch {
+    return null;
+  }
+}